@@ -1,6 +1,10 @@
-import { Form, Link, useLoaderData } from "react-router";
+import { Link, useLoaderData } from "react-router";
+import { TabForm } from "../../../../packages/tab-id-hook/src/client/tab-form";
 import { useTabId } from "../../../../packages/tab-id-hook/src/client/use-tab-id";
-import { getTabId } from "../../../../packages/tab-id-hook/src/server/get-tab-id";
+import {
+  getTabId,
+  getTabIdFromFormData,
+} from "../../../../packages/tab-id-hook/src/server/get-tab-id";
 import { getSession, hasSession, updateSession } from "../session.server";
 import type { Route } from "./+types/demo";
 
@@ -14,7 +18,7 @@ export async function loader({ request }: Route.LoaderArgs) {
   // Artificial delay to demonstrate the "no tab id" state
   // Only apply this delay if we're creating a new session
 
-  if (!hasSession(tabId)) {
+  if (!(await hasSession(tabId))) {
     await new Promise((resolve) => setTimeout(resolve, 5000));
   }
 
@@ -23,13 +27,13 @@ export async function loader({ request }: Route.LoaderArgs) {
 }
 
 export async function action({ request }: Route.ActionArgs) {
-  const tabId = getTabId(request);
+  const formData = await request.formData();
+  const tabId = getTabIdFromFormData(formData);
 
   if (!tabId) {
     throw new Response("Tab ID missing", { status: 400 });
   }
 
-  const formData = await request.formData();
   const intent = formData.get("intent");
 
   if (intent === "increment") {
@@ -86,7 +90,7 @@ export default function Demo() {
               {JSON.stringify(session, null, 2)}
             </pre>
 
-            <Form method="post" className="mt-4">
+            <TabForm method="post" className="mt-4">
               <button
                 type="submit"
                 name="intent"
@@ -95,7 +99,7 @@ export default function Demo() {
               >
                 Increment Count
               </button>
-            </Form>
+            </TabForm>
           </div>
         ) : (
           <div className="mt-2">
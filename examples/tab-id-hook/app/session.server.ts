@@ -1,36 +1,33 @@
+import { createTabStore } from "../../../packages/tab-id-hook/src/server/tab-store";
+
 type SessionData = {
   count: number;
   lastUpdated: string;
 };
 
-// A naive in-memory session storage
-// In a real app, this would be Redis, a database, etc.
-const sessionStore = new Map<string, SessionData>();
+// An in-memory tab store: entries expire 30 minutes after their tab stopped
+// using them. In a real app, this could be backed by the filesystem or SQLite.
+const sessionStore = createTabStore<SessionData>();
+
+// Expired entries are never returned, but must be swept to free the memory
+setInterval(() => void sessionStore.sweep(), 60_000).unref();
 
 export async function getSession(tabId: string): Promise<SessionData> {
-  if (!sessionStore.has(tabId)) {
-    sessionStore.set(tabId, {
-      count: 0,
-      lastUpdated: new Date().toISOString(),
-    });
-  }
-  return sessionStore.get(tabId)!;
+  return (await sessionStore.get(tabId)) ?? (await updateSession(tabId, {}));
 }
 
-export function hasSession(tabId: string): boolean {
-  return sessionStore.has(tabId);
+export async function hasSession(tabId: string): Promise<boolean> {
+  return (await sessionStore.get(tabId)) !== undefined;
 }
 
 export async function updateSession(
   tabId: string,
   data: Partial<SessionData>
 ): Promise<SessionData> {
-  const current = await getSession(tabId);
-  const updated = {
+  return await sessionStore.update(tabId, (current) => ({
+    count: 0,
     ...current,
     ...data,
     lastUpdated: new Date().toISOString(),
-  };
-  sessionStore.set(tabId, updated);
-  return updated;
+  }));
 }
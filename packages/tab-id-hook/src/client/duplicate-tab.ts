@@ -0,0 +1,71 @@
+import { INSTANCE_ID } from "./instance-id";
+
+/**
+ * The broadcast channel used to run the duplicate tab handshake.
+ */
+const CHANNEL_NAME = "tab-id:duplicate-tab";
+
+/**
+ * A message exchanged between tabs during the duplicate tab handshake.
+ */
+type HandshakeMessage = {
+  /** `claim` is sent when a tab starts using an ID, `reply` is sent by the tab that keeps it. */
+  type: "claim" | "reply";
+  /** The tab ID being claimed. */
+  id: string;
+  /** The document instance making the claim. */
+  instanceId: string;
+  /** When the document was created (see `performance.timeOrigin`). */
+  createdAt: number;
+};
+
+/**
+ * Runs a BroadcastChannel handshake with every other tab of the application to
+ * detect tabs that share the same tab ID (typically after the browser's "duplicate tab" action).
+ *
+ * When two tabs claim the same ID, the oldest document keeps it and the other one
+ * is notified via `onDuplicate()` so it can switch to a new ID.
+ *
+ * @param id The tab ID currently used by this tab.
+ * @param onDuplicate Called when another (older) tab already uses `id`.
+ * @param instance The document running the handshake (only overridden to simulate other tabs, see `createTabEnvironment()`).
+ * @returns A cleanup function that ends the handshake.
+ */
+export function detectDuplicateTab(
+  id: string,
+  onDuplicate: (id: string) => void,
+  instance: Pick<HandshakeMessage, "instanceId" | "createdAt"> = { instanceId: INSTANCE_ID, createdAt: performance.timeOrigin },
+): () => void {
+  if (typeof BroadcastChannel === "undefined") {
+    return () => {}; // nothing to coordinate with (ie: server-side or unsupported browser)
+  }
+
+  const self = { id, ...instance };
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+
+  channel.onmessage = ({ data }: MessageEvent<HandshakeMessage>) => {
+    if (data.id !== id || data.instanceId === self.instanceId) {
+      return; // not a conflict, or a message from another hook in this very document
+    }
+
+    if (outranks(self, data)) {
+      // let the other tab know that this ID is taken (but don't reply to replies)
+      if (data.type === "claim") {
+        channel.postMessage({ ...self, type: "reply" } satisfies HandshakeMessage);
+      }
+    } else {
+      onDuplicate(id);
+    }
+  };
+
+  channel.postMessage({ ...self, type: "claim" } satisfies HandshakeMessage);
+  return () => channel.close();
+}
+
+/**
+ * Determines which of two tabs gets to keep a shared tab ID.
+ * The oldest document wins; ties are broken by comparing instance IDs so that both tabs reach the same decision.
+ */
+function outranks(a: Omit<HandshakeMessage, "type">, b: Omit<HandshakeMessage, "type">): boolean {
+  return a.createdAt < b.createdAt || (a.createdAt === b.createdAt && a.instanceId < b.instanceId);
+}
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { defineTabIdConfig } from "../config";
+import { forkTab } from "./fork-tab";
+
+describe("fork-tab", () => {
+  const submit = vi.fn();
+
+  /**
+   * Returns the form submitted by `forkTab()`: its action, target and fields.
+   */
+  const getSubmittedForm = () => {
+    const form = submit.mock.contexts[0] as HTMLFormElement;
+    return { action: form.action, target: form.target, rel: form.rel, fields: Object.fromEntries(new FormData(form)) };
+  };
+
+  beforeEach(() => {
+    window.sessionStorage.clear();
+    window.history.replaceState(null, "", "/orders/123?tid=ab-1234&page=2");
+    submit.mockClear();
+    vi.spyOn(HTMLFormElement.prototype, "submit").mockImplementation(submit);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    window.history.replaceState(null, "", "/");
+  });
+
+  describe("forkTab()", () => {
+    it("should post the current tab ID to the fork route in a new tab", () => {
+      window.sessionStorage.setItem("tab-id", "ab-1234");
+
+      expect(forkTab()).toBe(true);
+      expect(getSubmittedForm()).toEqual({
+        action: "http://localhost:3000/tab-fork",
+        target: "_blank",
+        rel: "noopener",
+        fields: { tid: "ab-1234", to: "/orders/123?page=2" },
+      });
+      expect(document.querySelector("form")).toBeNull(); // removed once submitted
+    });
+
+    it("should open the given URL", () => {
+      window.sessionStorage.setItem("tab-id", "ab-1234");
+      forkTab("/orders/123/edit", { endpoint: "/app/tab-fork" });
+
+      expect(getSubmittedForm()).toMatchObject({
+        action: "http://localhost:3000/app/tab-fork",
+        fields: { tid: "ab-1234", to: "/orders/123/edit" },
+      });
+    });
+
+    it("should use the shared configuration", () => {
+      const config = defineTabIdConfig({ idSearchParamKey: "tab", sessionStorageKey: "custom-key" });
+      window.sessionStorage.setItem("custom-key", "cd-5678");
+
+      forkTab("/orders?tab=cd-5678", { config });
+
+      expect(getSubmittedForm().fields).toEqual({ tab: "cd-5678", to: "/orders" });
+    });
+
+    it("should not open anything while the current tab has no tab ID", () => {
+      expect(forkTab()).toBe(false);
+      expect(submit).not.toHaveBeenCalled();
+    });
+  });
+});
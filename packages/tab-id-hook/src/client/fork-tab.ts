@@ -0,0 +1,104 @@
+import type { TabIdConfig } from "../config";
+import {
+  FORK_ENDPOINT,
+  FORK_SEARCH_PARAM_KEY,
+  PARENT_SEARCH_PARAM_KEY,
+  SEARCH_PARAM_KEY,
+  SESSION_STORAGE_KEY,
+} from "../defaults";
+import { registerHandoff } from "./lineage";
+
+/**
+ * Configuration options for `forkTab()`.
+ */
+export type ForkTabOptions = {
+  /**
+   * The tab ID configuration shared with the server (see `defineTabIdConfig()`), providing the defaults
+   * of the other options.
+   */
+  config?: TabIdConfig;
+  /**
+   * The URL of the route issuing fork tokens (see `createTabForkRoute()`).
+   * @default '/tab-fork'
+   */
+  endpoint?: string;
+  /**
+   * The query parameter used to hand the fork token over to the new tab.
+   * @default 'tfork'
+   */
+  forkSearchParamKey?: string;
+  /**
+   * The query parameter key used for storing the tab id in the URL (removed from the new tab's URL),
+   * and the form field submitting the current tab id to the fork route.
+   * @default 'tid'
+   */
+  idSearchParamKey?: string;
+  /**
+   * The session storage key used for persisting the tab id.
+   * @default 'tab-id'
+   */
+  sessionStorageKey?: string;
+};
+
+/**
+ * Opens a copy of the current tab in a new tab: the new tab gets its own tab id, but starts with a copy of the
+ * current tab's server-side state (see the `forkRoute` option of `createTabSessionStorage()`), then diverges from it.
+ *
+ * The current tab id is posted to the fork route (see `createTabForkRoute()`) in the new tab, which redirects it to `url`
+ * with a single-use fork token in the `tfork` query parameter. Its loaders receive the token along with the new tab id
+ * once, after which `useTabId()` removes it from the URL.
+ *
+ * @example
+ * <button onClick={() => forkTab()}>Open a copy in a new tab</button>
+ *
+ * @param url The URL of the new tab (default: the current URL).
+ * @param options Configuration options.
+ * @returns `true` if the new tab was opened, `false` if the current tab has no tab id yet.
+ */
+export function forkTab(url?: string | URL, options?: ForkTabOptions): boolean {
+  const {
+    config,
+    endpoint = FORK_ENDPOINT,
+    forkSearchParamKey = config?.forkSearchParamKey ?? FORK_SEARCH_PARAM_KEY,
+    idSearchParamKey = config?.idSearchParamKey ?? SEARCH_PARAM_KEY,
+    sessionStorageKey = config?.sessionStorageKey ?? SESSION_STORAGE_KEY,
+  } = options ?? {};
+
+  const tabId = window.sessionStorage.getItem(sessionStorageKey);
+
+  if (tabId === null) {
+    return false;
+  }
+
+  const forkUrl = new URL(url ?? window.location.href, window.location.href);
+  forkUrl.searchParams.delete(idSearchParamKey); // the new tab gets its own tab id
+  forkUrl.searchParams.delete(forkSearchParamKey);
+
+  const path = `${forkUrl.pathname}${forkUrl.search}${forkUrl.hash}`;
+
+  // a form submitted in a new tab: the tab id never shows up in a URL, and popup blockers let it through
+  const form = document.createElement("form");
+  form.method = "post";
+  form.action = endpoint;
+  form.target = "_blank";
+  form.rel = "noopener"; // keeps the browser from copying the session storage (and so, the tab id) to the new tab
+  form.style.display = "none";
+  form.append(createHiddenInput(idSearchParamKey, tabId), createHiddenInput("to", path));
+
+  document.body.append(form);
+  form.submit();
+  form.remove();
+
+  // the new tab claims the current tab as its parent (see `useTabLineage()`)
+  const parentSearchParamKey = config?.parentSearchParamKey ?? PARENT_SEARCH_PARAM_KEY;
+  registerHandoff(tabId, path, [idSearchParamKey, parentSearchParamKey, forkSearchParamKey]);
+  return true;
+}
+
+function createHiddenInput(name: string, value: string): HTMLInputElement {
+  const input = document.createElement("input");
+  input.type = "hidden";
+  input.name = name;
+  input.value = value;
+  return input;
+}
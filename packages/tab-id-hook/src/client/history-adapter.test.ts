@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createHistoryAdapter } from "./history-adapter";
+
+describe("history-adapter", () => {
+  afterEach(() => {
+    window.history.replaceState(null, "", "/");
+  });
+
+  describe("createHistoryAdapter()", () => {
+    it("should read the search params of the current URL", () => {
+      window.history.replaceState(null, "", "/page?tid=ab-1234");
+
+      const adapter = createHistoryAdapter();
+
+      expect(adapter.getSearchParam("tid")).toBe("ab-1234");
+      expect(adapter.getSearchParam("other")).toBeNull();
+    });
+
+    it("should replace the current history entry, keeping its state and the rest of the URL", () => {
+      window.history.replaceState({ key: "value" }, "", "/page?foo=bar#section");
+      const length = window.history.length;
+
+      void createHistoryAdapter().replaceSearchParam("tid", "ab-1234");
+
+      expect(window.location.pathname).toBe("/page");
+      expect(window.location.search).toBe("?foo=bar&tid=ab-1234");
+      expect(window.location.hash).toBe("#section");
+      expect(window.history.state).toEqual({ key: "value" });
+      expect(window.history.length).toBe(length);
+    });
+
+    it("should notify subscribers of popstate and hashchange events", () => {
+      const listener = vi.fn();
+      const unsubscribe = createHistoryAdapter().subscribe?.(listener);
+
+      window.dispatchEvent(new PopStateEvent("popstate"));
+      window.dispatchEvent(new HashChangeEvent("hashchange"));
+      expect(listener).toHaveBeenCalledTimes(2);
+
+      unsubscribe?.();
+      window.dispatchEvent(new PopStateEvent("popstate"));
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+  });
+});
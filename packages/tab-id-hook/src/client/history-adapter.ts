@@ -0,0 +1,30 @@
+import type { RouterAdapter } from "./tab-id-store";
+
+/**
+ * Creates a router adapter backed by the browser's History API, for pages that don't use a client-side router
+ * (or use one without a dedicated adapter).
+ *
+ * The tab ID is added to the URL with `history.replaceState()`, which keeps the existing history state
+ * and doesn't trigger a navigation. URL changes are detected through the `popstate` and `hashchange` events.
+ *
+ * @returns The router adapter.
+ */
+export function createHistoryAdapter(): RouterAdapter {
+  return {
+    getSearchParam: (key) => new URL(window.location.href).searchParams.get(key),
+    replaceSearchParam: (key, value) => {
+      const url = new URL(window.location.href);
+      url.searchParams.set(key, value);
+      window.history.replaceState(window.history.state, "", url);
+    },
+    subscribe: (listener) => {
+      window.addEventListener("popstate", listener);
+      window.addEventListener("hashchange", listener);
+
+      return () => {
+        window.removeEventListener("popstate", listener);
+        window.removeEventListener("hashchange", listener);
+      };
+    },
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Watches the ways a tab returns to an earlier history entry, which may carry a stale (or no) tab ID:
+ *
+ * - Back/forward navigations (`popstate`): the URL of the entry is rewritten in the capture phase of the event,
+ *   before the router handles it, so that the loaders never see the stale tab ID.
+ * - Back/forward cache restores (`pageshow` with `persisted`): the document was frozen as it was, while another
+ *   document of the tab may have changed the tab ID.
+ *
+ * @param rewriteUrl Returns the URL the entry should have (ie: with the current tab ID), or `undefined` to leave
+ * the URL of back/forward navigations as-is (ie: when the router doesn't use the browser's history).
+ * @param onRestore The function to call when the document is restored from the back/forward cache.
+ * @returns A cleanup function that stops watching.
+ */
+export function watchHistoryTraversal(rewriteUrl: ((url: URL) => URL) | undefined, onRestore: () => void): () => void {
+  const handlePopState = () => {
+    const url = rewriteUrl?.(new URL(window.location.href));
+
+    if (url !== undefined && url.href !== window.location.href) {
+      window.history.replaceState(window.history.state, "", url); // keep the router's state (ie: its entry index)
+    }
+  };
+
+  const handlePageShow = ({ persisted }: PageTransitionEvent) => {
+    if (persisted) {
+      onRestore();
+    }
+  };
+
+  window.addEventListener("popstate", handlePopState, { capture: true });
+  window.addEventListener("pageshow", handlePageShow);
+
+  return () => {
+    window.removeEventListener("popstate", handlePopState, { capture: true });
+    window.removeEventListener("pageshow", handlePageShow);
+  };
+}
@@ -0,0 +1,7 @@
+/**
+ * A random identifier for the current document.
+ *
+ * Duplicated tabs share a tab ID (copied via `sessionStorage`), but never a document,
+ * so this is what tells two tabs holding the same tab ID apart when they talk over a BroadcastChannel.
+ */
+export const INSTANCE_ID = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
@@ -0,0 +1,281 @@
+import { INSTANCE_ID } from "./instance-id";
+
+/**
+ * How often (in milliseconds) the leader announces that it is still open, when elected without Web Locks.
+ */
+export const LEADER_HEARTBEAT_INTERVAL = 1_000;
+
+/**
+ * How long (in milliseconds) the followers wait for the leader's heartbeat before electing a new leader,
+ * when elected without Web Locks.
+ */
+export const LEADER_TIMEOUT = 3 * LEADER_HEARTBEAT_INTERVAL;
+
+/**
+ * The leader of a scope, as seen from the current tab.
+ */
+export type LeaderSnapshot = {
+  /** Whether the current tab is the leader. */
+  isLeader: boolean;
+  /** The leader's tab ID, if known. */
+  leaderId: string | undefined;
+  /** The data last relayed by the leader (see `relayToFollowers()`). */
+  data: unknown;
+};
+
+/**
+ * A message exchanged between the tabs taking part in an election.
+ */
+type LeaderMessage =
+  /** Sent by a tab joining the election; the leader replies with `leader`. */
+  | { type: "hello"; instanceId: string }
+  /** Sent by the leader when elected, on every heartbeat, and in reply to `hello` (along with its data). */
+  | { type: "leader"; tabId: string; createdAt: number; data?: unknown; instanceId: string }
+  /** Sent by the leader to relay data to the followers. */
+  | { type: "data"; data: unknown; instanceId: string }
+  /** Sent by the leader when it steps down (ie: the tab is closed). */
+  | { type: "resign"; instanceId: string };
+
+/**
+ * The snapshot of a tab that doesn't know its leader (yet).
+ */
+export const NO_LEADER: LeaderSnapshot = Object.freeze({ isLeader: false, leaderId: undefined, data: undefined });
+
+/**
+ * An election the current document takes part in.
+ */
+type Election = {
+  listeners: Set<() => void>;
+  snapshot: LeaderSnapshot;
+  relay: (data: unknown) => boolean;
+  stop: () => void;
+};
+
+//
+// Each scope is elected once per document (and tab ID), however many `useTabLeader()` hooks follow it.
+//
+
+const elections = new Map<string, Election>();
+
+/**
+ * Subscribes to the leader of a scope, taking part in its election if needed.
+ *
+ * This function serves (bound to a scope and tab ID) as the `subscribe` callback for `useSyncExternalStore()`.
+ *
+ * @param scope The scope of the election (tabs only compete with the tabs of the same scope).
+ * @param tabId The current tab's ID.
+ * @param listener The function to call when the leader (or its data) changes.
+ * @returns A cleanup function that unsubscribes (and leaves the election after the last subscriber leaves).
+ */
+export function subscribeToLeader(scope: string, tabId: string, listener: () => void): () => void {
+  const key = getElectionKey(scope, tabId);
+  const election = elections.get(key) ?? joinElection(scope, tabId);
+
+  election.listeners.add(listener);
+
+  return () => {
+    election.listeners.delete(listener);
+
+    if (election.listeners.size === 0) {
+      election.stop();
+      elections.delete(key);
+    }
+  };
+}
+
+/**
+ * Returns the leader of a scope, as seen from the current tab.
+ * The returned object is only replaced when the leader (or its data) changes.
+ *
+ * This function serves (bound to a scope and tab ID) as the `getSnapshot` callback for `useSyncExternalStore()`.
+ */
+export function getLeaderSnapshot(scope: string, tabId: string): LeaderSnapshot {
+  return elections.get(getElectionKey(scope, tabId))?.snapshot ?? NO_LEADER;
+}
+
+/**
+ * Relays data from the leader to every follower of a scope (and to the leader's own subscribers).
+ *
+ * @returns `true` if the data was relayed, `false` if the current tab isn't the leader.
+ */
+export function relayToFollowers(scope: string, tabId: string, data: unknown): boolean {
+  return elections.get(getElectionKey(scope, tabId))?.relay(data) ?? false;
+}
+
+function joinElection(scope: string, tabId: string): Election {
+  const election: Election = { listeners: new Set(), snapshot: NO_LEADER, relay: () => false, stop: () => {} };
+  elections.set(getElectionKey(scope, tabId), election);
+
+  const update = (changes: Partial<LeaderSnapshot>) => {
+    const { snapshot } = election;
+
+    if (Object.entries(changes).every(([key, value]) => Object.is(snapshot[key as keyof LeaderSnapshot], value))) {
+      return; // ie: a heartbeat of the known leader
+    }
+
+    election.snapshot = { ...snapshot, ...changes };
+    election.listeners.forEach((listener) => listener());
+  };
+
+  return Object.assign(
+    election,
+    startElection(scope, tabId, () => election.snapshot, update),
+  );
+}
+
+/**
+ * Runs the election of a scope: with Web Locks, the tab holding the lock leads (and the browser hands the lock
+ * over to a waiting tab when the leader is closed). Without them, the leader sends heartbeats over
+ * a BroadcastChannel, the followers elect a new leader when the heartbeats stop, and when two tabs
+ * lead at once, the oldest document keeps leading.
+ */
+function startElection(
+  scope: string,
+  tabId: string,
+  getSnapshot: () => LeaderSnapshot,
+  update: (changes: Partial<LeaderSnapshot>) => void,
+): Pick<Election, "relay" | "stop"> {
+  if (typeof BroadcastChannel === "undefined") {
+    return { relay: () => false, stop: () => {} }; // nothing to coordinate with (ie: server-side or unsupported browser)
+  }
+
+  const name = `tab-id:leader:${scope}`;
+  const channel = new BroadcastChannel(name);
+  const createdAt = performance.timeOrigin;
+  const locks = (typeof navigator === "undefined" ? undefined : navigator.locks) as LockManager | undefined;
+  const abortController = new AbortController();
+
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+  let releaseLock: (() => void) | undefined;
+  let stopped = false;
+
+  const post = (message: LeaderMessage) => channel.postMessage(message);
+
+  const announce = (withData: boolean) => {
+    const data = withData ? { data: getSnapshot().data } : {};
+    post({ type: "leader", tabId, createdAt, ...data, instanceId: INSTANCE_ID });
+  };
+
+  const lead = () => {
+    update({ isLeader: true, leaderId: tabId });
+    announce(true);
+
+    if (locks === undefined) {
+      heartbeat = setInterval(() => announce(false), LEADER_HEARTBEAT_INTERVAL);
+    }
+  };
+
+  // without Web Locks, take the lead when the leader stops sending heartbeats
+  const watch = () => {
+    if (locks === undefined) {
+      clearTimeout(timeout);
+      timeout = setTimeout(lead, LEADER_TIMEOUT);
+    }
+  };
+
+  let leaderInstanceId: string | undefined;
+
+  channel.onmessage = ({ data: message }: MessageEvent<LeaderMessage>) => {
+    if (message.instanceId === INSTANCE_ID) {
+      return; // a message from this very document
+    }
+
+    const { isLeader } = getSnapshot();
+
+    switch (message.type) {
+      case "hello":
+        if (isLeader) {
+          announce(true);
+        }
+        break;
+
+      case "leader":
+        if (isLeader && outranks({ createdAt, instanceId: INSTANCE_ID }, message)) {
+          announce(false); // two leaders at once: the other one steps down
+        } else {
+          clearInterval(heartbeat);
+          leaderInstanceId = message.instanceId;
+          update({ isLeader: false, leaderId: message.tabId, ...("data" in message ? { data: message.data } : {}) });
+          watch();
+        }
+        break;
+
+      case "data":
+        if (message.instanceId === leaderInstanceId) {
+          update({ data: message.data });
+        }
+        break;
+
+      case "resign":
+        if (message.instanceId === leaderInstanceId) {
+          leaderInstanceId = undefined;
+          update({ leaderId: undefined });
+
+          if (locks === undefined) {
+            lead(); // every follower takes the lead, the oldest one keeps it
+          }
+        }
+        break;
+    }
+  };
+
+  const resign = () => {
+    if (getSnapshot().isLeader) {
+      post({ type: "resign", instanceId: INSTANCE_ID });
+    }
+  };
+
+  if (locks === undefined) {
+    watch();
+  } else {
+    locks
+      .request(name, { signal: abortController.signal }, () => {
+        if (stopped) {
+          return;
+        }
+
+        lead();
+        return new Promise<void>((resolve) => (releaseLock = resolve)); // hold the lock until the election stops
+      })
+      .catch(() => {}); // the election stopped while waiting for the lock
+  }
+
+  window.addEventListener("pagehide", resign);
+  post({ type: "hello", instanceId: INSTANCE_ID });
+
+  return {
+    relay: (data) => {
+      if (!getSnapshot().isLeader) {
+        return false;
+      }
+
+      update({ data });
+      post({ type: "data", data, instanceId: INSTANCE_ID });
+      return true;
+    },
+    stop: () => {
+      stopped = true;
+      resign();
+
+      window.removeEventListener("pagehide", resign);
+      abortController.abort();
+      releaseLock?.();
+      clearInterval(heartbeat);
+      clearTimeout(timeout);
+      channel.close();
+    },
+  };
+}
+
+/**
+ * Returns `true` if `self` keeps leading over `other`: the oldest document wins,
+ * ties are broken by comparing the instance IDs.
+ */
+function outranks(self: { createdAt: number; instanceId: string }, other: { createdAt: number; instanceId: string }): boolean {
+  return self.createdAt < other.createdAt || (self.createdAt === other.createdAt && self.instanceId < other.instanceId);
+}
+
+function getElectionKey(scope: string, tabId: string): string {
+  return `${scope}\n${tabId}`;
+}
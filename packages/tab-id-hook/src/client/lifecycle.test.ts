@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { reportTabLifecycle } from "./lifecycle";
+
+describe("lifecycle", () => {
+  const sendBeacon = vi.fn<(url: string, data: URLSearchParams) => boolean>(() => true);
+
+  /**
+   * Returns the events sent to the server so far.
+   */
+  const sentEvents = () => sendBeacon.mock.calls.map(([url, data]) => `${url} ${data.toString()}`);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sendBeacon.mockClear();
+    Object.defineProperty(navigator, "sendBeacon", { value: sendBeacon, configurable: true });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    Reflect.deleteProperty(navigator, "sendBeacon");
+  });
+
+  describe("reportTabLifecycle()", () => {
+    it("should report the tab as open, then send heartbeats", () => {
+      const stop = reportTabLifecycle("ab-1234", "/tab-lifecycle", "tid", 1000);
+      expect(sentEvents()).toEqual(["/tab-lifecycle tid=ab-1234&event=open"]);
+
+      vi.advanceTimersByTime(2000);
+      expect(sentEvents()).toEqual([
+        "/tab-lifecycle tid=ab-1234&event=open",
+        "/tab-lifecycle tid=ab-1234&event=heartbeat",
+        "/tab-lifecycle tid=ab-1234&event=heartbeat",
+      ]);
+
+      stop();
+      vi.advanceTimersByTime(2000);
+      expect(sentEvents()).toHaveLength(3);
+    });
+
+    it("should report the tab as closed when it is unloaded", () => {
+      const stop = reportTabLifecycle("ab-1234", "/tab-lifecycle", "tid", 1000);
+
+      window.dispatchEvent(new PageTransitionEvent("pagehide", { persisted: false }));
+      expect(sentEvents()).toContain("/tab-lifecycle tid=ab-1234&event=close");
+
+      stop();
+    });
+
+    it("should not report the tab as closed when it enters the back/forward cache", () => {
+      const stop = reportTabLifecycle("ab-1234", "/tab-lifecycle", "tid", 1000);
+      sendBeacon.mockClear();
+
+      window.dispatchEvent(new PageTransitionEvent("pagehide", { persisted: true }));
+      vi.advanceTimersByTime(2000);
+      expect(sentEvents()).toEqual([]); // no close, no heartbeats
+
+      window.dispatchEvent(new PageTransitionEvent("pageshow", { persisted: true }));
+      vi.advanceTimersByTime(1000);
+      expect(sentEvents()).toEqual(["/tab-lifecycle tid=ab-1234&event=open", "/tab-lifecycle tid=ab-1234&event=heartbeat"]);
+
+      stop();
+    });
+
+    it("should fall back to fetch() when beacons are not available", () => {
+      Reflect.deleteProperty(navigator, "sendBeacon");
+
+      const originalFetch = window.fetch;
+      const fetchMock = vi.fn(async (_input: RequestInfo | URL, _init?: RequestInit) => new Response());
+      window.fetch = fetchMock;
+
+      const stop = reportTabLifecycle("ab-1234", "/tab-lifecycle", "tid", 1000);
+
+      expect(fetchMock).toHaveBeenCalledWith("/tab-lifecycle", expect.objectContaining({ method: "POST", keepalive: true }));
+      expect(fetchMock.mock.lastCall?.[1]?.body?.toString()).toBe("tid=ab-1234&event=open");
+
+      stop();
+      window.fetch = originalFetch;
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import type { TabLifecycleEvent } from "../server/tab-lifecycle-route";
+
+/**
+ * Reports the lifecycle of the current tab to the server (see `createTabLifecycleRoute()`):
+ *
+ * - `open` when the reporter starts, and when the tab is restored from the back/forward cache.
+ * - `heartbeat` periodically, while the tab is open.
+ * - `close` when the tab is really unloaded (ie: closed, reloaded or navigated away),
+ *   but not when it enters the back/forward cache.
+ *
+ * Events are sent with `navigator.sendBeacon()` (or a `keepalive` fetch), so they are delivered
+ * even while the document is unloading.
+ *
+ * @param id The tab ID to report.
+ * @param endpoint The URL of the lifecycle route.
+ * @param fieldName The form field holding the tab ID.
+ * @param heartbeatInterval How often (in milliseconds) to send a heartbeat.
+ * @returns A cleanup function that stops reporting (without reporting the tab as closed).
+ */
+export function reportTabLifecycle(id: string, endpoint: string, fieldName: string, heartbeatInterval: number): () => void {
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+
+  const send = (event: TabLifecycleEvent) => {
+    const body = new URLSearchParams({ [fieldName]: id, event });
+
+    if (typeof navigator.sendBeacon !== "function" || !navigator.sendBeacon(endpoint, body)) {
+      void fetch(endpoint, { method: "POST", body, keepalive: true }).catch(() => {
+        // the server will eventually consider the tab idle
+      });
+    }
+  };
+
+  const open = () => {
+    send("open");
+    clearInterval(heartbeat);
+    heartbeat = setInterval(() => send("heartbeat"), heartbeatInterval);
+  };
+
+  const onPageHide = ({ persisted }: PageTransitionEvent) => {
+    clearInterval(heartbeat);
+
+    if (!persisted) {
+      send("close"); // not entering the back/forward cache, so the document is gone for good
+    }
+  };
+
+  const onPageShow = ({ persisted }: PageTransitionEvent) => {
+    if (persisted) {
+      open(); // restored from the back/forward cache
+    }
+  };
+
+  window.addEventListener("pagehide", onPageHide);
+  window.addEventListener("pageshow", onPageShow);
+  open();
+
+  return () => {
+    clearInterval(heartbeat);
+    window.removeEventListener("pagehide", onPageHide);
+    window.removeEventListener("pageshow", onPageShow);
+  };
+}
@@ -0,0 +1,266 @@
+import { INSTANCE_ID } from "./instance-id";
+
+/**
+ * The broadcast channel used to exchange lineage information between tabs.
+ */
+const CHANNEL_NAME = "tab-id:lineage";
+
+/**
+ * How long (in milliseconds) a tab waits for the tab it opened (see `registerHandoff()`) to claim it as its parent.
+ */
+const HANDOFF_TIMEOUT = 10_000;
+
+/**
+ * Which tab opened the current tab, and which tabs the current tab opened.
+ */
+export type TabLineage = {
+  /** The ID of the tab that opened the current tab, if known. */
+  parentId: string | undefined;
+  /** The IDs of the tabs opened by the current tab. */
+  children: string[];
+  /** How many ancestors the current tab has (`0` for a tab that wasn't opened by another tab). */
+  depth: number;
+};
+
+/**
+ * The lineage recorded in session storage, along with the tab ID it belongs to: a duplicated tab
+ * (which gets a copy of the session storage, and then a new tab ID) doesn't inherit the lineage of the original tab.
+ */
+type RecordedLineage = TabLineage & { tabId: string };
+
+/**
+ * A message exchanged between tabs to track lineage.
+ */
+type LineageMessage =
+  /** Sent by a new tab that doesn't know its parent, asking which tab opened `path`. */
+  | { type: "claim"; tabId: string; path: string; instanceId: string }
+  /** Sent by a new tab that knows its parent (from the handoff parameter or `window.opener`). */
+  | { type: "child"; tabId: string; parentId: string; instanceId: string }
+  /** Sent by a parent tab to its child (in reply to `claim` or `child`). */
+  | { type: "adopt"; to: string; parentId: string; depth: number; instanceId: string };
+
+/**
+ * The lineage of a tab that wasn't opened by another tab.
+ */
+export const ROOT_LINEAGE: TabLineage = Object.freeze({ parentId: undefined, children: [], depth: 0 }) as TabLineage;
+
+/**
+ * Options of `trackTabLineage()`.
+ */
+type TrackingOptions = {
+  handoffParentId: string | null;
+  ignoredSearchParams: string[];
+  path: string;
+  sessionStorageKey: string;
+};
+
+//
+// The lineage is tracked once per document (and tab ID), however many `useTabId()` hooks request it.
+//
+
+const listeners = new Map<string, Set<() => void>>();
+const trackers = new Map<string, { holders: number; stop: () => void }>();
+const handoffs: Array<{ tabId: string; path: string; expiresAt: number }> = [];
+const snapshots = new Map<string, { raw: string | null; tabId: string | null; lineage: TabLineage }>();
+
+/**
+ * Starts tracking the lineage of the current tab: a new tab finds out which tab opened it (from the one-time
+ * handoff parameter, `window.opener`, or by claiming a handoff over a BroadcastChannel), and every tab
+ * records the tabs it opens.
+ *
+ * @param tabId The current tab's ID.
+ * @param options.handoffParentId The parent tab ID found in the one-time handoff parameter, if any.
+ * @param options.ignoredSearchParams The query parameters ignored when matching a handoff (ie: the tab ID itself).
+ * @param options.path The path (and query) of the current location, matched against the handoffs of other tabs.
+ * @param options.sessionStorageKey The session storage key used for persisting the tab ID.
+ * @returns A cleanup function that stops tracking the lineage.
+ */
+export function trackTabLineage(tabId: string, options: TrackingOptions): () => void {
+  const trackerKey = `${options.sessionStorageKey}\n${tabId}`;
+  const tracker = trackers.get(trackerKey) ?? { holders: 0, stop: startTracking(tabId, options) };
+
+  tracker.holders++;
+  trackers.set(trackerKey, tracker);
+
+  return () => {
+    if (--tracker.holders === 0) {
+      tracker.stop();
+      trackers.delete(trackerKey);
+    }
+  };
+}
+
+/**
+ * Registers a tab about to be opened by the current tab (ie: a link with `target="_blank"`), so that the new tab
+ * can claim the current tab as its parent without carrying the parent ID in its URL.
+ *
+ * @param tabId The current tab's ID.
+ * @param path The path (and query) the new tab opens.
+ * @param ignoredSearchParams The query parameters ignored when matching the new tab's path.
+ */
+export function registerHandoff(tabId: string, path: string, ignoredSearchParams: string[]): void {
+  const now = Date.now();
+
+  // forget about the tabs that never claimed their handoff (ie: blocked popups)
+  for (let index = handoffs.length - 1; index >= 0; index--) {
+    if ((handoffs[index]?.expiresAt ?? 0) <= now) {
+      handoffs.splice(index, 1);
+    }
+  }
+
+  handoffs.push({ tabId, path: toHandoffPath(path, ignoredSearchParams), expiresAt: now + HANDOFF_TIMEOUT });
+}
+
+/**
+ * Subscribes to changes of the lineage recorded under a session storage key.
+ *
+ * This function serves (bound to a key) as the `subscribe` callback for `useSyncExternalStore()`.
+ */
+export function subscribeToLineage(sessionStorageKey: string, listener: () => void): () => void {
+  const keyListeners = listeners.get(sessionStorageKey) ?? new Set<() => void>();
+  listeners.set(sessionStorageKey, keyListeners);
+
+  keyListeners.add(listener);
+  return () => keyListeners.delete(listener);
+}
+
+/**
+ * Returns the lineage of the current tab, as recorded in session storage (for its current tab ID).
+ * The returned object is only replaced when the lineage changes.
+ *
+ * This function serves as the `getSnapshot` callback for `useSyncExternalStore()`.
+ */
+export function getLineageSnapshot(sessionStorageKey: string): TabLineage {
+  const raw = window.sessionStorage.getItem(getLineageKey(sessionStorageKey));
+  const tabId = window.sessionStorage.getItem(sessionStorageKey);
+  const snapshot = snapshots.get(sessionStorageKey);
+
+  if (snapshot?.raw === raw && snapshot.tabId === tabId) {
+    return snapshot.lineage;
+  }
+
+  const recorded = raw === null ? undefined : (JSON.parse(raw) as Partial<RecordedLineage>);
+  const lineage =
+    recorded?.tabId === tabId
+      ? { parentId: recorded.parentId, children: recorded.children ?? [], depth: recorded.depth ?? 0 }
+      : ROOT_LINEAGE; // recorded for another tab ID (ie: the original of a duplicated tab)
+
+  snapshots.set(sessionStorageKey, { raw, tabId, lineage });
+  return lineage;
+}
+
+function startTracking(tabId: string, options: TrackingOptions): () => void {
+  const { handoffParentId, ignoredSearchParams, path, sessionStorageKey } = options;
+  const lineageKey = getLineageKey(sessionStorageKey);
+
+  if (typeof BroadcastChannel === "undefined") {
+    return () => {}; // nothing to coordinate with (ie: server-side or unsupported browser)
+  }
+
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  const post = (message: LineageMessage) => channel.postMessage(message);
+
+  const update = (changes: Partial<TabLineage>) => {
+    const lineage: RecordedLineage = { ...getLineageSnapshot(sessionStorageKey), ...changes, tabId };
+    window.sessionStorage.setItem(lineageKey, JSON.stringify(lineage));
+    listeners.get(sessionStorageKey)?.forEach((listener) => listener());
+  };
+
+  const adopt = (childId: string) => {
+    const { children, depth } = getLineageSnapshot(sessionStorageKey);
+
+    if (!children.includes(childId)) {
+      update({ children: [...children, childId] });
+    }
+
+    post({ type: "adopt", to: childId, parentId: tabId, depth, instanceId: INSTANCE_ID });
+  };
+
+  channel.onmessage = ({ data }: MessageEvent<LineageMessage>) => {
+    if (data.instanceId === INSTANCE_ID) {
+      return; // a message from this very document
+    }
+
+    switch (data.type) {
+      case "claim": {
+        const index = handoffs.findIndex(({ tabId: parentId, path, expiresAt }) => {
+          return parentId === tabId && path === data.path && expiresAt > Date.now();
+        });
+
+        if (index >= 0) {
+          handoffs.splice(index, 1); // each handoff is only claimed once
+          adopt(data.tabId);
+        }
+        break;
+      }
+
+      case "child":
+        if (data.parentId === tabId) {
+          adopt(data.tabId);
+        }
+        break;
+
+      case "adopt": {
+        const { parentId } = getLineageSnapshot(sessionStorageKey);
+
+        if (data.to === tabId && (parentId === undefined || parentId === data.parentId)) {
+          update({ parentId: data.parentId, depth: data.depth + 1 });
+        }
+        break;
+      }
+    }
+  };
+
+  //
+  // A new tab (one without a lineage recorded for its tab ID, ie: a duplicated tab) finds out which tab opened it
+  //
+
+  const recorded = window.sessionStorage.getItem(lineageKey);
+
+  if (recorded === null || (JSON.parse(recorded) as Partial<RecordedLineage>).tabId !== tabId) {
+    const opener = handoffParentId === null ? getOpenerLineage(sessionStorageKey) : undefined;
+    const parentId = handoffParentId ?? opener?.tabId;
+
+    if (parentId !== undefined && parentId !== tabId) {
+      update({ parentId, depth: (opener?.depth ?? 0) + 1, children: [] });
+      post({ type: "child", tabId, parentId, instanceId: INSTANCE_ID });
+    } else {
+      update(ROOT_LINEAGE);
+      post({ type: "claim", tabId, path: toHandoffPath(path, ignoredSearchParams), instanceId: INSTANCE_ID });
+    }
+  }
+
+  return () => channel.close();
+}
+
+/**
+ * Reads the tab ID (and depth) of the tab that opened the current tab, when it is a same-origin tab
+ * that kept a reference to the current tab (ie: `window.open()` without `noopener`).
+ */
+function getOpenerLineage(sessionStorageKey: string): { tabId: string; depth: number } | undefined {
+  try {
+    const opener = window.opener as Window | null;
+    const tabId = opener?.sessionStorage.getItem(sessionStorageKey);
+    const lineage = opener?.sessionStorage.getItem(getLineageKey(sessionStorageKey));
+
+    return tabId ? { tabId, depth: lineage ? ((JSON.parse(lineage) as Partial<TabLineage>).depth ?? 0) : 0 } : undefined;
+  } catch {
+    return undefined; // a cross-origin opener
+  }
+}
+
+/**
+ * Normalizes a path for handoff matching: its pathname and query, without the hash and the ignored query parameters.
+ */
+function toHandoffPath(path: string, ignoredSearchParams: string[]): string {
+  const [pathname = "", search = ""] = (path.split("#")[0] ?? "").split(/\?(.*)/);
+  const searchParams = new URLSearchParams(search);
+  ignoredSearchParams.forEach((key) => searchParams.delete(key));
+
+  const query = searchParams.toString();
+  return query === "" ? pathname : `${pathname}?${query}`;
+}
+
+function getLineageKey(sessionStorageKey: string): string {
+  return `${sessionStorageKey}:lineage`;
+}
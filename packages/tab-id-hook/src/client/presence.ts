@@ -0,0 +1,225 @@
+import { INSTANCE_ID } from "./instance-id";
+
+/**
+ * The broadcast channel used to exchange presence information between tabs.
+ */
+const CHANNEL_NAME = "tab-id:presence";
+
+/**
+ * How often (in milliseconds) a tab announces that it is still open.
+ */
+export const HEARTBEAT_INTERVAL = 5_000;
+
+/**
+ * How long (in milliseconds) a visible tab is considered open after it was last heard from.
+ */
+export const PRESENCE_TIMEOUT = 3 * HEARTBEAT_INTERVAL;
+
+/**
+ * How long (in milliseconds) a hidden tab is considered open after it was last heard from.
+ * Browsers throttle the timers of hidden tabs (down to once a minute), so their heartbeats may be late.
+ */
+export const HIDDEN_PRESENCE_TIMEOUT = 3 * 60_000;
+
+/**
+ * An open tab of the application, as seen from the current tab.
+ */
+export type OpenTab = {
+  /** The tab's ID. */
+  tabId: string;
+  /** The pathname currently displayed by the tab. */
+  pathname: string;
+  /** The tab's visibility (ie: whether it is the active tab of its window). */
+  visibility: DocumentVisibilityState;
+  /** When the tab was last heard from (as a timestamp in milliseconds). */
+  lastSeen: number;
+  /** Whether this entry describes the current tab. */
+  current: boolean;
+};
+
+/**
+ * A message exchanged between tabs to track presence.
+ */
+type PresenceMessage = {
+  /**
+   * - `hello` is sent when a tab joins; every other tab replies with an `announce`.
+   * - `announce` is sent on every heartbeat and whenever the tab's state changes.
+   * - `goodbye` is sent when a tab is closed.
+   */
+  type: "hello" | "announce" | "goodbye";
+  instanceId: string;
+  tabId: string;
+  pathname: string;
+  visibility: DocumentVisibilityState;
+};
+
+//
+// The registry is shared by every `useOpenTabs()` hook of the document.
+// It is started when the first hook subscribes and stopped when the last one unsubscribes.
+//
+
+const listeners = new Set<() => void>();
+const others = new Map<string, OpenTab>();
+
+let channel: BroadcastChannel | undefined;
+let heartbeat: ReturnType<typeof setInterval> | undefined;
+let self: Pick<OpenTab, "tabId" | "pathname"> | undefined;
+let snapshot: OpenTab[] = [];
+
+/**
+ * Subscribes to changes of the open tabs registry, starting the registry if needed.
+ *
+ * This function serves as the `subscribe` callback for `useSyncExternalStore()`.
+ *
+ * @param listener The function to call when the list of open tabs changes.
+ * @returns A cleanup function that unsubscribes (and stops the registry after the last subscriber leaves).
+ */
+export function subscribeToOpenTabs(listener: () => void): () => void {
+  listeners.add(listener);
+
+  if (listeners.size === 1) {
+    start();
+  }
+
+  return () => {
+    listeners.delete(listener);
+
+    if (listeners.size === 0) {
+      stop();
+    }
+  };
+}
+
+/**
+ * Returns the current list of open tabs (including the current tab).
+ * The returned array is only replaced when the registry changes.
+ *
+ * This function serves as the `getSnapshot` callback for `useSyncExternalStore()`.
+ */
+export function getOpenTabsSnapshot(): OpenTab[] {
+  return snapshot;
+}
+
+/**
+ * Updates the information announced by the current tab.
+ *
+ * @param tabId The current tab's ID.
+ * @param pathname The pathname currently displayed by the tab.
+ */
+export function setCurrentTab(tabId: string, pathname: string): void {
+  const isNew = self === undefined;
+
+  if (self?.tabId !== tabId || self.pathname !== pathname) {
+    self = { tabId, pathname };
+    post(isNew ? "hello" : "announce");
+    update();
+  }
+}
+
+function start(): void {
+  if (typeof BroadcastChannel === "undefined") {
+    return; // nothing to coordinate with (ie: server-side or unsupported browser)
+  }
+
+  channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = ({ data }: MessageEvent<PresenceMessage>) => receive(data);
+  heartbeat = setInterval(() => {
+    post("announce");
+    prune();
+  }, HEARTBEAT_INTERVAL);
+
+  document.addEventListener("visibilitychange", onVisibilityChange);
+  window.addEventListener("pagehide", onPageHide);
+  window.addEventListener("pageshow", onPageShow);
+
+  post("hello");
+}
+
+function stop(): void {
+  post("goodbye");
+
+  channel?.close();
+  clearInterval(heartbeat);
+
+  document.removeEventListener("visibilitychange", onVisibilityChange);
+  window.removeEventListener("pagehide", onPageHide);
+  window.removeEventListener("pageshow", onPageShow);
+
+  channel = undefined;
+  heartbeat = undefined;
+  self = undefined;
+  others.clear();
+  update();
+}
+
+function onVisibilityChange(): void {
+  // a tab coming back to the foreground refreshes its view of the other tabs (its timers were throttled while hidden)
+  post(document.visibilityState === "visible" ? "hello" : "announce");
+  prune();
+  update();
+}
+
+function onPageHide(): void {
+  post("goodbye");
+}
+
+function onPageShow({ persisted }: PageTransitionEvent): void {
+  if (persisted) {
+    post("hello"); // restored from the back/forward cache: the other tabs have forgotten about this one
+  }
+}
+
+function post(type: PresenceMessage["type"]): void {
+  if (channel !== undefined && self !== undefined) {
+    const { visibilityState: visibility } = document;
+    channel.postMessage({ type, instanceId: INSTANCE_ID, visibility, ...self } satisfies PresenceMessage);
+  }
+}
+
+function receive({ type, instanceId, tabId, pathname, visibility }: PresenceMessage): void {
+  if (instanceId === INSTANCE_ID) {
+    return; // a message from another hook in this very document
+  }
+
+  if (type === "goodbye") {
+    others.delete(instanceId);
+  } else {
+    others.set(instanceId, { tabId, pathname, visibility, lastSeen: Date.now(), current: false });
+  }
+
+  if (type === "hello") {
+    post("announce"); // let the newcomer know about this tab
+  }
+
+  update();
+}
+
+/**
+ * Removes the tabs that have not been heard from in a while (ie: closed without saying goodbye).
+ */
+function prune(): void {
+  const now = Date.now();
+  let changed = false;
+
+  for (const [instanceId, { lastSeen, visibility }] of others) {
+    if (lastSeen < now - (visibility === "hidden" ? HIDDEN_PRESENCE_TIMEOUT : PRESENCE_TIMEOUT)) {
+      others.delete(instanceId);
+      changed = true;
+    }
+  }
+
+  if (changed) {
+    update();
+  }
+}
+
+/**
+ * Rebuilds the snapshot and notifies every subscriber.
+ */
+function update(): void {
+  const current: OpenTab[] =
+    self === undefined ? [] : [{ ...self, visibility: document.visibilityState, lastSeen: Date.now(), current: true }];
+
+  snapshot = [...current, ...others.values()];
+  listeners.forEach((listener) => listener());
+}
@@ -0,0 +1,40 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import React from "react";
+import { createRoutesStub } from "react-router";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { TabForm } from "./tab-form";
+
+describe("tab-form", () => {
+  beforeEach(() => {
+    window.sessionStorage.clear();
+    window.sessionStorage.setItem("tab-id", "ab-1234");
+  });
+
+  describe("<TabForm />", () => {
+    it("should submit the tab ID to another route", async () => {
+      const action = vi.fn(async ({ request }: { request: Request }) => Object.fromEntries(await request.formData()));
+
+      const Stub = createRoutesStub([
+        {
+          path: "/",
+          Component: () => (
+            <TabForm method="post" action="/other">
+              <button type="submit" name="intent" value="increment">
+                Submit
+              </button>
+            </TabForm>
+          ),
+        },
+        { path: "/other", action, Component: () => <p>Other</p> },
+      ]);
+
+      const { unmount } = render(<Stub />);
+      fireEvent.click(await screen.findByText("Submit"));
+
+      await waitFor(() => expect(action).toHaveBeenCalled());
+      await expect(action.mock.results[0]?.value).resolves.toEqual({ tid: "ab-1234", intent: "increment" });
+
+      unmount();
+    });
+  });
+});
@@ -0,0 +1,28 @@
+import React, { forwardRef } from "react";
+import type { FormProps } from "react-router";
+import { Form } from "react-router";
+
+import type { TabIdInputProps } from "./tab-id-input";
+import { TabIdInput } from "./tab-id-input";
+
+/**
+ * Props for the `TabForm` component: React Router's `<Form>` props, plus the tab id options.
+ */
+export type TabFormProps = FormProps & TabIdInputProps;
+
+/**
+ * A drop-in replacement for React Router's `<Form>` that always submits the current tab id
+ * (as a hidden `<TabIdInput />` field), whatever its `action`.
+ */
+export const TabForm = forwardRef<HTMLFormElement, TabFormProps>((props, ref) => {
+  const { children, idSearchParamKey, sessionStorageKey, ...formProps } = props;
+
+  return (
+    <Form {...formProps} ref={ref}>
+      <TabIdInput idSearchParamKey={idSearchParamKey} sessionStorageKey={sessionStorageKey} />
+      {children}
+    </Form>
+  );
+});
+
+TabForm.displayName = "TabForm";
@@ -0,0 +1,95 @@
+import { createContext, useContext, useMemo, useRef, useSyncExternalStore } from "react";
+
+import { useLocation } from "react-router";
+import {
+  FORK_SEARCH_PARAM_KEY,
+  HEADER_NAME,
+  ISSUED_COOKIE_NAME,
+  PARENT_SEARCH_PARAM_KEY,
+  PATH_PREFIX,
+  SEARCH_PARAM_KEY,
+  SESSION_STORAGE_KEY,
+} from "../defaults";
+import { getPathTabId } from "../path-segment";
+import { TabIdStore } from "./tab-id-store";
+import type { ResolvedTabIdConfig } from "./use-tab-id";
+
+/**
+ * The value provided by a `<TabIdProvider>`.
+ */
+export type TabIdContextValue = {
+  id: string | undefined;
+  config: ResolvedTabIdConfig;
+};
+
+export const TabIdContext = createContext<TabIdContextValue | undefined>(undefined);
+
+/**
+ * The configuration used without a provider.
+ */
+export const DEFAULT_CONFIG: ResolvedTabIdConfig = {
+  forkSearchParamKey: FORK_SEARCH_PARAM_KEY,
+  headerName: HEADER_NAME,
+  idSearchParamKey: SEARCH_PARAM_KEY,
+  issuedCookieName: ISSUED_COOKIE_NAME,
+  navigate: true,
+  parentSearchParamKey: PARENT_SEARCH_PARAM_KEY,
+  pathPrefix: PATH_PREFIX,
+  reloadDocument: false,
+  sessionStorageKey: SESSION_STORAGE_KEY,
+  transport: ["search-param"],
+};
+
+/**
+ * React hook that reads the tab id, for the components and hooks carrying it (ie: `<TabLink>`): the id of the closest
+ * `<TabIdProvider>`, otherwise the id stored by the application's `useTabId()`.
+ *
+ * Unlike `useTabId()`, it runs none of the effects owned by the application's hook (URL sync, duplicate detection,
+ * transports, back/forward handling...), so that rendering many of these components doesn't repeat them.
+ * An id is only generated when none is stored yet (ie: before the application's hook rendered).
+ *
+ * @param sessionStorageKey The session storage key of the tab id (ignored below a provider).
+ * @returns The tab id. It may be `undefined` during server-side rendering if the ID is not present in the URL.
+ */
+export function useTabIdSnapshot(sessionStorageKey?: string): string | undefined {
+  const context = useContext(TabIdContext);
+  const { generator, idSearchParamKey, issuedCookieName, pathPrefix, transport, ...config } = context?.config ?? DEFAULT_CONFIG;
+  const storageKey = sessionStorageKey ?? config.sessionStorageKey;
+
+  // the tab id in the URL: its route segment (path-segment transport), otherwise its query parameter
+  const { pathname, search } = useLocation();
+  const urlId = transport.includes("path-segment")
+    ? getPathTabId(pathname, pathPrefix)
+    : (new URLSearchParams(search).get(idSearchParamKey) ?? undefined);
+
+  const urlIdRef = useRef(urlId);
+  urlIdRef.current = urlId;
+
+  const store = useMemo(
+    () =>
+      new TabIdStore({
+        generator,
+        idSearchParamKey,
+        issuedCookieName,
+        // read-only: only the application's hook (or provider) syncs the URL
+        router: { getSearchParam: () => urlIdRef.current ?? null, replaceSearchParam: () => {} },
+        sessionStorageKey: storageKey,
+      }),
+    [generator, idSearchParamKey, issuedCookieName, storageKey],
+  );
+
+  const id = useSyncExternalStore(
+    context === undefined ? store.subscribe : subscribeToNothing,
+    () => (context === undefined ? (window.sessionStorage.getItem(storageKey) ?? store.getId()) : undefined),
+    () => (context === undefined ? urlId : undefined),
+  );
+
+  return context === undefined ? id : context.id;
+}
+
+/**
+ * The `subscribe` function of a hook that reads nothing from the store (ie: below a provider, whose id is read from the context).
+ */
+export function subscribeToNothing(): () => void {
+  return () => {};
+}
@@ -0,0 +1,107 @@
+import { act, cleanup, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import React from "react";
+import { MemoryRouter } from "react-router";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { TabIdDevtools } from "./tab-id-devtools";
+import { TabIdProvider } from "./use-tab-id";
+
+describe("tab-id-devtools", () => {
+  /**
+   * Renders the devtools (open) below a provider.
+   */
+  const renderDevtools = () =>
+    render(
+      <MemoryRouter initialEntries={["/?tid=ab-1234"]}>
+        <TabIdProvider>
+          <TabIdDevtools defaultOpen />
+        </TabIdProvider>
+      </MemoryRouter>,
+    );
+
+  /**
+   * Returns the tab ID displayed by the toggle button.
+   */
+  const getDisplayedTabId = () => screen.getByRole("button", { expanded: true }).textContent?.replace("Tab ID: ", "");
+
+  beforeEach(() => {
+    window.sessionStorage.clear();
+    window.sessionStorage.setItem("tab-id", "ab-1234");
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  describe("<TabIdDevtools />", () => {
+    it("should describe the tab ID", async () => {
+      renderDevtools();
+
+      expect(getDisplayedTabId()).toBe("ab-1234");
+      await screen.findByText("session-storage");
+      expect(screen.getByText("in sync")).toBeDefined();
+      expect(screen.getByText("search-param")).toBeDefined();
+    });
+
+    it("should report a URL out of sync", () => {
+      window.sessionStorage.clear();
+      window.sessionStorage.setItem("tab-id", "cd-5678");
+
+      // the provider doesn't fix the URL
+      render(
+        <MemoryRouter initialEntries={["/?tid=ab-1234"]}>
+          <TabIdProvider navigate={false}>
+            <TabIdDevtools defaultOpen />
+          </TabIdProvider>
+        </MemoryRouter>,
+      );
+
+      expect(screen.getByText("out of sync (ab-1234)")).toBeDefined();
+    });
+
+    it("should toggle the panel", () => {
+      render(
+        <MemoryRouter>
+          <TabIdDevtools />
+        </MemoryRouter>,
+      );
+
+      const toggle = screen.getByRole("button", { expanded: false });
+      expect(screen.queryByText("Regenerate ID")).toBeNull();
+
+      fireEvent.click(toggle);
+      expect(screen.getByText("Regenerate ID")).toBeDefined();
+    });
+
+    it("should regenerate the tab ID, and record the change", async () => {
+      renderDevtools();
+
+      act(() => fireEvent.click(screen.getByText("Regenerate ID")));
+
+      const newId = window.sessionStorage.getItem("tab-id");
+      expect(newId).not.toBe("ab-1234");
+      await waitFor(() => expect(getDisplayedTabId()).toBe(newId));
+      await screen.findByText(new RegExp(`${newId} \\(generated\\)`));
+    });
+
+    it("should simulate a duplicate tab", async () => {
+      renderDevtools();
+
+      act(() => fireEvent.click(screen.getByText("Simulate duplicate tab")));
+
+      await waitFor(() => expect(getDisplayedTabId()).not.toBe("ab-1234"));
+      await screen.findByText(/\(duplicate\)/);
+    });
+
+    it("should clear the tab's storage", async () => {
+      window.sessionStorage.setItem("tab-id:issued", "ab-1234");
+      window.sessionStorage.setItem("other", "value");
+      renderDevtools();
+
+      act(() => fireEvent.click(screen.getByText("Clear storage")));
+
+      await waitFor(() => expect(getDisplayedTabId()).not.toBe("ab-1234"));
+      expect(window.sessionStorage.getItem("tab-id:issued")).toBeNull();
+      expect(window.sessionStorage.getItem("other")).toBe("value");
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import type { CSSProperties } from "react";
+import React, { useEffect, useRef, useState, useSyncExternalStore } from "react";
+
+import { useLocation } from "react-router";
+import { getPathTabId } from "../path-segment";
+import { detectDuplicateTab } from "./duplicate-tab";
+import { useTabIdSnapshot } from "./tab-id-context";
+import { getTabIdHistorySnapshot, NO_CHANGES, subscribeToTabIdHistory } from "./tab-id-history";
+import { TabIdStore } from "./tab-id-store";
+import { useOpenTabs } from "./use-open-tabs";
+import { useTabIdConfig } from "./use-tab-id";
+
+export type { TabIdChange, TabIdSource } from "./tab-id-history";
+
+/**
+ * Props for the `TabIdDevtools` component.
+ */
+export type TabIdDevtoolsProps = {
+  /**
+   * Whether the panel is open initially (otherwise, only its toggle button is displayed).
+   * @default false
+   */
+  defaultOpen?: boolean;
+  /**
+   * The corner of the window where the panel is displayed.
+   * @default 'bottom-right'
+   */
+  position?: "top-left" | "top-right" | "bottom-left" | "bottom-right";
+  /**
+   * The session storage key used for persisting the tab id.
+   * @default the key of the closest `<TabIdProvider>` (see `useTabIdConfig()`)
+   */
+  sessionStorageKey?: string;
+};
+
+/**
+ * A debug panel showing the tab id of the current tab, where it came from, the configured keys, whether the URL
+ * is in sync, the other open tabs and the history of id changes, with buttons to regenerate the id,
+ * simulate a duplicate tab or clear the tab's storage.
+ *
+ * The panel renders nothing in production builds (when `process.env.NODE_ENV` is `'production'`), and is
+ * tree-shaken out of them.
+ *
+ * @example
+ * <TabIdProvider config={tabIdConfig}>
+ *   <Outlet />
+ *   <TabIdDevtools />
+ * </TabIdProvider>
+ */
+export const TabIdDevtools: (props: TabIdDevtoolsProps) => React.JSX.Element | null =
+  process.env.NODE_ENV === "production" ? () => null : TabIdDevtoolsPanel;
+
+function TabIdDevtoolsPanel(props: TabIdDevtoolsProps) {
+  const config = useTabIdConfig();
+  const { defaultOpen = false, position = "bottom-right", sessionStorageKey = config.sessionStorageKey } = props;
+
+  const tabId = useTabIdSnapshot(sessionStorageKey);
+  const openTabs = useOpenTabs({ sessionStorageKey });
+  const history = useSyncExternalStore(
+    subscribeToTabIdHistory,
+    () => getTabIdHistorySnapshot(sessionStorageKey),
+    () => NO_CHANGES,
+  );
+
+  const { pathname, search } = useLocation();
+  const [open, setOpen] = useState(defaultOpen);
+
+  //
+  // Describe the tab id and the URL
+  //
+
+  const source = history.findLast(({ id }) => id === tabId)?.source;
+  const hasPathSegmentTransport = config.transport.includes("path-segment");
+  const hasUrlTransport = hasPathSegmentTransport || config.transport.includes("search-param");
+  const urlId = hasPathSegmentTransport
+    ? getPathTabId(pathname, config.pathPrefix)
+    : (new URLSearchParams(search).get(config.idSearchParamKey) ?? undefined);
+
+  const urlStatus = !hasUrlTransport
+    ? "not in the URL"
+    : urlId === tabId
+      ? "in sync"
+      : `out of sync (${urlId === undefined ? "missing" : urlId})`;
+
+  //
+  // Actions
+  //
+
+  const stopSimulationRef = useRef<() => void>(undefined);
+
+  // the simulated tab leaves once the current tab switched to a new id
+  useEffect(() => () => stopSimulationRef.current?.(), [tabId]);
+
+  const regenerateId = () => {
+    new TabIdStore({ generator: config.generator, sessionStorageKey }).regenerateId();
+  };
+
+  const simulateDuplicate = () => {
+    if (tabId !== undefined) {
+      // an older tab claims the same id, so the current tab is the duplicate (and switches to a new id)
+      const instance = { instanceId: `devtools-${crypto.randomUUID()}`, createdAt: 0 };
+      stopSimulationRef.current?.();
+      stopSimulationRef.current = detectDuplicateTab(tabId, () => {}, instance);
+    }
+  };
+
+  const clearStorage = () => {
+    // the tab id, along with the values stored next to it (ie: its lineage)
+    const keys = Array.from({ length: window.sessionStorage.length }, (_, index) => window.sessionStorage.key(index));
+    const tabKeys = keys.filter(
+      (key): key is string => key === sessionStorageKey || key?.startsWith(`${sessionStorageKey}:`) === true,
+    );
+
+    tabKeys.forEach((key) => window.sessionStorage.removeItem(key));
+
+    // the `storage` event never fires in the document that changed the storage
+    const storageArea = window.sessionStorage;
+    window.dispatchEvent(new StorageEvent("storage", { key: sessionStorageKey, oldValue: tabId, storageArea }));
+  };
+
+  const [vertical, horizontal] = position.split("-") as ["top" | "bottom", "left" | "right"];
+
+  return (
+    <aside aria-label="Tab ID devtools" style={{ ...styles.panel, [vertical]: 8, [horizontal]: 8 }}>
+      <button type="button" aria-expanded={open} onClick={() => setOpen(!open)} style={styles.toggle}>
+        Tab ID: {tabId ?? "none"}
+      </button>
+
+      {open && (
+        <div style={styles.content}>
+          <dl style={styles.list}>
+            <dt>Source</dt>
+            <dd>{source ?? "unknown"}</dd>
+            <dt>URL</dt>
+            <dd>{urlStatus}</dd>
+            <dt>Transports</dt>
+            <dd>{config.transport.join(", ")}</dd>
+            <dt>Keys</dt>
+            <dd>
+              {`param: ${config.idSearchParamKey}, storage: ${sessionStorageKey}, header: ${config.headerName}`}
+              {hasPathSegmentTransport && `, path prefix: ${config.pathPrefix}`}
+            </dd>
+          </dl>
+
+          <h4 style={styles.heading}>Open tabs</h4>
+          <ul style={styles.list}>
+            {openTabs.map((tab) => (
+              <li key={tab.tabId}>
+                {tab.tabId} {tab.pathname} ({tab.current ? "current" : tab.visibility})
+              </li>
+            ))}
+          </ul>
+
+          <h4 style={styles.heading}>ID changes</h4>
+          <ol style={styles.list}>
+            {history.map((change) => (
+              <li key={change.at + change.id}>
+                {new Date(change.at).toLocaleTimeString()} {change.id} ({change.source})
+              </li>
+            ))}
+          </ol>
+
+          <div style={styles.actions}>
+            <button type="button" onClick={regenerateId}>
+              Regenerate ID
+            </button>
+            <button type="button" onClick={simulateDuplicate}>
+              Simulate duplicate tab
+            </button>
+            <button type="button" onClick={clearStorage}>
+              Clear storage
+            </button>
+          </div>
+        </div>
+      )}
+    </aside>
+  );
+}
+
+const styles = {
+  panel: {
+    position: "fixed",
+    zIndex: 2147483647,
+    maxWidth: 420,
+    maxHeight: "80vh",
+    overflow: "auto",
+    font: "12px/1.4 ui-monospace, monospace",
+    color: "#e5e7eb",
+    background: "#111827",
+    border: "1px solid #374151",
+    borderRadius: 6,
+  },
+  toggle: { all: "unset", cursor: "pointer", display: "block", padding: "4px 8px" },
+  content: { padding: "0 8px 8px" },
+  heading: { margin: "8px 0 4px", fontSize: 12 },
+  list: { margin: 0, paddingLeft: 16 },
+  actions: { display: "flex", gap: 4, marginTop: 8 },
+} satisfies Record<string, CSSProperties>;
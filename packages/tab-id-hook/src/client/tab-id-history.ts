@@ -0,0 +1,81 @@
+/**
+ * Where a tab ID came from:
+ *
+ * - `session-storage`: read from `sessionStorage` (ie: after a reload).
+ * - `url`: adopted from the URL, as minted by the server (see `mintTabId()`).
+ * - `issued`: adopted from the `issuedId` option (ie: a signed tab token).
+ * - `generated`: freshly generated.
+ * - `duplicate`: generated to replace the ID of a duplicated tab.
+ */
+export type TabIdSource = "session-storage" | "url" | "issued" | "generated" | "duplicate";
+
+/**
+ * A change of the tab ID of the current document.
+ */
+export type TabIdChange = {
+  /** The new tab ID. */
+  id: string;
+  /** Where the new tab ID came from. */
+  source: TabIdSource;
+  /** When the tab ID changed (as a timestamp in milliseconds). */
+  at: number;
+};
+
+/**
+ * How many changes are kept per session storage key (the oldest ones are dropped).
+ */
+const MAX_CHANGES = 50;
+
+/**
+ * The history returned when the tab ID never changed (ie: during server-side rendering).
+ */
+export const NO_CHANGES: TabIdChange[] = [];
+
+//
+// The changes are recorded for the whole document (and each session storage key), whichever store made them.
+//
+
+const histories = new Map<string, TabIdChange[]>();
+const listeners = new Set<() => void>();
+
+/**
+ * Records the tab ID returned (or set) by a store, unless it is the last recorded one.
+ *
+ * @param sessionStorageKey The session storage key of the tab ID.
+ * @param id The tab ID.
+ * @param source Where the tab ID came from.
+ */
+export function recordTabId(sessionStorageKey: string, id: string, source: TabIdSource): void {
+  const history = histories.get(sessionStorageKey) ?? NO_CHANGES;
+
+  if (history.at(-1)?.id === id) {
+    return; // ie: read again from session storage
+  }
+
+  histories.set(sessionStorageKey, [...history, { id, source, at: Date.now() }].slice(-MAX_CHANGES));
+
+  // the tab ID is read while rendering: notify the subscribers once the render is over
+  queueMicrotask(() => listeners.forEach((listener) => listener()));
+}
+
+/**
+ * Subscribes to the changes of every tab ID of the document.
+ *
+ * This function serves as the `subscribe` callback for `useSyncExternalStore()`.
+ *
+ * @returns A cleanup function that unsubscribes.
+ */
+export function subscribeToTabIdHistory(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Returns the changes of a tab ID, from the oldest to the newest.
+ * The returned array is only replaced when a change is recorded.
+ *
+ * This function serves (bound to a session storage key) as the `getSnapshot` callback for `useSyncExternalStore()`.
+ */
+export function getTabIdHistorySnapshot(sessionStorageKey: string): TabIdChange[] {
+  return histories.get(sessionStorageKey) ?? NO_CHANGES;
+}
@@ -0,0 +1,45 @@
+import { render } from "@testing-library/react";
+import React from "react";
+import { MemoryRouter } from "react-router";
+import { beforeEach, describe, expect, it } from "vitest";
+import { TabIdInput } from "./tab-id-input";
+
+describe("tab-id-input", () => {
+  beforeEach(() => {
+    window.sessionStorage.clear();
+    window.sessionStorage.setItem("tab-id", "ab-1234");
+  });
+
+  describe("<TabIdInput />", () => {
+    it("should render a hidden field holding the tab ID", () => {
+      const { container, unmount } = render(
+        <MemoryRouter>
+          <TabIdInput />
+        </MemoryRouter>,
+      );
+
+      const input = container.querySelector("input");
+      expect(input?.type).toBe("hidden");
+      expect(input?.name).toBe("tid");
+      expect(input?.value).toBe("ab-1234");
+
+      unmount();
+    });
+
+    it("should use a custom field name and session storage key", () => {
+      window.sessionStorage.setItem("custom-key", "cd-5678");
+
+      const { container, unmount } = render(
+        <MemoryRouter>
+          <TabIdInput idSearchParamKey="tab" sessionStorageKey="custom-key" />
+        </MemoryRouter>,
+      );
+
+      const input = container.querySelector("input");
+      expect(input?.name).toBe("tab");
+      expect(input?.value).toBe("cd-5678");
+
+      unmount();
+    });
+  });
+});
@@ -0,0 +1,31 @@
+import React, { type JSX } from "react";
+
+import { useTabIdSnapshot } from "./tab-id-context";
+import type { UseTabIdOptions } from "./use-tab-id";
+import { useTabIdConfig } from "./use-tab-id";
+
+/**
+ * Props for the `TabIdInput` component.
+ */
+export type TabIdInputProps = Pick<UseTabIdOptions, "idSearchParamKey" | "sessionStorageKey">;
+
+/**
+ * A hidden form field holding the current tab id, so that the form's action receives it
+ * no matter which route the form is submitted to (see `getTabIdFromFormData()`).
+ *
+ * Nothing is rendered until the tab id is known (ie: during server-side rendering without a tab id in the URL).
+ *
+ * @param props Configuration options for customizing behavior.
+ */
+export function TabIdInput(props: TabIdInputProps): JSX.Element | null {
+  const config = useTabIdConfig();
+  const { idSearchParamKey = config.idSearchParamKey, sessionStorageKey } = props;
+
+  const tabId = useTabIdSnapshot(sessionStorageKey);
+
+  if (tabId === undefined) {
+    return null;
+  }
+
+  return <input type="hidden" name={idSearchParamKey} value={tabId} />;
+}
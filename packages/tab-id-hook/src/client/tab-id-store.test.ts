@@ -0,0 +1,316 @@
+import { waitFor } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createCustomGenerator } from "../id-generators";
+import type { RouterAdapter } from "./tab-id-store";
+import { TabIdStore } from "./tab-id-store";
+
+describe("tab-id-store", () => {
+  /**
+   * Creates an in-memory router adapter (ie: a router that never touches the document's URL).
+   */
+  const createMemoryRouter = (search = "") => {
+    const listeners = new Set<() => void>();
+    let searchParams = new URLSearchParams(search);
+
+    return {
+      getSearchParam: vi.fn((key: string) => searchParams.get(key)),
+      replaceSearchParam: vi.fn((key: string, value: string) => {
+        searchParams.set(key, value);
+      }),
+      subscribe: (listener: () => void) => {
+        listeners.add(listener);
+        return () => listeners.delete(listener);
+      },
+      navigate: (search: string) => {
+        searchParams = new URLSearchParams(search);
+        listeners.forEach((listener) => listener());
+      },
+    } satisfies RouterAdapter & Record<string, unknown>;
+  };
+
+  beforeEach(() => {
+    window.sessionStorage.clear();
+  });
+
+  afterEach(() => {
+    document.cookie = "tid-issued=; Path=/; Max-Age=0";
+    vi.restoreAllMocks();
+  });
+
+  describe("TabIdStore", () => {
+    describe("getId()", () => {
+      it("should generate and persist a new ID if storage is empty", () => {
+        const store = new TabIdStore();
+        const id = store.getId();
+
+        expect(id).toMatch(/^[a-z]{2}-\d{4}$/);
+        expect(window.sessionStorage.getItem("tab-id")).toBe(id);
+        expect(store.getId()).toBe(id);
+      });
+
+      it("should return the existing ID from storage", () => {
+        window.sessionStorage.setItem("tab-id", "ab-1234");
+        expect(new TabIdStore().getId()).toBe("ab-1234");
+      });
+
+      it("should replace a stored ID that doesn't fit the generator's format", () => {
+        window.sessionStorage.setItem("tab-id", "<script>");
+
+        const store = new TabIdStore({
+          generator: createCustomGenerator(
+            () => "ne-5678",
+            (id) => /^[a-z]{2}-\d{4}$/.test(id),
+          ),
+        });
+
+        expect(store.getId()).toBe("ne-5678");
+        expect(window.sessionStorage.getItem("tab-id")).toBe("ne-5678");
+      });
+
+      it("should keep the IDs handed over by the server, whatever their format", () => {
+        document.cookie = "tid-issued=mi-1234.signature; Path=/";
+
+        const store = new TabIdStore({ router: createMemoryRouter("?tid=mi-1234.signature") });
+
+        expect(store.getId()).toBe("mi-1234.signature");
+        expect(store.getId()).toBe("mi-1234.signature");
+
+        store.adoptIssuedId("ab-1234.signature");
+        expect(store.getId()).toBe("ab-1234.signature");
+      });
+
+      it("should use a custom generator, storage key and storage", () => {
+        const storage = new Map<string, string>();
+        const customStorage = {
+          getItem: (key: string) => storage.get(key) ?? null,
+          setItem: (key: string, value: string) => storage.set(key, value),
+        } as unknown as Storage;
+
+        const generator = createCustomGenerator(() => "custom-id");
+        const store = new TabIdStore({ generator, sessionStorageKey: "custom-key", storage: customStorage });
+
+        expect(store.getId()).toBe("custom-id");
+        expect(storage.get("custom-key")).toBe("custom-id");
+        expect(window.sessionStorage.getItem("custom-key")).toBeNull();
+      });
+
+      it("should adopt the ID minted by the server when it matches the URL", () => {
+        document.cookie = "tid-issued=mi-1234; Path=/";
+
+        const store = new TabIdStore({ router: createMemoryRouter("?tid=mi-1234") });
+
+        expect(store.getId()).toBe("mi-1234");
+        expect(document.cookie).not.toContain("tid-issued");
+      });
+
+      it("should not adopt an ID minted for another tab", () => {
+        document.cookie = "tid-issued=mi-1234; Path=/";
+
+        const store = new TabIdStore({ router: createMemoryRouter("?tid=ot-5678") });
+
+        expect(store.getId()).not.toBe("mi-1234");
+        expect(document.cookie).toContain("tid-issued=mi-1234");
+      });
+
+      it("should ignore a malformed minted ID cookie", () => {
+        document.cookie = "tid-issued=%E0; Path=/";
+
+        const store = new TabIdStore({ router: createMemoryRouter("?tid=%E0") });
+
+        expect(store.getId()).toMatch(/^[a-z]{2}-\d{4}$/);
+      });
+    });
+
+    describe("adoptIssuedId()", () => {
+      it("should adopt an issued ID only once", () => {
+        const store = new TabIdStore();
+
+        store.adoptIssuedId("ab-1234.signature");
+        expect(store.getId()).toBe("ab-1234.signature");
+
+        // simulate a tab that got a new ID (ie: after being duplicated) while the issued ID is stale
+        window.sessionStorage.setItem("tab-id", "xy-9999");
+
+        store.adoptIssuedId("ab-1234.signature");
+        expect(store.getId()).toBe("xy-9999");
+      });
+    });
+
+    describe("replaceId()", () => {
+      it("should replace the ID and notify every store of the document", () => {
+        window.sessionStorage.setItem("tab-id", "du-1234");
+
+        const listener = vi.fn();
+        const unsubscribe = new TabIdStore().subscribe(listener);
+
+        new TabIdStore({ generator: createCustomGenerator(() => "ne-5678") }).replaceId("du-1234");
+
+        expect(window.sessionStorage.getItem("tab-id")).toBe("ne-5678");
+        expect(listener).toHaveBeenCalledOnce();
+
+        unsubscribe();
+      });
+
+      it("should not replace an ID that was already replaced", () => {
+        window.sessionStorage.setItem("tab-id", "ne-5678");
+
+        const listener = vi.fn();
+        const store = new TabIdStore();
+        const unsubscribe = store.subscribe(listener);
+
+        store.replaceId("du-1234");
+
+        expect(window.sessionStorage.getItem("tab-id")).toBe("ne-5678");
+        expect(listener).not.toHaveBeenCalled();
+
+        unsubscribe();
+      });
+
+      it("should keep an issued ID, since a generated ID would not be signed", async () => {
+        const store = new TabIdStore();
+        store.adoptIssuedId("ab-1234.signature");
+
+        await store.replaceId("ab-1234.signature");
+
+        expect(window.sessionStorage.getItem("tab-id")).toBe("ab-1234.signature");
+      });
+
+      it("should replace the ID with one issued by the server", async () => {
+        const issueId = vi.fn(async () => "cd-5678.signature");
+        const store = new TabIdStore({ issueId });
+        store.adoptIssuedId("ab-1234.signature");
+
+        await store.replaceId("ab-1234.signature");
+
+        expect(issueId).toHaveBeenCalledOnce();
+        expect(window.sessionStorage.getItem("tab-id")).toBe("cd-5678.signature");
+      });
+
+      it("should keep the ID when the server fails to issue one", async () => {
+        const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+        const error = new Error("Network error");
+        const store = new TabIdStore({ issueId: () => Promise.reject(error) });
+        store.adoptIssuedId("ab-1234.signature");
+
+        await store.replaceId("ab-1234.signature");
+
+        expect(window.sessionStorage.getItem("tab-id")).toBe("ab-1234.signature");
+        expect(consoleError).toHaveBeenCalledWith(error);
+      });
+    });
+
+    describe("regenerateId()", () => {
+      it("should replace the ID and notify every store of the document", () => {
+        window.sessionStorage.setItem("tab-id", "ab-1234");
+
+        const listener = vi.fn();
+        const unsubscribe = new TabIdStore().subscribe(listener);
+
+        expect(new TabIdStore({ generator: createCustomGenerator(() => "ne-5678") }).regenerateId()).toBe("ne-5678");
+        expect(window.sessionStorage.getItem("tab-id")).toBe("ne-5678");
+        expect(listener).toHaveBeenCalledOnce();
+
+        unsubscribe();
+      });
+    });
+
+    describe("subscribe()", () => {
+      it("should notify the listener when the ID changes in another document", () => {
+        const listener = vi.fn();
+        const unsubscribe = new TabIdStore().subscribe(listener);
+
+        window.dispatchEvent(new StorageEvent("storage", { key: "other-key", newValue: "value" }));
+        expect(listener).not.toHaveBeenCalled();
+
+        window.dispatchEvent(new StorageEvent("storage", { key: "tab-id", newValue: "ab-1234" }));
+        expect(listener).toHaveBeenCalledOnce();
+
+        unsubscribe();
+        window.dispatchEvent(new StorageEvent("storage", { key: "tab-id", newValue: "cd-5678" }));
+        expect(listener).toHaveBeenCalledOnce();
+      });
+
+      it("should notify the listener when the document is restored from the back/forward cache", () => {
+        const listener = vi.fn();
+        const unsubscribe = new TabIdStore().subscribe(listener);
+
+        window.dispatchEvent(new PageTransitionEvent("pageshow", { persisted: false }));
+        expect(listener).not.toHaveBeenCalled();
+
+        window.dispatchEvent(new PageTransitionEvent("pageshow", { persisted: true }));
+        expect(listener).toHaveBeenCalledOnce();
+
+        unsubscribe();
+      });
+    });
+
+    describe("syncUrl()", () => {
+      it("should add the ID to the URL when it is missing", async () => {
+        window.sessionStorage.setItem("tab-id", "ab-1234");
+        const router = createMemoryRouter("?foo=bar");
+
+        await expect(new TabIdStore({ router }).syncUrl()).resolves.toBe(true);
+        expect(router.replaceSearchParam).toHaveBeenCalledWith("tid", "ab-1234");
+      });
+
+      it("should not update the URL when it already has the ID", async () => {
+        window.sessionStorage.setItem("tab-id", "ab-1234");
+        const router = createMemoryRouter("?tid=ab-1234");
+
+        await expect(new TabIdStore({ router }).syncUrl()).resolves.toBe(false);
+        expect(router.replaceSearchParam).not.toHaveBeenCalled();
+      });
+
+      it("should use a custom search param key", async () => {
+        window.sessionStorage.setItem("tab-id", "ab-1234");
+        const router = createMemoryRouter();
+
+        await new TabIdStore({ idSearchParamKey: "tab", router }).syncUrl();
+        expect(router.replaceSearchParam).toHaveBeenCalledWith("tab", "ab-1234");
+      });
+
+      it("should not do anything without a router", async () => {
+        await expect(new TabIdStore().syncUrl()).resolves.toBe(false);
+      });
+    });
+
+    describe("start()", () => {
+      it("should add the ID back to the URL after every navigation", async () => {
+        window.sessionStorage.setItem("tab-id", "ab-1234");
+        const router = createMemoryRouter();
+
+        const stop = new TabIdStore({ router }).start({ detectDuplicates: false });
+        await waitFor(() => expect(router.getSearchParam("tid")).toBe("ab-1234"));
+
+        router.navigate("?page=2");
+        await waitFor(() => expect(router.getSearchParam("tid")).toBe("ab-1234"));
+
+        stop();
+        router.navigate("?page=3");
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        expect(router.getSearchParam("tid")).toBeNull();
+      });
+
+      it("should give a duplicated tab a new ID, and update the URL", async () => {
+        window.sessionStorage.setItem("tab-id", "du-1234");
+        const router = createMemoryRouter("?tid=du-1234");
+
+        // simulate the original tab, which was opened before this one
+        const originalTab = new BroadcastChannel("tab-id:duplicate-tab");
+        originalTab.onmessage = ({ data }) => {
+          if (data.type === "claim" && data.id === "du-1234") {
+            originalTab.postMessage({ type: "reply", id: "du-1234", instanceId: "original", createdAt: 0 });
+          }
+        };
+
+        const stop = new TabIdStore({ router }).start();
+
+        await waitFor(() => expect(window.sessionStorage.getItem("tab-id")).not.toBe("du-1234"));
+        await waitFor(() => expect(router.getSearchParam("tid")).toBe(window.sessionStorage.getItem("tab-id")));
+
+        stop();
+        originalTab.close();
+      });
+    });
+  });
+});
@@ -0,0 +1,336 @@
+import { ISSUED_COOKIE_NAME, SEARCH_PARAM_KEY, SESSION_STORAGE_KEY } from "../defaults";
+import type { TabIdGenerator } from "../id-generators";
+import { createShortIdGenerator, generateId } from "../id-generators";
+import { detectDuplicateTab } from "./duplicate-tab";
+import type { TabIdSource } from "./tab-id-history";
+import { recordTabId } from "./tab-id-history";
+
+/**
+ * The small part of a router the tab ID store needs to keep the tab ID in the URL.
+ */
+export type RouterAdapter = {
+  /**
+   * Returns the value of a query parameter of the current URL (or `null` if it isn't set).
+   */
+  getSearchParam(key: string): string | null;
+  /**
+   * Sets a query parameter of the current URL, replacing the current history entry (rather than pushing a new one).
+   */
+  replaceSearchParam(key: string, value: string): void | Promise<void>;
+  /**
+   * Subscribes to changes of the current URL (ie: navigations), so that the tab ID can be added back to it.
+   * @returns A cleanup function that unsubscribes.
+   */
+  subscribe?(listener: () => void): () => void;
+};
+
+/**
+ * Configuration options for the `TabIdStore` class.
+ */
+export type TabIdStoreOptions = {
+  /**
+   * The strategy used to generate new tab ids.
+   * @default createShortIdGenerator() (ids in the format `xx-0000`)
+   */
+  generator?: TabIdGenerator;
+  /**
+   * The query parameter key used for storing the tab id in the URL.
+   * @default 'tid'
+   */
+  idSearchParamKey?: string;
+  /**
+   * The cookie holding a tab id minted by the server (see `mintTabId()`).
+   * @default 'tid-issued'
+   */
+  issuedCookieName?: string;
+  /**
+   * Asks the server for a new tab id (ie: a resource route returning `issueTabId()`), to replace the id of a duplicated tab.
+   * Needed when tab ids are signed: an id generated in the browser is rejected by `getTabId({ secret })`.
+   * Without it, a duplicated tab keeps the id issued by the server (see `adoptIssuedId()`).
+   */
+  issueId?: () => Promise<string>;
+  /**
+   * The router used to keep the tab id in the URL. Without a router, the URL is left untouched.
+   */
+  router?: RouterAdapter;
+  /**
+   * The session storage key used for persisting the tab id.
+   * @default 'tab-id'
+   */
+  sessionStorageKey?: string;
+  /**
+   * The storage used for persisting the tab id.
+   * @default window.sessionStorage
+   */
+  storage?: Storage;
+};
+
+/**
+ * Owns the tab id of the current browser tab, independently of any UI framework or router:
+ * its generation, its persistence in `sessionStorage`, change notifications, and its synchronization with the URL.
+ *
+ * - `getId()` returns the tab id, generating (and persisting) one if needed.
+ * - `subscribe()` notifies listeners when the tab id changes (ie: in another store of the same document).
+ * - `syncUrl()` adds the tab id to the URL (through the router adapter) when it is missing.
+ * - `regenerateId()` gives the tab a new id (ie: from `<TabIdDevtools>`).
+ * - `start()` keeps the URL in sync and detects duplicated tabs, until stopped.
+ */
+export class TabIdStore {
+  private readonly generator: TabIdGenerator;
+  private readonly idSearchParamKey: string;
+  private readonly issuedCookieName: string;
+  private readonly issueId: (() => Promise<string>) | undefined;
+  private readonly router: RouterAdapter | undefined;
+  private readonly sessionStorageKey: string;
+  private readonly customStorage: Storage | undefined;
+  private readonly listeners = new Set<() => void>();
+
+  constructor(options?: TabIdStoreOptions) {
+    this.generator = options?.generator ?? createShortIdGenerator();
+    this.idSearchParamKey = options?.idSearchParamKey ?? SEARCH_PARAM_KEY;
+    this.issuedCookieName = options?.issuedCookieName ?? ISSUED_COOKIE_NAME;
+    this.issueId = options?.issueId;
+    this.router = options?.router;
+    this.sessionStorageKey = options?.sessionStorageKey ?? SESSION_STORAGE_KEY;
+    this.customStorage = options?.storage;
+  }
+
+  /**
+   * Returns the current tab id.
+   * If no (valid) id exists, the id minted by the server is adopted (if it is in the URL), otherwise a new one is generated and stored.
+   * A stored id must fit the generator's format (see `TabIdGenerator.validate()`), unless it was handed over by the server.
+   */
+  getId(): string {
+    const storedId = this.storage.getItem(this.sessionStorageKey);
+    const validId = storedId !== null && this.isValidId(storedId) ? storedId : null;
+    const mintedId =
+      validId === null ? this.takeMintedId(this.router?.getSearchParam(this.idSearchParamKey) ?? null) : undefined;
+    const id = validId ?? mintedId ?? generateId(this.generator);
+
+    this.storage.setItem(this.sessionStorageKey, id); // store the id to persist it across reloads
+    this.record(id, validId !== null ? "session-storage" : mintedId !== undefined ? "url" : "generated");
+    return id;
+  }
+
+  /**
+   * Adopts a tab id issued by the server (ie: a signed tab token), replacing the current id.
+   *
+   * Each issued id is only adopted the first time it is seen. The last adopted id is remembered
+   * in storage so that stale data (or a duplicated tab) never adopts the same id twice.
+   */
+  adoptIssuedId(issuedId: string): void {
+    const issuedIdKey = `${this.sessionStorageKey}:issued`;
+
+    if (issuedId !== this.storage.getItem(issuedIdKey)) {
+      this.storage.setItem(issuedIdKey, issuedId);
+      this.storage.setItem(this.sessionStorageKey, issuedId);
+      this.record(issuedId, "issued");
+    }
+  }
+
+  /**
+   * Replaces a duplicated tab id with a new one (issued by the server with `issueId`, otherwise generated),
+   * and notifies every subscriber. Without `issueId`, an id issued by the server is kept, since a generated one
+   * would not be signed. If the server fails to issue an id, the error is logged and the tab keeps its id.
+   *
+   * @param duplicateId The id that must be replaced. Nothing happens if it has already been replaced.
+   */
+  async replaceId(duplicateId: string): Promise<void> {
+    if (this.storage.getItem(this.sessionStorageKey) !== duplicateId) {
+      return; // another store in this document already took care of it
+    }
+
+    if (this.issueId === undefined && duplicateId === this.storage.getItem(`${this.sessionStorageKey}:issued`)) {
+      return;
+    }
+
+    let newValue: string;
+
+    try {
+      newValue = this.issueId === undefined ? generateId(this.generator) : await this.issueId();
+    } catch (error) {
+      console.error(error);
+      return;
+    }
+
+    if (this.storage.getItem(this.sessionStorageKey) !== duplicateId) {
+      return; // replaced while the server was issuing the new id
+    }
+
+    this.storage.setItem(this.sessionStorageKey, newValue);
+    this.record(newValue, "duplicate");
+    this.notify(duplicateId, newValue);
+  }
+
+  /**
+   * Replaces the tab id with a newly generated one, and notifies every subscriber.
+   *
+   * @returns The new id.
+   */
+  regenerateId(): string {
+    const oldValue = this.storage.getItem(this.sessionStorageKey);
+    const newValue = generateId(this.generator);
+
+    this.storage.setItem(this.sessionStorageKey, newValue);
+    this.record(newValue, "generated");
+    this.notify(oldValue, newValue);
+    return newValue;
+  }
+
+  /**
+   * Subscribes to changes of the tab id.
+   *
+   * Note: the `storage` event only fires when storage is modified in *another* document, so changes made
+   * by the stores of the current document are notified with a synthetic `storage` event.
+   * Subscribers are also notified when the document is restored from the back/forward cache,
+   * since another document of the tab may have changed the id in the meantime.
+   *
+   * @returns A cleanup function that unsubscribes.
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    const handler = ({ key }: StorageEvent): void => {
+      if (key === this.sessionStorageKey) {
+        listener(); // only notify if the tab id changed
+      }
+    };
+
+    const pageShowHandler = ({ persisted }: PageTransitionEvent): void => {
+      if (persisted) {
+        listener();
+      }
+    };
+
+    this.listeners.add(listener);
+    window.addEventListener("storage", handler);
+    window.addEventListener("pageshow", pageShowHandler);
+
+    return () => {
+      this.listeners.delete(listener);
+      window.removeEventListener("storage", handler);
+      window.removeEventListener("pageshow", pageShowHandler);
+    };
+  };
+
+  /**
+   * Adds the tab id to the URL (through the router adapter), unless it is already there.
+   *
+   * @returns `true` if the URL was updated.
+   */
+  async syncUrl(): Promise<boolean> {
+    const id = this.getId();
+
+    if (this.router === undefined || this.router.getSearchParam(this.idSearchParamKey) === id) {
+      return false;
+    }
+
+    await this.router.replaceSearchParam(this.idSearchParamKey, id);
+    return true;
+  }
+
+  /**
+   * Keeps the URL in sync with the tab id (after every navigation, and whenever the id changes),
+   * and gives the tab a new id if it turns out to be a duplicate of another tab.
+   *
+   * @param options.detectDuplicates Whether to detect duplicated tabs (default: `true`).
+   * @returns A cleanup function that stops the store.
+   */
+  start(options?: { detectDuplicates?: boolean }): () => void {
+    const { detectDuplicates = true } = options ?? {};
+
+    let stopDetectingDuplicates: (() => void) | undefined;
+
+    const update = () => {
+      void this.syncUrl();
+
+      if (detectDuplicates) {
+        stopDetectingDuplicates?.();
+        stopDetectingDuplicates = detectDuplicateTab(this.getId(), (duplicateId) => void this.replaceId(duplicateId));
+      }
+    };
+
+    const unsubscribe = this.subscribe(update);
+    const unsubscribeFromRouter = this.router?.subscribe?.(() => void this.syncUrl());
+    update();
+
+    return () => {
+      unsubscribe();
+      unsubscribeFromRouter?.();
+      stopDetectingDuplicates?.();
+    };
+  }
+
+  private get storage(): Storage {
+    return this.customStorage ?? window.sessionStorage;
+  }
+
+  /**
+   * Notifies every subscriber (of every store of the document, when using `sessionStorage`) of a change.
+   */
+  private notify(oldValue: string | null, newValue: string): void {
+    if (this.storage === window.sessionStorage) {
+      const storageArea = this.storage;
+      window.dispatchEvent(new StorageEvent("storage", { key: this.sessionStorageKey, oldValue, newValue, storageArea }));
+    } else {
+      this.listeners.forEach((listener) => listener());
+    }
+  }
+
+  /**
+   * Records a change of the tab id of the current document (see `<TabIdDevtools>`).
+   * The ids of other storages (ie: the tabs simulated by `createTabEnvironment()`) aren't the document's.
+   */
+  private record(id: string, source: TabIdSource): void {
+    if (this.storage === window.sessionStorage) {
+      recordTabId(this.sessionStorageKey, id, source);
+    }
+  }
+
+  /**
+   * Whether a stored id fits the generator's format, or was handed over by the server (issued or minted ids
+   * are opaque values, ie: signed tokens).
+   */
+  private isValidId(id: string): boolean {
+    return (
+      this.generator.validate(id) ||
+      id === this.storage.getItem(`${this.sessionStorageKey}:issued`) ||
+      id === this.storage.getItem(`${this.sessionStorageKey}:minted`)
+    );
+  }
+
+  /**
+   * Takes the id minted by the server for this tab's first document request (see `mintTabId()`).
+   *
+   * The id is only adopted if it matches the id in the URL, so that an id copied in from a pasted link
+   * (or minted for another tab, since the cookie is shared by every tab) is never adopted.
+   * Once adopted, the cookie is deleted so that no other tab adopts the id, and the id is remembered as a minted one.
+   *
+   * @param idSearchParam The id in the URL, if any.
+   * @returns The minted id, or `undefined` if there is none (or it doesn't match the URL).
+   */
+  private takeMintedId(idSearchParam: string | null): string | undefined {
+    const mintedId = this.readIssuedCookie();
+
+    if (mintedId === undefined || idSearchParam !== mintedId) {
+      return undefined; // nothing minted, or minted for another tab
+    }
+
+    document.cookie = `${this.issuedCookieName}=; Path=/; Max-Age=0`;
+    this.storage.setItem(`${this.sessionStorageKey}:minted`, mintedId);
+    return mintedId;
+  }
+
+  /**
+   * Reads the cookie holding the id minted by the server.
+   *
+   * @returns The (decoded) id, or `undefined` if the cookie isn't set (or can't be decoded).
+   */
+  private readIssuedCookie(): string | undefined {
+    const cookie = document.cookie.split(";").find((cookie) => cookie.trim().startsWith(`${this.issuedCookieName}=`));
+
+    try {
+      return cookie && decodeURIComponent(cookie.trim().slice(this.issuedCookieName.length + 1));
+    } catch {
+      return undefined; // a malformed cookie (ie: `%E0%A4%A`) is treated as missing
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { TAB_LIMIT_HEADER_NAME } from "../defaults";
+import type { TabLimitExceeded } from "../server/tab-limiter";
+import { getTabLimitExceeded } from "../server/tab-limiter";
+
+/**
+ * Watches the responses of every `fetch()` request for the refusals of a tab limiter (see `createTabLimiter()`),
+ * ie: React Router data requests and fetchers refused because the user has too many tabs open.
+ *
+ * React Router only forwards the headers of a thrown response to data requests through the route's
+ * `headers` export (ie: `export const headers = ({ errorHeaders }) => errorHeaders ?? {}`).
+ *
+ * @param id The current tab ID (refusals of other tab IDs are ignored).
+ * @param callback The function to call with each refusal.
+ * @returns A cleanup function that stops watching.
+ */
+export function watchTabLimit(id: string, callback: (exceeded: TabLimitExceeded) => void): () => void {
+  const originalFetch = window.fetch;
+  let active = true;
+
+  const fetchWatchingTabLimit: typeof window.fetch = async (input, init) => {
+    const response = await originalFetch(input, init);
+    const exceeded = active ? parseTabLimitExceeded(response.headers.get(TAB_LIMIT_HEADER_NAME)) : undefined;
+
+    if (exceeded?.tabId === id) {
+      callback(exceeded);
+    }
+
+    return response;
+  };
+
+  window.fetch = fetchWatchingTabLimit;
+
+  return () => {
+    active = false;
+
+    // only restore the original fetch() if nothing else wrapped it in the meantime
+    if (window.fetch === fetchWatchingTabLimit) {
+      window.fetch = originalFetch;
+    }
+  };
+}
+
+function parseTabLimitExceeded(header: string | null): TabLimitExceeded | undefined {
+  try {
+    return header === null ? undefined : getTabLimitExceeded(JSON.parse(header));
+  } catch {
+    return undefined; // not set by a tab limiter
+  }
+}
@@ -0,0 +1,196 @@
+import { createEvent, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import React from "react";
+import { MemoryRouter, Route, Routes, useLocation } from "react-router";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { TabLink } from "./tab-link";
+import { TabIdProvider } from "./use-tab-id";
+
+describe("tab-link", () => {
+  /**
+   * Displays the current location.
+   */
+  const LocationDisplay = () => {
+    const location = useLocation();
+    return <p data-testid="location">{location.pathname + location.search}</p>;
+  };
+
+  beforeEach(() => {
+    window.sessionStorage.clear();
+    window.sessionStorage.setItem("tab-id", "ab-1234");
+  });
+
+  describe("<TabLink />", () => {
+    it("should carry the tab ID forward when followed in the current tab", () => {
+      const { unmount } = render(
+        <MemoryRouter>
+          <Routes>
+            <Route path="/" element={<TabLink to="/orders?page=2">Orders</TabLink>} />
+            <Route path="/orders" element={<LocationDisplay />} />
+          </Routes>
+        </MemoryRouter>,
+      );
+
+      fireEvent.click(screen.getByText("Orders"));
+      expect(screen.getByTestId("location").textContent).toBe("/orders?page=2&tid=ab-1234");
+
+      unmount();
+    });
+
+    it("should only read the tab ID, leaving the effects to the application's hook", async () => {
+      const otherTab = new BroadcastChannel("tab-id:duplicate-tab");
+      const onMessage = vi.fn();
+      otherTab.onmessage = ({ data }) => onMessage(data);
+
+      const { unmount } = render(
+        <MemoryRouter initialEntries={["/?ptid=pa-1234&tfork=token"]}>
+          <TabLink to="/orders">Orders</TabLink>
+          <TabLink to="/invoices">Invoices</TabLink>
+          <LocationDisplay />
+        </MemoryRouter>,
+      );
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(onMessage).not.toHaveBeenCalled(); // no duplicate tab handshake
+      await waitFor(() => expect(screen.getByTestId("location").textContent).toBe("/?ptid=pa-1234&tfork=token"));
+
+      unmount();
+      otherTab.close();
+    });
+
+    it("should render an href without the tab ID", () => {
+      const { unmount } = render(
+        <MemoryRouter>
+          <TabLink to="/orders?page=2&tid=ab-1234">Orders</TabLink>
+        </MemoryRouter>,
+      );
+
+      // ie: copied to the clipboard, or opened in a new tab with a middle click
+      expect(screen.getByText("Orders").getAttribute("href")).toBe("/orders?page=2");
+
+      unmount();
+    });
+
+    it("should leave the clicks opening a new tab to the browser", () => {
+      const { unmount } = render(
+        <MemoryRouter>
+          <Routes>
+            <Route path="/" element={<TabLink to="/orders">Orders</TabLink>} />
+            <Route path="/orders" element={<LocationDisplay />} />
+          </Routes>
+        </MemoryRouter>,
+      );
+
+      const event = createEvent.click(screen.getByText("Orders"), { ctrlKey: true });
+      fireEvent(screen.getByText("Orders"), event);
+
+      expect(event.defaultPrevented).toBe(false);
+      expect(screen.queryByTestId("location")).toBeNull();
+
+      unmount();
+    });
+
+    it("should use a custom query parameter key", () => {
+      const { unmount } = render(
+        <MemoryRouter>
+          <Routes>
+            <Route
+              path="/"
+              element={
+                <TabLink to={{ pathname: "/orders" }} idSearchParamKey="tab">
+                  Orders
+                </TabLink>
+              }
+            />
+            <Route path="/orders" element={<LocationDisplay />} />
+          </Routes>
+        </MemoryRouter>,
+      );
+
+      fireEvent.click(screen.getByText("Orders"));
+      expect(screen.getByTestId("location").textContent).toBe("/orders?tab=ab-1234");
+
+      unmount();
+    });
+
+    it("should strip the tab ID from links opening a new tab", () => {
+      const { unmount } = render(
+        <MemoryRouter>
+          <TabLink to="/orders?tid=ab-1234" target="_blank">
+            Orders
+          </TabLink>
+        </MemoryRouter>,
+      );
+
+      expect(screen.getByText("Orders").getAttribute("href")).toBe("/orders");
+
+      unmount();
+    });
+
+    it("should hand the tab ID over to links opening a new tab", () => {
+      const { unmount } = render(
+        <MemoryRouter>
+          <TabLink to="/orders" target="_blank" handoff="search-param">
+            Orders
+          </TabLink>
+        </MemoryRouter>,
+      );
+
+      expect(screen.getByText("Orders").getAttribute("href")).toBe("/orders?ptid=ab-1234");
+
+      unmount();
+    });
+
+    it("should carry the tab ID in the route segment with the path-segment transport", () => {
+      const links = (
+        <>
+          <TabLink to="/invoices">Invoices</TabLink>
+          <TabLink to="details">Details</TabLink>
+          <TabLink to="details" target="_blank">
+            New tab
+          </TabLink>
+        </>
+      );
+
+      const { unmount } = render(
+        <MemoryRouter initialEntries={["/t/ab-1234/orders"]}>
+          <TabIdProvider navigate={false} transport="path-segment">
+            <Routes>
+              <Route path="/t/:tabId/orders" element={links} />
+            </Routes>
+          </TabIdProvider>
+        </MemoryRouter>,
+      );
+
+      expect(screen.getByText("Invoices").getAttribute("href")).toBe("/t/ab-1234/invoices");
+      expect(screen.getByText("Details").getAttribute("href")).toBe("/t/ab-1234/orders/details");
+      expect(screen.getByText("New tab").getAttribute("href")).toBe("/orders/details");
+
+      unmount();
+    });
+
+    it("should let the new tab claim the current tab as its parent", async () => {
+      const newTab = new BroadcastChannel("tab-id:lineage");
+      const adopted = new Promise((resolve) => {
+        newTab.onmessage = ({ data }) => data.type === "adopt" && resolve(data);
+      });
+
+      const { unmount } = render(
+        <MemoryRouter>
+          <TabIdProvider navigate={false}>
+            <TabLink to="/orders" target="_blank">
+              Orders
+            </TabLink>
+          </TabIdProvider>
+        </MemoryRouter>,
+      );
+
+      fireEvent.click(screen.getByText("Orders"));
+      newTab.postMessage({ type: "claim", tabId: "ch-1234", path: "/orders", instanceId: "new-tab" });
+
+      await expect(adopted).resolves.toMatchObject({ type: "adopt", to: "ch-1234", parentId: "ab-1234" });
+
+      unmount();
+      newTab.close();
+    });
+  });
+});
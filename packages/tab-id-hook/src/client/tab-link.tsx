@@ -0,0 +1,139 @@
+import React, { forwardRef } from "react";
+import type { LinkProps, To } from "react-router";
+import { createPath, Link, useHref, useLinkClickHandler, useResolvedPath } from "react-router";
+
+import { registerHandoff } from "./lineage";
+import { useTabIdSnapshot } from "./tab-id-context";
+import { addTabId, addTabIdSegment, isAbsoluteUrl, removeTabId, removeTabIdSegment } from "./tab-path";
+import type { UseTabIdOptions } from "./use-tab-id";
+import { useTabIdConfig } from "./use-tab-id";
+
+/**
+ * Props for the `TabLink` component: React Router's `<Link>` props, plus the tab id options.
+ */
+export type TabLinkProps = LinkProps &
+  Pick<UseTabIdOptions, "idSearchParamKey" | "parentSearchParamKey" | "sessionStorageKey"> & {
+    /**
+     * How a link opening a new tab (`target="_blank"`) tells the new tab which tab opened it (see `useTabLineage()`):
+     * - `channel`: the new tab claims the current tab as its parent over a BroadcastChannel (the URL stays clean).
+     * - `search-param`: the current tab id is handed over in the `parentSearchParamKey` query parameter.
+     * @default 'channel'
+     */
+    handoff?: "channel" | "search-param";
+  };
+
+/**
+ * A drop-in replacement for React Router's `<Link>` that carries the current tab id forward,
+ * so that the next loaders receive it without an extra navigation.
+ *
+ * The rendered `href` never carries the tab id (in the query), so that copying the link, or opening it in a new tab
+ * (ie: with a middle click), never hands the current tab id over to another tab: it is only added to the URL
+ * when the link is followed in the current tab.
+ *
+ * Links opening a new tab (`target="_blank"`) never carry a tab id, so the new tab gets its own;
+ * they hand the current tab id over instead, so that the new tab knows which tab opened it.
+ *
+ * With the `path-segment` transport (of the closest `<TabIdProvider>`), the tab id is carried in the route segment.
+ */
+export const TabLink = forwardRef<HTMLAnchorElement, TabLinkProps>((props, ref) => {
+  const config = useTabIdConfig();
+  const {
+    handoff = "channel",
+    idSearchParamKey = config.idSearchParamKey,
+    onClick,
+    parentSearchParamKey = config.parentSearchParamKey,
+    preventScrollReset,
+    relative,
+    reloadDocument,
+    replace,
+    sessionStorageKey,
+    state,
+    target,
+    to,
+    viewTransition,
+    ...linkProps
+  } = props;
+
+  const tabId = useTabIdSnapshot(sessionStorageKey);
+  const opensNewTab = target === "_blank";
+
+  // relative paths resolve against the current location (and so, its tab id segment)
+  const resolvedTo = useResolvedPath(to, { relative });
+
+  // the rendered link, and the one followed in the current tab
+  let tabTo: To;
+  let navigateTo: To;
+
+  if (config.transport.includes("path-segment")) {
+    if (opensNewTab) {
+      tabTo = isAbsoluteUrl(to) ? to : removeTabIdSegment(resolvedTo, config.pathPrefix);
+    } else {
+      tabTo = tabId === undefined ? to : addTabIdSegment(to, config.pathPrefix, tabId);
+    }
+
+    navigateTo = tabTo; // the route segment can't be left out
+  } else {
+    tabTo = removeTabId(to, idSearchParamKey);
+    navigateTo = opensNewTab || tabId === undefined ? tabTo : addTabId(to, idSearchParamKey, tabId);
+  }
+
+  if (opensNewTab && tabId !== undefined && handoff === "search-param") {
+    tabTo = addTabId(tabTo, parentSearchParamKey, tabId);
+  }
+
+  const path = createPath(useResolvedPath(tabTo, { relative }));
+  const navigateHref = useHref(navigateTo, { relative });
+  const navigateWithTabId = useLinkClickHandler(navigateTo, {
+    preventScrollReset,
+    relative,
+    replace,
+    state,
+    target,
+    viewTransition,
+  });
+
+  const handleClick = (event: React.MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(event);
+
+    if (event.defaultPrevented) {
+      return;
+    }
+
+    if (opensNewTab) {
+      if (tabId !== undefined && handoff === "channel") {
+        registerHandoff(tabId, path, [idSearchParamKey, parentSearchParamKey]);
+      }
+    } else if (!reloadDocument) {
+      navigateWithTabId(event); // ignores the clicks opening a new tab (ie: with a modifier key)
+    } else if (isPlainClick(event, target)) {
+      event.preventDefault();
+      window.location.assign(navigateHref);
+    }
+  };
+
+  return (
+    <Link
+      {...linkProps}
+      ref={ref}
+      preventScrollReset={preventScrollReset}
+      relative={relative}
+      reloadDocument={reloadDocument}
+      replace={replace}
+      state={state}
+      target={target}
+      to={tabTo}
+      viewTransition={viewTransition}
+      onClick={handleClick}
+    />
+  );
+});
+
+TabLink.displayName = "TabLink";
+
+/**
+ * Whether a click follows the link in the current tab (a left click without modifier keys).
+ */
+function isPlainClick(event: React.MouseEvent<HTMLAnchorElement>, target?: string): boolean {
+  const hasModifier = event.metaKey || event.altKey || event.ctrlKey || event.shiftKey;
+  return event.button === 0 && (!target || target === "_self") && !hasModifier;
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { addTabId, addTabIdSegment, removeTabId, removeTabIdSegment } from "./tab-path";
+
+describe("tab-path", () => {
+  describe("addTabId()", () => {
+    it("should add the tab ID to paths", () => {
+      expect(addTabId("/orders", "tid", "ab-1234")).toBe("/orders?tid=ab-1234");
+      expect(addTabId("/orders?page=2#top", "tid", "ab-1234")).toBe("/orders?page=2&tid=ab-1234#top");
+      expect(addTabId("../orders", "tid", "ab-1234")).toBe("../orders?tid=ab-1234");
+    });
+
+    it("should add the tab ID to path objects", () => {
+      expect(addTabId({ pathname: "/orders" }, "tid", "ab-1234")).toEqual({ pathname: "/orders", search: "?tid=ab-1234" });
+    });
+
+    it("should not override a tab ID set by the path", () => {
+      expect(addTabId("/orders?tid=cd-5678", "tid", "ab-1234")).toBe("/orders?tid=cd-5678");
+    });
+
+    it("should not add the tab ID to absolute URLs", () => {
+      expect(addTabId("https://example.com/", "tid", "ab-1234")).toBe("https://example.com/");
+      expect(addTabId("//example.com/", "tid", "ab-1234")).toBe("//example.com/");
+      expect(addTabId("mailto:someone@example.com", "tid", "ab-1234")).toBe("mailto:someone@example.com");
+    });
+  });
+
+  describe("removeTabId()", () => {
+    it("should remove the tab ID from paths", () => {
+      expect(removeTabId("/orders?tid=ab-1234", "tid")).toBe("/orders");
+      expect(removeTabId("/orders?page=2&tid=ab-1234#top", "tid")).toBe("/orders?page=2#top");
+      expect(removeTabId({ pathname: "/orders", search: "?tid=ab-1234" }, "tid")).toEqual({ pathname: "/orders" });
+    });
+  });
+
+  describe("addTabIdSegment()", () => {
+    it("should add the tab ID segment to absolute paths", () => {
+      expect(addTabIdSegment("/orders?page=2#top", "t", "ab-1234")).toBe("/t/ab-1234/orders?page=2#top");
+      expect(addTabIdSegment("/", "t", "ab-1234")).toBe("/t/ab-1234");
+      expect(addTabIdSegment({ pathname: "/orders" }, "t", "ab-1234")).toEqual({ pathname: "/t/ab-1234/orders" });
+    });
+
+    it("should not add the tab ID segment to relative paths", () => {
+      expect(addTabIdSegment("../orders", "t", "ab-1234")).toBe("../orders");
+      expect(addTabIdSegment({ search: "?page=2" }, "t", "ab-1234")).toEqual({ search: "?page=2" });
+    });
+
+    it("should not override a tab ID segment set by the path", () => {
+      expect(addTabIdSegment("/t/cd-5678/orders", "t", "ab-1234")).toBe("/t/cd-5678/orders");
+    });
+
+    it("should not add the tab ID segment to absolute URLs", () => {
+      expect(addTabIdSegment("https://example.com/", "t", "ab-1234")).toBe("https://example.com/");
+    });
+  });
+
+  describe("removeTabIdSegment()", () => {
+    it("should remove the tab ID segment from paths", () => {
+      expect(removeTabIdSegment("/t/ab-1234/orders?page=2", "t")).toBe("/orders?page=2");
+      expect(removeTabIdSegment("/t/ab-1234", "t")).toBe("/");
+      expect(removeTabIdSegment("/orders", "t")).toBe("/orders");
+    });
+  });
+});
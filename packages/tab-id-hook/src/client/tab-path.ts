@@ -0,0 +1,94 @@
+import type { Path, To } from "react-router";
+import { createPath, parsePath } from "react-router";
+
+import { getPathTabId, removePathTabId, setPathTabId } from "../path-segment";
+
+/**
+ * Adds the tab id to the query string of a path, unless the path already sets it.
+ * Absolute URLs (ie: links to other sites) are returned as-is.
+ *
+ * @param to The path (or partial path object) to add the tab id to.
+ * @param key The query parameter key.
+ * @param tabId The tab id.
+ * @returns The path, with the tab id.
+ */
+export function addTabId<T extends To>(to: T, key: string, tabId: string): T {
+  return updateSearchParams(to, (searchParams) => {
+    if (!searchParams.has(key)) {
+      searchParams.set(key, tabId);
+    }
+  });
+}
+
+/**
+ * Removes the tab id from the query string of a path, so that a new tab never inherits it.
+ * Absolute URLs (ie: links to other sites) are returned as-is.
+ *
+ * @param to The path (or partial path object) to remove the tab id from.
+ * @param key The query parameter key.
+ * @returns The path, without the tab id.
+ */
+export function removeTabId<T extends To>(to: T, key: string): T {
+  return updateSearchParams(to, (searchParams) => searchParams.delete(key));
+}
+
+/**
+ * Adds the tab id segment to a path (`path-segment` transport), unless the path already has one.
+ * Only absolute paths are updated: relative paths resolve against the current location, which already has it.
+ * Absolute URLs (ie: links to other sites) are returned as-is.
+ *
+ * @param to The path (or partial path object) to add the tab id to.
+ * @param prefix The route segment preceding the tab id.
+ * @param tabId The tab id.
+ * @returns The path, with the tab id.
+ */
+export function addTabIdSegment<T extends To>(to: T, prefix: string, tabId: string): T {
+  return updatePathname(to, (pathname) =>
+    getPathTabId(pathname, prefix) === undefined ? setPathTabId(pathname, prefix, tabId) : pathname,
+  );
+}
+
+/**
+ * Removes the tab id segment from a path (`path-segment` transport), so that a new tab never inherits it.
+ * Only absolute paths are updated (resolve relative paths first, see `useResolvedPath()`).
+ * Absolute URLs (ie: links to other sites) are returned as-is.
+ *
+ * @param to The path (or partial path object) to remove the tab id from.
+ * @param prefix The route segment preceding the tab id.
+ * @returns The path, without the tab id.
+ */
+export function removeTabIdSegment<T extends To>(to: T, prefix: string): T {
+  return updatePathname(to, (pathname) => removePathTabId(pathname, prefix));
+}
+
+/**
+ * Returns `true` if the path is an absolute url (ie: a link to another site), which the router doesn't resolve.
+ */
+export function isAbsoluteUrl(to: To): boolean {
+  return typeof to === "string" && /^([a-z][a-z\d+\-.]*:|\/\/)/i.test(to);
+}
+
+function updateSearchParams<T extends To>(to: T, update: (searchParams: URLSearchParams) => void): T {
+  return updatePath(to, (path) => {
+    const searchParams = new URLSearchParams(path.search);
+    update(searchParams);
+
+    const search = searchParams.toString();
+    return { ...path, search: search === "" ? undefined : `?${search}` };
+  });
+}
+
+function updatePathname<T extends To>(to: T, update: (pathname: string) => string): T {
+  return updatePath(to, (path) => (path.pathname?.startsWith("/") ? { ...path, pathname: update(path.pathname) } : path));
+}
+
+function updatePath<T extends To>(to: T, update: (path: Partial<Path>) => Partial<Path>): T {
+  if (isAbsoluteUrl(to)) {
+    return to;
+  }
+
+  const path = typeof to === "string" ? parsePath(to) : { ...(to as Partial<Path>) };
+  const updatedPath = update(path);
+
+  return (typeof to === "string" ? createPath(updatedPath) : updatedPath) as T;
+}
@@ -0,0 +1,101 @@
+import "fake-indexeddb/auto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  cleanupTabScopedStorage,
+  createIndexedDbBackend,
+  createLocalStorageBackend,
+  TabScopedValueDecodeError,
+} from "./tab-scoped-storage";
+
+describe("tab-scoped-storage", () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    window.sessionStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("createLocalStorageBackend()", () => {
+    it("should store JSON-encoded values", async () => {
+      const backend = createLocalStorageBackend();
+
+      await backend.setItem("key", { draft: "hello" });
+      expect(window.localStorage.getItem("key")).toBe('{"draft":"hello"}');
+      await expect(backend.getItem("key")).resolves.toEqual({ draft: "hello" });
+      await expect(backend.keys()).resolves.toEqual(["key"]);
+
+      await backend.removeItem("key");
+      await expect(backend.getItem("key")).resolves.toBeUndefined();
+    });
+
+    it("should use a custom codec and storage", async () => {
+      const codec = { stringify: (value: unknown) => `custom:${String(value)}`, parse: (text: string) => text.slice(7) };
+      const backend = createLocalStorageBackend({ codec, storage: window.sessionStorage });
+
+      await backend.setItem("key", "value");
+      expect(window.sessionStorage.getItem("key")).toBe("custom:value");
+      await expect(backend.getItem("key")).resolves.toBe("value");
+    });
+
+    it("should reject values that can't be decoded", async () => {
+      window.localStorage.setItem("key", "not json");
+
+      await expect(createLocalStorageBackend().getItem("key")).rejects.toBeInstanceOf(TabScopedValueDecodeError);
+    });
+  });
+
+  // jsdom doesn't implement IndexedDB: `fake-indexeddb` does
+  describe("createIndexedDbBackend()", () => {
+    it("should store structured clones", async () => {
+      const backend = createIndexedDbBackend({ databaseName: "tab-scoped-storage-test" });
+      const value = { savedAt: new Date(0), tags: new Set(["a"]) };
+
+      await backend.setItem("key", value);
+      await expect(backend.getItem("key")).resolves.toEqual(value);
+      await expect(backend.keys()).resolves.toEqual(["key"]);
+
+      await backend.removeItem("key");
+      await expect(backend.getItem("key")).resolves.toBeUndefined();
+    });
+  });
+
+  describe("cleanupTabScopedStorage()", () => {
+    it("should delete the values of tabs whose lease has expired", async () => {
+      vi.useFakeTimers({ now: 100_000, toFake: ["Date"] });
+      window.sessionStorage.setItem("tab-id", "cu-1234");
+
+      window.localStorage.setItem("tab-scoped:al-1234", "99000"); // alive: renewed a second ago
+      window.localStorage.setItem("tab-scoped:al-1234:draft", '"alive"');
+      window.localStorage.setItem("tab-scoped:cl-5678", "1000"); // closed: not renewed for a while
+      window.localStorage.setItem("tab-scoped:cl-5678:draft", '"closed"');
+      window.localStorage.setItem("tab-scoped:no-9012:draft", '"no lease"');
+      window.localStorage.setItem("tab-scoped:cu-1234:draft", '"current"'); // no lease yet, but the current tab
+      window.localStorage.setItem("unrelated", '"unrelated"');
+
+      const removed = await cleanupTabScopedStorage({ maxAge: 10_000 });
+
+      expect(removed.sort()).toEqual(["cl-5678", "no-9012"]);
+      expect(Object.keys(window.localStorage).sort()).toEqual([
+        "tab-scoped:al-1234",
+        "tab-scoped:al-1234:draft",
+        "tab-scoped:cu-1234:draft",
+        "unrelated",
+      ]);
+    });
+
+    it("should only clean up its namespace", async () => {
+      window.localStorage.setItem("other:cl-5678:draft", '"closed"');
+
+      await expect(cleanupTabScopedStorage()).resolves.toEqual([]);
+      await expect(cleanupTabScopedStorage({ namespace: "other" })).resolves.toEqual(["cl-5678"]);
+    });
+
+    it("should decode tab IDs", async () => {
+      window.localStorage.setItem("tab-scoped:ab-1234.sig%3Anature:draft", '"closed"');
+
+      await expect(cleanupTabScopedStorage()).resolves.toEqual(["ab-1234.sig:nature"]);
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import { SESSION_STORAGE_KEY, TAB_SCOPED_STORAGE_NAMESPACE } from "../defaults";
+import { parseStorageKey, toStorageKey } from "./tab-scoped-values";
+
+/**
+ * Where the values of `useTabScopedStorage()` are kept (ie: `localStorage` or IndexedDB).
+ * Keys are namespaced by the hook; backends store values as-is.
+ */
+export type TabScopedStorageBackend = {
+  /**
+   * Returns the value of a key, or `undefined` if there is none.
+   */
+  getItem(key: string): Promise<unknown>;
+  /**
+   * Creates or replaces the value of a key.
+   */
+  setItem(key: string, value: unknown): Promise<void>;
+  /**
+   * Deletes the value of a key (if any).
+   */
+  removeItem(key: string): Promise<void>;
+  /**
+   * Lists every key of the backend.
+   */
+  keys(): Promise<string[]>;
+};
+
+/**
+ * Converts values to (and from) strings, for backends that can only store strings. `JSON` is a valid codec.
+ */
+export type TabScopedStorageCodec = {
+  stringify(value: unknown): string;
+  parse(text: string): unknown;
+};
+
+/**
+ * Configuration options for `createLocalStorageBackend()`.
+ */
+export type LocalStorageBackendOptions = {
+  /**
+   * How values are converted to strings.
+   * @default JSON
+   */
+  codec?: TabScopedStorageCodec;
+  /**
+   * The storage holding the values.
+   * @default window.localStorage
+   */
+  storage?: Storage;
+};
+
+/**
+ * Configuration options for `createIndexedDbBackend()`.
+ */
+export type IndexedDbBackendOptions = {
+  /**
+   * The database holding the values. It is created if it doesn't exist.
+   * @default 'tab-id'
+   */
+  databaseName?: string;
+  /**
+   * The object store holding the values (created along with the database).
+   * @default 'tab-scoped-storage'
+   */
+  storeName?: string;
+};
+
+/**
+ * Configuration options for `cleanupTabScopedStorage()`.
+ */
+export type CleanupTabScopedStorageOptions = {
+  /**
+   * The backend to clean up.
+   * @default createLocalStorageBackend()
+   */
+  backend?: TabScopedStorageBackend;
+  /**
+   * How long (in milliseconds) a tab can go without renewing its lease before its values are deleted.
+   * Tabs renew their lease every minute while they render a `useTabScopedStorage()` hook.
+   * @default 86400000 (24 hours)
+   */
+  maxAge?: number;
+  /**
+   * The namespace of the keys (see `useTabScopedStorage()`).
+   * @default 'tab-scoped'
+   */
+  namespace?: string;
+  /**
+   * The session storage key used for persisting the tab id. The current tab's values are never deleted.
+   * @default 'tab-id'
+   */
+  sessionStorageKey?: string;
+};
+
+/**
+ * The error thrown by a backend when a stored value can't be decoded (ie: it was encoded with another codec).
+ * `useTabScopedStorage()` then starts over from its default value, while other read failures (ie: I/O errors)
+ * leave the stored value untouched.
+ */
+export class TabScopedValueDecodeError extends Error {
+  constructor(
+    readonly key: string,
+    options?: ErrorOptions,
+  ) {
+    super(`The value of ${key} can't be decoded`, options);
+    this.name = "TabScopedValueDecodeError";
+  }
+}
+
+/**
+ * The default time (in milliseconds) a tab can go without renewing its lease.
+ */
+const DEFAULT_MAX_AGE = 24 * 60 * 60 * 1000;
+
+/**
+ * Creates a backend that keeps the values in `localStorage` (or any other `Storage`), encoded with a codec.
+ * Values are shared by every tab of the origin (but namespaced by tab ID), and survive browser restarts.
+ * Values that the codec fails to parse are rejected with a `TabScopedValueDecodeError`.
+ *
+ * @param options Configuration options.
+ */
+export function createLocalStorageBackend(options?: LocalStorageBackendOptions): TabScopedStorageBackend {
+  const { codec = JSON, storage } = options ?? {};
+
+  // resolved lazily, so that the backend can be created during server-side rendering
+  const getStorage = () => storage ?? window.localStorage;
+
+  return {
+    getItem: async (key) => {
+      const text = getStorage().getItem(key);
+
+      try {
+        return text === null ? undefined : codec.parse(text);
+      } catch (error) {
+        throw new TabScopedValueDecodeError(key, { cause: error });
+      }
+    },
+    setItem: async (key, value) => {
+      getStorage().setItem(key, codec.stringify(value));
+    },
+    removeItem: async (key) => {
+      getStorage().removeItem(key);
+    },
+    keys: async () => Array.from({ length: getStorage().length }, (_, index) => getStorage().key(index) ?? ""),
+  };
+}
+
+/**
+ * Creates a backend that keeps the values in IndexedDB. Values are stored as structured clones
+ * (so they can hold dates, maps, blobs, etc.), and the storage quota is much larger than `localStorage`'s.
+ *
+ * @param options Configuration options.
+ */
+export function createIndexedDbBackend(options?: IndexedDbBackendOptions): TabScopedStorageBackend {
+  const { databaseName = "tab-id", storeName = "tab-scoped-storage" } = options ?? {};
+
+  let database: Promise<IDBDatabase> | undefined;
+
+  const open = () => {
+    database ??= new Promise((resolve, reject) => {
+      const request = window.indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    return database;
+  };
+
+  const run = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const store = (await open()).transaction(storeName, mode).objectStore(storeName);
+
+    return await new Promise<T>((resolve, reject) => {
+      const request = operation(store);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    getItem: async (key) => await run("readonly", (store) => store.get(key)),
+    setItem: async (key, value) => {
+      await run("readwrite", (store) => store.put(value, key));
+    },
+    removeItem: async (key) => {
+      await run("readwrite", (store) => store.delete(key));
+    },
+    keys: async () => (await run("readonly", (store) => store.getAllKeys())).map(String),
+  };
+}
+
+/**
+ * Deletes the values of the tabs that are no longer alive (ie: closed tabs).
+ *
+ * Browsers don't tell the other tabs when a tab is closed, so every tab holds a lease, renewed while it renders
+ * a `useTabScopedStorage()` hook; the values of tabs whose lease has expired are deleted.
+ * The hook runs this function once per document, so it only needs to be called directly by pages that don't use the hook.
+ *
+ * @param options Configuration options.
+ * @returns The IDs of the tabs whose values were deleted.
+ */
+export async function cleanupTabScopedStorage(options?: CleanupTabScopedStorageOptions): Promise<string[]> {
+  const {
+    backend = createLocalStorageBackend(),
+    maxAge = DEFAULT_MAX_AGE,
+    namespace = TAB_SCOPED_STORAGE_NAMESPACE,
+    sessionStorageKey = SESSION_STORAGE_KEY,
+  } = options ?? {};
+
+  const currentTabId = window.sessionStorage.getItem(sessionStorageKey);
+  const keysByTabId = new Map<string, string[]>();
+
+  for (const key of await backend.keys()) {
+    const parsed = parseStorageKey(namespace, key);
+
+    if (parsed !== undefined && parsed.tabId !== currentTabId) {
+      keysByTabId.set(parsed.tabId, [...(keysByTabId.get(parsed.tabId) ?? []), key]);
+    }
+  }
+
+  const expiry = Date.now() - maxAge;
+  const orphanedTabIds: string[] = [];
+
+  for (const [tabId, keys] of keysByTabId) {
+    const lease = await backend.getItem(toStorageKey(namespace, tabId));
+
+    if (typeof lease !== "number" || lease < expiry) {
+      await Promise.all(keys.map((key) => backend.removeItem(key)));
+      orphanedTabIds.push(tabId);
+    }
+  }
+
+  return orphanedTabIds;
+}
@@ -0,0 +1,205 @@
+import type { TabScopedStorageBackend } from "./tab-scoped-storage";
+import { TabScopedValueDecodeError } from "./tab-scoped-storage";
+
+/**
+ * How often (in milliseconds) a tab renews its lease while it renders a `useTabScopedStorage()` hook.
+ */
+const LEASE_INTERVAL = 60_000;
+
+/**
+ * A value held in memory, shared by every `useTabScopedStorage()` hook of the document using the same backend and key.
+ */
+type CachedValue = {
+  value: unknown;
+  /** Settles once the value was loaded from the backend and every pending update was applied. */
+  pending: Promise<void>;
+  /** Whether the value couldn't be read (other than decoded), in which case it must not be overwritten. */
+  unreadable: boolean;
+  listeners: Set<() => void>;
+};
+
+/**
+ * A lease held by the current tab, renewed while at least one hook holds it.
+ */
+type Lease = {
+  holders: number;
+  timer: ReturnType<typeof setInterval>;
+};
+
+//
+// The cache is shared by every `useTabScopedStorage()` hook of the document, so that values outlive
+// the React tree that rendered them (and are only loaded once).
+//
+
+const caches = new WeakMap<TabScopedStorageBackend, Map<string, CachedValue>>();
+const leases = new WeakMap<TabScopedStorageBackend, Map<string, Lease>>();
+const cleanups = new WeakMap<TabScopedStorageBackend, Set<string>>();
+
+/**
+ * Returns the backend key of a tab's value, or of the tab's lease (when `key` is omitted).
+ * Tab IDs are encoded, so that they never contain the `:` separator.
+ */
+export function toStorageKey(namespace: string, tabId: string, key?: string): string {
+  const tabKey = `${namespace}:${encodeURIComponent(tabId)}`;
+  return key === undefined ? tabKey : `${tabKey}:${key}`;
+}
+
+/**
+ * Parses a backend key built by `toStorageKey()`.
+ *
+ * @returns The tab ID and key (`undefined` for a lease), or `undefined` if the key belongs to another namespace.
+ */
+export function parseStorageKey(namespace: string, storageKey: string): { tabId: string; key?: string } | undefined {
+  if (!storageKey.startsWith(`${namespace}:`)) {
+    return undefined;
+  }
+
+  const [tabId = "", ...key] = storageKey.slice(namespace.length + 1).split(":");
+  return key.length === 0 ? { tabId: decodeURIComponent(tabId) } : { tabId: decodeURIComponent(tabId), key: key.join(":") };
+}
+
+/**
+ * Subscribes to changes of a value, loading it from the backend first if needed (reporting a failing read to `onError`).
+ *
+ * This function serves as the `subscribe` callback for `useSyncExternalStore()`.
+ *
+ * @returns A cleanup function that unsubscribes.
+ */
+export function subscribeToValue(
+  backend: TabScopedStorageBackend,
+  storageKey: string,
+  listener: () => void,
+  onError: (error: unknown) => void,
+): () => void {
+  const { listeners } = getCachedValue(backend, storageKey, onError);
+
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Returns the value currently held in memory (`undefined` until it is loaded).
+ *
+ * This function serves as the `getSnapshot` callback for `useSyncExternalStore()`.
+ */
+export function getValueSnapshot(backend: TabScopedStorageBackend, storageKey: string): unknown {
+  return caches.get(backend)?.get(storageKey)?.value;
+}
+
+/**
+ * Replaces a value with the result of `updater` (called with the current value once it is loaded),
+ * notifies every subscriber, and writes the new value to the backend. A value of `undefined` is removed.
+ *
+ * A failing update (its updater, or the write, ie: a `QuotaExceededError`) is reported to `onError`,
+ * and the next updates still apply. Values that couldn't be read (other than decoded) are never updated,
+ * so that the stored value isn't overwritten.
+ */
+export function updateValue(
+  backend: TabScopedStorageBackend,
+  storageKey: string,
+  updater: (current: unknown) => unknown,
+  onError: (error: unknown) => void,
+): void {
+  const cachedValue = getCachedValue(backend, storageKey, onError);
+
+  const update = async () => {
+    if (cachedValue.unreadable) {
+      throw new Error(`The value of ${storageKey} couldn't be read, so it isn't updated`);
+    }
+
+    const value = updater(cachedValue.value);
+
+    if (value !== cachedValue.value) {
+      cachedValue.value = value;
+      cachedValue.listeners.forEach((listener) => listener());
+      await (value === undefined ? backend.removeItem(storageKey) : backend.setItem(storageKey, value));
+    }
+  };
+
+  // updates are applied (and written) in order, and never before the value is loaded
+  cachedValue.pending = cachedValue.pending.then(update).catch(onError);
+}
+
+/**
+ * Holds the current tab's lease, renewing it until released. Tabs whose lease has expired
+ * are considered closed by `cleanupTabScopedStorage()`.
+ *
+ * @returns A cleanup function that releases the lease (which then stops being renewed).
+ */
+export function holdLease(
+  backend: TabScopedStorageBackend,
+  namespace: string,
+  tabId: string,
+  onError: (error: unknown) => void,
+): () => void {
+  const leaseKey = toStorageKey(namespace, tabId);
+  const backendLeases = leases.get(backend) ?? new Map<string, Lease>();
+  leases.set(backend, backendLeases);
+
+  const renew = () => void backend.setItem(leaseKey, Date.now()).catch(onError);
+  const lease = backendLeases.get(leaseKey) ?? { holders: 0, timer: setInterval(renew, LEASE_INTERVAL) };
+
+  if (lease.holders === 0) {
+    renew();
+  }
+
+  lease.holders++;
+  backendLeases.set(leaseKey, lease);
+
+  return () => {
+    if (--lease.holders === 0) {
+      clearInterval(lease.timer);
+      backendLeases.delete(leaseKey);
+    }
+  };
+}
+
+/**
+ * Runs `cleanup` once per document for each backend and namespace, reporting its failure to `onError`.
+ */
+export function cleanupOnce(
+  backend: TabScopedStorageBackend,
+  namespace: string,
+  cleanup: () => Promise<unknown>,
+  onError: (error: unknown) => void,
+): void {
+  const namespaces = cleanups.get(backend) ?? new Set<string>();
+  cleanups.set(backend, namespaces);
+
+  if (!namespaces.has(namespace)) {
+    namespaces.add(namespace);
+    cleanup().catch(onError);
+  }
+}
+
+function getCachedValue(backend: TabScopedStorageBackend, storageKey: string, onError: (error: unknown) => void): CachedValue {
+  const cache = caches.get(backend) ?? new Map<string, CachedValue>();
+  caches.set(backend, cache);
+
+  let cachedValue = cache.get(storageKey);
+
+  if (cachedValue === undefined) {
+    const newValue: CachedValue = { value: undefined, pending: Promise.resolve(), unreadable: false, listeners: new Set() };
+
+    newValue.pending = backend
+      .getItem(storageKey)
+      .then(
+        (value) => {
+          newValue.value = value;
+        },
+        (error: unknown) => {
+          onError(error);
+
+          // a value that can't be decoded (ie: encoded with another codec) starts over,
+          // but one that can't be read (ie: an I/O error) is kept as it is
+          newValue.unreadable = !(error instanceof TabScopedValueDecodeError);
+        },
+      )
+      .then(() => newValue.listeners.forEach((listener) => listener()));
+
+    cachedValue = newValue;
+    cache.set(storageKey, cachedValue);
+  }
+
+  return cachedValue;
+}
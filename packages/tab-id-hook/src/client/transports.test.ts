@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { installFormFieldTransport, installHeaderTransport } from "./transports";
+
+describe("transports", () => {
+  describe("installHeaderTransport()", () => {
+    const originalFetch = window.fetch;
+    const fetchMock = vi.fn(async (_input: RequestInfo | URL, _init?: RequestInit) => new Response());
+
+    /**
+     * Returns the request passed to the (mocked) original fetch() function.
+     */
+    const getFetchedRequest = () => new Request(...(fetchMock.mock.lastCall ?? ["about:blank"]));
+
+    beforeEach(() => {
+      fetchMock.mockClear();
+      window.fetch = fetchMock;
+    });
+
+    afterEach(() => {
+      window.fetch = originalFetch;
+    });
+
+    it("should add the header to same-origin requests", async () => {
+      const uninstall = installHeaderTransport("ab-1234", "X-Tab-Id");
+
+      await window.fetch("/orders.data?_routes=routes/orders");
+      expect(getFetchedRequest().headers.get("X-Tab-Id")).toBe("ab-1234");
+
+      await window.fetch(new Request(`${window.location.origin}/orders.data`, { method: "POST" }));
+      expect(getFetchedRequest().headers.get("X-Tab-Id")).toBe("ab-1234");
+      expect(getFetchedRequest().method).toBe("POST");
+
+      uninstall();
+    });
+
+    it("should not add the header to cross-origin requests", async () => {
+      const uninstall = installHeaderTransport("ab-1234", "X-Tab-Id");
+
+      await window.fetch("https://example.com/api.data");
+      expect(getFetchedRequest().headers.has("X-Tab-Id")).toBe(false);
+
+      uninstall();
+    });
+
+    it("should only add the header to the requests matched by the filter", async () => {
+      const uninstall = installHeaderTransport("ab-1234", "X-Tab-Id");
+
+      await window.fetch(`${window.location.origin}/api/orders`);
+      expect(getFetchedRequest().headers.has("X-Tab-Id")).toBe(false);
+
+      uninstall();
+
+      const uninstallFiltered = installHeaderTransport("ab-1234", "X-Tab-Id", (url) => url.pathname.startsWith("/api/"));
+
+      await window.fetch(`${window.location.origin}/api/orders`);
+      expect(getFetchedRequest().headers.get("X-Tab-Id")).toBe("ab-1234");
+
+      await window.fetch(`${window.location.origin}/orders.data`);
+      expect(getFetchedRequest().headers.has("X-Tab-Id")).toBe(false);
+
+      uninstallFiltered();
+    });
+
+    it("should not override a header set by the caller", async () => {
+      const uninstall = installHeaderTransport("ab-1234", "X-Tab-Id");
+
+      await window.fetch("/orders.data", { headers: { "X-Tab-Id": "cd-5678" } });
+      expect(getFetchedRequest().headers.get("X-Tab-Id")).toBe("cd-5678");
+
+      uninstall();
+    });
+
+    it("should restore the original fetch() when uninstalled", async () => {
+      const uninstall = installHeaderTransport("ab-1234", "X-Tab-Id");
+      expect(window.fetch).not.toBe(fetchMock);
+
+      uninstall();
+      expect(window.fetch).toBe(fetchMock);
+    });
+
+    it("should stop adding the header when uninstalled after fetch() was wrapped again", async () => {
+      const uninstall = installHeaderTransport("ab-1234", "X-Tab-Id");
+      const uninstallOther = installHeaderTransport("cd-5678", "X-Other-Tab-Id");
+
+      uninstall();
+      await window.fetch("/orders.data");
+
+      expect(getFetchedRequest().headers.has("X-Tab-Id")).toBe(false);
+      expect(getFetchedRequest().headers.get("X-Other-Tab-Id")).toBe("cd-5678");
+
+      uninstallOther();
+    });
+  });
+
+  describe("installFormFieldTransport()", () => {
+    /**
+     * Submits a form, returning the submitted form data.
+     */
+    const submit = (form: HTMLFormElement) => {
+      let formData: FormData | undefined;
+
+      form.addEventListener("submit", (event) => {
+        event.preventDefault();
+        formData = new FormData(form);
+      });
+
+      form.requestSubmit();
+      return formData;
+    };
+
+    const createForm = (action = "/orders") => {
+      const form = document.createElement("form");
+      form.action = action;
+      document.body.appendChild(form);
+      return form;
+    };
+
+    afterEach(() => {
+      document.body.innerHTML = "";
+    });
+
+    it("should add a hidden field to same-origin form submissions", () => {
+      const uninstall = installFormFieldTransport("ab-1234", "tid");
+
+      const formData = submit(createForm());
+      expect(formData?.get("tid")).toBe("ab-1234");
+
+      uninstall();
+    });
+
+    it("should not add the field to cross-origin form submissions", () => {
+      const uninstall = installFormFieldTransport("ab-1234", "tid");
+
+      const formData = submit(createForm("https://example.com/search"));
+      expect(formData?.has("tid")).toBe(false);
+
+      uninstall();
+    });
+
+    it("should not override a field set by the form", () => {
+      const uninstall = installFormFieldTransport("ab-1234", "tid");
+
+      const form = createForm();
+      form.innerHTML = `<input type="hidden" name="tid" value="cd-5678" />`;
+
+      expect(submit(form)?.getAll("tid")).toEqual(["cd-5678"]);
+
+      uninstall();
+    });
+
+    it("should update the field added by a previous submission", () => {
+      const form = createForm();
+
+      const uninstall = installFormFieldTransport("ab-1234", "tid");
+      submit(form);
+      uninstall();
+
+      const uninstallNew = installFormFieldTransport("cd-5678", "tid");
+      expect(submit(form)?.getAll("tid")).toEqual(["cd-5678"]);
+      uninstallNew();
+    });
+
+    it("should stop adding the field when uninstalled", () => {
+      const uninstall = installFormFieldTransport("ab-1234", "tid");
+      uninstall();
+
+      expect(submit(createForm())?.has("tid")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * The ways the tab ID can be sent to the server:
+ *
+ * - `search-param`: as a query parameter in the URL (ie: `?tid=ab-1234`).
+ * - `header`: as an HTTP header on React Router's data requests (loaders, actions and fetchers), see `installHeaderTransport()`.
+ * - `form-field`: as a hidden field added to every same-origin form submission.
+ * - `path-segment`: as a route segment of the URL (ie: `/t/ab-1234/orders`, see `tabIdRoutes()`).
+ */
+export type TabIdTransport = "search-param" | "header" | "form-field" | "path-segment";
+
+/**
+ * Marks the hidden inputs added by the `form-field` transport.
+ */
+const INJECTED_INPUT_ATTRIBUTE = "data-tab-id-input";
+
+/**
+ * Adds the tab ID as an HTTP header to same-origin `fetch()` requests (unless the request already sets it).
+ *
+ * React Router performs its client-side data requests (loaders, actions and fetchers) with the global `fetch()`,
+ * so `fetch()` is wrapped while the transport is installed. Only the requests matched by `filter` carry the header:
+ * by default, React Router's data requests (`/orders.data`), so that the application's own `fetch()` calls don't.
+ *
+ * @param id The tab ID to send.
+ * @param headerName The name of the header.
+ * @param filter Whether a same-origin request (given its URL) carries the header.
+ * @returns A cleanup function that uninstalls the transport.
+ */
+export function installHeaderTransport(
+  id: string,
+  headerName: string,
+  filter: (url: URL) => boolean = isDataRequest,
+): () => void {
+  const originalFetch = window.fetch;
+  let active = true;
+
+  const fetchWithTabId: typeof window.fetch = (input, init) => {
+    // resolve relative urls against the document (not every Request implementation does)
+    const url = new URL(input instanceof Request ? input.url : input.toString(), window.location.href);
+
+    if (!active || url.origin !== window.location.origin || !filter(url)) {
+      return originalFetch(input, init);
+    }
+
+    const request = new Request(input instanceof Request ? input : url, init);
+
+    if (!request.headers.has(headerName)) {
+      request.headers.set(headerName, id);
+    }
+
+    return originalFetch(request);
+  };
+
+  window.fetch = fetchWithTabId;
+
+  return () => {
+    active = false;
+
+    // only restore the original fetch() if nothing else wrapped it in the meantime
+    if (window.fetch === fetchWithTabId) {
+      window.fetch = originalFetch;
+    }
+  };
+}
+
+/**
+ * Adds the tab ID as a hidden field to every same-origin form submission (unless the form already has the field).
+ *
+ * The field is added during the capture phase of the `submit` event, before React (and React Router's `<Form>`)
+ * handles the submission, so it is part of the submitted form data.
+ *
+ * @param id The tab ID to send.
+ * @param fieldName The name of the form field.
+ * @returns A cleanup function that uninstalls the transport.
+ */
+export function installFormFieldTransport(id: string, fieldName: string): () => void {
+  const handler = ({ target }: SubmitEvent): void => {
+    if (!(target instanceof HTMLFormElement) || !isSameOrigin(target.action)) {
+      return;
+    }
+
+    const field = target.elements.namedItem(fieldName);
+
+    if (field === null) {
+      const input = document.createElement("input");
+      input.type = "hidden";
+      input.name = fieldName;
+      input.value = id;
+      input.setAttribute(INJECTED_INPUT_ATTRIBUTE, "");
+      target.appendChild(input);
+    } else if (field instanceof HTMLInputElement && field.hasAttribute(INJECTED_INPUT_ATTRIBUTE)) {
+      field.value = id; // a field added by a previous submission
+    }
+  };
+
+  document.addEventListener("submit", handler, { capture: true });
+  return () => document.removeEventListener("submit", handler, { capture: true });
+}
+
+/**
+ * Whether a request is one of React Router's data requests (see `singleFetchUrl()` in React Router),
+ * ie: `/orders.data` for the loaders of `/orders`, or `/_root.data` for the loaders of `/`.
+ */
+function isDataRequest(url: URL): boolean {
+  return url.pathname.endsWith(".data");
+}
+
+function isSameOrigin(url: string): boolean {
+  return new URL(url, window.location.href).origin === window.location.origin;
+}
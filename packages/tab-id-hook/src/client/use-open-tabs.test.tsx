@@ -0,0 +1,139 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import React from "react";
+import { MemoryRouter } from "react-router";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { HEARTBEAT_INTERVAL, HIDDEN_PRESENCE_TIMEOUT, PRESENCE_TIMEOUT } from "./presence";
+import { useOpenTabs } from "./use-open-tabs";
+
+describe("use-open-tabs()", () => {
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <MemoryRouter initialEntries={["/orders/123"]}>{children}</MemoryRouter>
+  );
+
+  let otherTab: BroadcastChannel;
+  let otherTabMessages: ReturnType<typeof vi.fn<(data: unknown) => void>>;
+
+  /**
+   * Sends a presence message on behalf of another tab.
+   */
+  const postFromOtherTab = (type: string, pathname = "/orders/123", visibility = "hidden") => {
+    otherTab.postMessage({ type, instanceId: "other", tabId: "ot-1234", pathname, visibility });
+  };
+
+  beforeEach(() => {
+    window.sessionStorage.clear();
+    window.sessionStorage.setItem("tab-id", "cu-1234");
+
+    otherTabMessages = vi.fn();
+    otherTab = new BroadcastChannel("tab-id:presence");
+    otherTab.onmessage = ({ data }) => otherTabMessages(data);
+  });
+
+  afterEach(() => {
+    otherTab.close();
+    vi.useRealTimers();
+  });
+
+  describe("useOpenTabs()", () => {
+    it("should include the current tab", async () => {
+      const { result, unmount } = renderHook(() => useOpenTabs(), { wrapper });
+
+      await waitFor(() =>
+        expect(result.current).toEqual([expect.objectContaining({ tabId: "cu-1234", pathname: "/orders/123", current: true })]),
+      );
+
+      unmount();
+    });
+
+    it("should announce the current tab to the other tabs", async () => {
+      const { unmount } = renderHook(() => useOpenTabs(), { wrapper });
+
+      await waitFor(() =>
+        expect(otherTabMessages).toHaveBeenCalledWith(
+          expect.objectContaining({ type: "hello", tabId: "cu-1234", pathname: "/orders/123" }),
+        ),
+      );
+
+      unmount();
+      await waitFor(() => expect(otherTabMessages).toHaveBeenCalledWith(expect.objectContaining({ type: "goodbye" })));
+    });
+
+    it("should track the other tabs", async () => {
+      const { result, unmount } = renderHook(() => useOpenTabs(), { wrapper });
+
+      act(() => postFromOtherTab("hello"));
+
+      await waitFor(() =>
+        expect(result.current).toContainEqual({
+          tabId: "ot-1234",
+          pathname: "/orders/123",
+          visibility: "hidden",
+          lastSeen: expect.any(Number),
+          current: false,
+        }),
+      );
+
+      // the current tab replies to newcomers
+      await waitFor(() =>
+        expect(otherTabMessages).toHaveBeenCalledWith(expect.objectContaining({ type: "announce", tabId: "cu-1234" })),
+      );
+
+      act(() => postFromOtherTab("announce", "/orders/456"));
+      await waitFor(() => expect(result.current).toContainEqual(expect.objectContaining({ pathname: "/orders/456" })));
+
+      act(() => postFromOtherTab("goodbye"));
+      await waitFor(() => expect(result.current).toHaveLength(1));
+
+      unmount();
+    });
+
+    it("should remove tabs that stopped sending heartbeats", async () => {
+      vi.useFakeTimers({ toFake: ["setInterval", "clearInterval", "Date"] });
+
+      const { result, unmount } = renderHook(() => useOpenTabs(), { wrapper });
+
+      // waitFor() polls using setInterval(), which is faked here: wait for the message with a (real) timeout instead
+      act(() => postFromOtherTab("announce", "/orders/123", "visible"));
+      await act(() => new Promise((resolve) => setTimeout(resolve, 50)));
+      expect(result.current).toHaveLength(2);
+
+      act(() => vi.advanceTimersByTime(PRESENCE_TIMEOUT + HEARTBEAT_INTERVAL));
+      expect(result.current).toHaveLength(1);
+      expect(result.current[0]?.current).toBe(true);
+
+      unmount();
+    });
+
+    it("should wait longer for hidden tabs, whose timers are throttled", async () => {
+      vi.useFakeTimers({ toFake: ["setInterval", "clearInterval", "Date"] });
+
+      const { result, unmount } = renderHook(() => useOpenTabs(), { wrapper });
+
+      act(() => postFromOtherTab("announce", "/orders/123", "hidden"));
+      await act(() => new Promise((resolve) => setTimeout(resolve, 50)));
+
+      act(() => vi.advanceTimersByTime(PRESENCE_TIMEOUT + HEARTBEAT_INTERVAL));
+      expect(result.current).toHaveLength(2);
+
+      act(() => vi.advanceTimersByTime(HIDDEN_PRESENCE_TIMEOUT));
+      expect(result.current).toHaveLength(1);
+
+      unmount();
+    });
+
+    it("should refresh the other tabs when the current tab becomes visible again", async () => {
+      const { unmount } = renderHook(() => useOpenTabs(), { wrapper });
+      await waitFor(() => expect(otherTabMessages).toHaveBeenCalledWith(expect.objectContaining({ type: "hello" })));
+      otherTabMessages.mockClear();
+
+      act(() => document.dispatchEvent(new Event("visibilitychange")));
+
+      // jsdom documents are always visible
+      await waitFor(() =>
+        expect(otherTabMessages).toHaveBeenCalledWith(expect.objectContaining({ type: "hello", tabId: "cu-1234" })),
+      );
+
+      unmount();
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { useEffect, useSyncExternalStore } from "react";
+
+import { useLocation } from "react-router";
+import type { OpenTab } from "./presence";
+import { getOpenTabsSnapshot, setCurrentTab, subscribeToOpenTabs } from "./presence";
+import { useTabIdSnapshot } from "./tab-id-context";
+import type { UseTabIdOptions } from "./use-tab-id";
+
+export type { OpenTab } from "./presence";
+
+/**
+ * Configuration options for the `useOpenTabs` hook.
+ */
+export type UseOpenTabsOptions = Pick<UseTabIdOptions, "sessionStorageKey">;
+
+/**
+ * The list returned during server-side rendering (no tabs are known on the server).
+ */
+const NO_OPEN_TABS: OpenTab[] = [];
+
+/**
+ * React hook that returns every open tab of the application in the current browser.
+ *
+ * - Tabs announce themselves (tab id, pathname and visibility) over a BroadcastChannel and send periodic heartbeats.
+ * - Tabs that are closed, or that stop sending heartbeats, are removed from the list.
+ * - Uses `useSyncExternalStore` to re-render whenever the list changes.
+ *
+ * @param options Configuration options for customizing behavior.
+ * @returns The open tabs, including the current tab (flagged with `current: true`). Empty during server-side rendering.
+ */
+export function useOpenTabs(options?: UseOpenTabsOptions): OpenTab[] {
+  const { sessionStorageKey } = options ?? {};
+
+  const { pathname } = useLocation();
+  const tabId = useTabIdSnapshot(sessionStorageKey);
+
+  const openTabs = useSyncExternalStore(subscribeToOpenTabs, getOpenTabsSnapshot, () => NO_OPEN_TABS);
+
+  //
+  // Announce the current tab's state to the other tabs
+  //
+
+  useEffect(() => {
+    if (tabId !== undefined) {
+      setCurrentTab(tabId, pathname);
+    }
+  }, [tabId, pathname]);
+
+  return openTabs;
+}
@@ -0,0 +1,197 @@
+import { renderHook, waitFor } from "@testing-library/react";
+import React from "react";
+import { MemoryRouter } from "react-router";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TabChannelTimeoutError, useTabChannel } from "./use-tab-channel";
+
+describe("use-tab-channel()", () => {
+  const wrapper = ({ children }: { children: React.ReactNode }) => <MemoryRouter>{children}</MemoryRouter>;
+
+  let otherTab: BroadcastChannel;
+  let otherTabMessages: ReturnType<typeof vi.fn<(data: unknown) => void>>;
+
+  /**
+   * Sends a message on behalf of another tab (`ot-1234`).
+   */
+  const postFromOtherTab = (message: object) => {
+    otherTab.postMessage({ instanceId: "other", from: "ot-1234", ...message });
+  };
+
+  beforeEach(() => {
+    window.sessionStorage.clear();
+    window.sessionStorage.setItem("tab-id", "cu-1234");
+
+    otherTabMessages = vi.fn();
+    otherTab = new BroadcastChannel("tab-id:channel:cart");
+    otherTab.onmessage = ({ data }) => otherTabMessages(data);
+  });
+
+  afterEach(() => {
+    otherTab.close();
+  });
+
+  describe("useTabChannel()", () => {
+    it("should send a message to a specific tab", async () => {
+      const { result, unmount } = renderHook(() => useTabChannel<string>("cart"), { wrapper });
+
+      result.current.send("ot-1234", "hello");
+
+      await waitFor(() =>
+        expect(otherTabMessages).toHaveBeenCalledWith(
+          expect.objectContaining({ type: "message", from: "cu-1234", to: "ot-1234", payload: "hello" }),
+        ),
+      );
+
+      unmount();
+    });
+
+    it("should broadcast a message to every tab", async () => {
+      const { result, unmount } = renderHook(() => useTabChannel<string>("cart"), { wrapper });
+
+      result.current.broadcast("hello");
+
+      await waitFor(() =>
+        expect(otherTabMessages).toHaveBeenCalledWith(
+          expect.objectContaining({ type: "message", from: "cu-1234", payload: "hello" }),
+        ),
+      );
+      expect(otherTabMessages.mock.calls[0]?.[0]).not.toHaveProperty("to");
+
+      unmount();
+    });
+
+    it("should only receive messages addressed to the current tab or broadcast", async () => {
+      const onMessage = vi.fn();
+      const { unmount } = renderHook(() => useTabChannel<string>("cart", { onMessage }), { wrapper });
+
+      postFromOtherTab({ type: "message", to: "xx-0000", payload: "not for me" });
+      postFromOtherTab({ type: "message", to: "cu-1234", payload: "for me" });
+      postFromOtherTab({ type: "message", payload: "for everyone" });
+
+      await waitFor(() => expect(onMessage).toHaveBeenCalledTimes(2));
+      expect(onMessage).toHaveBeenCalledWith("for me", { from: "ot-1234", isRequest: false });
+      expect(onMessage).toHaveBeenCalledWith("for everyone", { from: "ot-1234", isRequest: false });
+
+      unmount();
+    });
+
+    it("should respond to requests with the handler's result", async () => {
+      const onMessage = vi.fn(async (payload: number) => payload * 2);
+      const { unmount } = renderHook(() => useTabChannel("cart", { onMessage }), { wrapper });
+
+      postFromOtherTab({ type: "request", to: "cu-1234", requestId: "r1", payload: 21 });
+
+      await waitFor(() =>
+        expect(otherTabMessages).toHaveBeenCalledWith(
+          expect.objectContaining({ type: "response", from: "cu-1234", to: "ot-1234", requestId: "r1", payload: 42 }),
+        ),
+      );
+      expect(onMessage).toHaveBeenCalledWith(21, { from: "ot-1234", isRequest: true });
+
+      unmount();
+    });
+
+    it("should report the errors of an async handler on a message", async () => {
+      const error = new Error("out of stock");
+      const onError = vi.fn();
+      const onMessage = async () => {
+        throw error;
+      };
+      const { unmount } = renderHook(() => useTabChannel("cart", { onError, onMessage }), { wrapper });
+
+      postFromOtherTab({ type: "message", payload: 21 });
+
+      await waitFor(() => expect(onError).toHaveBeenCalledWith(error, { from: "ot-1234", isRequest: false }));
+
+      unmount();
+    });
+
+    it("should respond with an error when the handler fails", async () => {
+      const onMessage = () => {
+        throw new Error("out of stock");
+      };
+      const { unmount } = renderHook(() => useTabChannel("cart", { onMessage }), { wrapper });
+
+      postFromOtherTab({ type: "request", to: "cu-1234", requestId: "r1", payload: 21 });
+
+      await waitFor(() =>
+        expect(otherTabMessages).toHaveBeenCalledWith(
+          expect.objectContaining({ type: "error", to: "ot-1234", requestId: "r1", message: "out of stock" }),
+        ),
+      );
+
+      unmount();
+    });
+
+    it("should report a response that can't be sent, and reject the request", async () => {
+      const onError = vi.fn();
+      const onMessage = () => () => "not cloneable";
+      const { unmount } = renderHook(() => useTabChannel("cart", { onError, onMessage }), { wrapper });
+
+      postFromOtherTab({ type: "request", to: "cu-1234", requestId: "r1", payload: 21 });
+
+      await waitFor(() =>
+        expect(otherTabMessages).toHaveBeenCalledWith(
+          expect.objectContaining({ type: "error", to: "ot-1234", requestId: "r1" }),
+        ),
+      );
+      expect(onError).toHaveBeenCalledWith(expect.any(Error), { from: "ot-1234", isRequest: true });
+
+      unmount();
+    });
+
+    it("should not respond once the channel is closed", async () => {
+      const onError = vi.fn();
+      let resolveHandler: (value: number) => void = () => {};
+      const onMessage = vi.fn(() => new Promise<number>((resolve) => (resolveHandler = resolve)));
+      const { unmount } = renderHook(() => useTabChannel("cart", { onError, onMessage }), { wrapper });
+
+      postFromOtherTab({ type: "request", to: "cu-1234", requestId: "r1", payload: 21 });
+      await waitFor(() => expect(onMessage).toHaveBeenCalledOnce());
+
+      unmount();
+      resolveHandler(42);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(onError).not.toHaveBeenCalled();
+      expect(otherTabMessages).not.toHaveBeenCalled();
+    });
+
+    it("should resolve a request with the other tab's response", async () => {
+      otherTab.onmessage = ({ data }) => {
+        if (data.type === "request") {
+          postFromOtherTab({ type: "response", to: data.from, requestId: data.requestId, payload: data.payload * 2 });
+        }
+      };
+
+      const { result, unmount } = renderHook(() => useTabChannel<number, number>("cart"), { wrapper });
+
+      await expect(result.current.request("ot-1234", 21)).resolves.toBe(42);
+
+      unmount();
+    });
+
+    it("should reject a request with the other tab's error", async () => {
+      otherTab.onmessage = ({ data }) => {
+        postFromOtherTab({ type: "error", to: data.from, requestId: data.requestId, message: "out of stock" });
+      };
+
+      const { result, unmount } = renderHook(() => useTabChannel("cart"), { wrapper });
+
+      await expect(result.current.request("ot-1234", 21)).rejects.toThrow("out of stock");
+
+      unmount();
+    });
+
+    it("should reject a request that times out", async () => {
+      const { result, unmount } = renderHook(() => useTabChannel("cart", { timeout: 50 }), { wrapper });
+
+      await expect(result.current.request("ot-1234", 21)).rejects.toBeInstanceOf(TabChannelTimeoutError);
+      await expect(result.current.request("ot-1234", 21, { timeout: 10 })).rejects.toThrow(
+        "No response received from tab ot-1234 within 10ms",
+      );
+
+      unmount();
+    });
+  });
+});
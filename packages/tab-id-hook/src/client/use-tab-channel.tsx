@@ -0,0 +1,272 @@
+import { useEffect, useMemo, useRef } from "react";
+
+import { INSTANCE_ID } from "./instance-id";
+import { useTabIdSnapshot } from "./tab-id-context";
+import type { UseTabIdOptions } from "./use-tab-id";
+
+/**
+ * The default time (in milliseconds) to wait for a response to a request.
+ */
+const DEFAULT_TIMEOUT = 5_000;
+
+/**
+ * Information about a message received from another tab.
+ */
+export type TabMessageContext = {
+  /** The ID of the tab that sent the message. */
+  from: string;
+  /** Whether the sender is waiting for a response (ie: the message was sent with `request()`). */
+  isRequest: boolean;
+};
+
+/**
+ * Handles a message received from another tab.
+ * When the message is a request, the returned value (or resolved promise) is sent back as the response.
+ */
+export type TabMessageHandler<TPayload, TResponse> = (
+  payload: TPayload,
+  context: TabMessageContext,
+) => TResponse | Promise<TResponse>;
+
+/**
+ * Configuration options for the `useTabChannel` hook.
+ */
+export type UseTabChannelOptions<TPayload, TResponse> = Pick<UseTabIdOptions, "sessionStorageKey"> & {
+  /**
+   * Called when the handler fails on a message that isn't a request (the errors of requests are sent back to the sender),
+   * or when the response to a request can't be sent (ie: it isn't structured-cloneable).
+   * @default console.error
+   */
+  onError?: (error: unknown, context: TabMessageContext) => void;
+  /**
+   * Called with every message sent to the current tab (or broadcast to all tabs).
+   */
+  onMessage?: TabMessageHandler<TPayload, TResponse>;
+  /**
+   * The default time (in milliseconds) to wait for a response to a request.
+   * @default 5000
+   */
+  timeout?: number;
+};
+
+/**
+ * A channel used to exchange messages with the other tabs of the application.
+ */
+export type TabChannel<TPayload, TResponse> = {
+  /**
+   * Sends a message to a specific tab.
+   */
+  send(toTabId: string, payload: TPayload): void;
+  /**
+   * Sends a message to every other tab.
+   */
+  broadcast(payload: TPayload): void;
+  /**
+   * Sends a message to a specific tab and waits for its response.
+   * The returned promise is rejected with a `TabChannelTimeoutError` if no response is received in time.
+   */
+  request(toTabId: string, payload: TPayload, options?: { timeout?: number }): Promise<TResponse>;
+};
+
+/**
+ * The error used to reject a request that did not receive a response in time.
+ */
+export class TabChannelTimeoutError extends Error {
+  constructor(
+    readonly toTabId: string,
+    readonly timeout: number,
+  ) {
+    super(`No response received from tab ${toTabId} within ${timeout}ms`);
+    this.name = "TabChannelTimeoutError";
+  }
+}
+
+/**
+ * The content of a message exchanged between tabs.
+ * Messages without a recipient (`to`) are broadcast to every tab.
+ */
+type MessageBody =
+  | { type: "message"; to?: string; payload: unknown }
+  | { type: "request"; to: string; requestId: string; payload: unknown }
+  | { type: "response"; to: string; requestId: string; payload: unknown }
+  | { type: "error"; to: string; requestId: string; message: string };
+
+/**
+ * A message exchanged between tabs, along with its sender.
+ */
+type ChannelMessage = MessageBody & { instanceId: string; from: string };
+
+/**
+ * A request waiting for its response.
+ */
+type PendingRequest = {
+  resolve: (payload: unknown) => void;
+  reject: (error: Error) => void;
+};
+
+/**
+ * React hook that exchanges messages with the other tabs of the application, addressed by tab id.
+ *
+ * - Messages can be sent to a single tab (`send()`), to every other tab (`broadcast()`), or
+ *   sent to a single tab while waiting for its response (`request()`).
+ * - Tabs only receive messages addressed to their own tab id, or broadcast to all tabs.
+ * - Messages are exchanged over a BroadcastChannel, so payloads must be structured-cloneable.
+ *
+ * @param name The name of the channel. Only hooks using the same name exchange messages.
+ * @param options Configuration options for customizing behavior.
+ * @returns The channel used to send messages.
+ */
+export function useTabChannel<TPayload = unknown, TResponse = unknown>(
+  name: string,
+  options?: UseTabChannelOptions<TPayload, TResponse>,
+): TabChannel<TPayload, TResponse> {
+  const { onError = console.error, onMessage, sessionStorageKey, timeout: defaultTimeout = DEFAULT_TIMEOUT } = options ?? {};
+
+  const tabId = useTabIdSnapshot(sessionStorageKey);
+
+  const channelRef = useRef<BroadcastChannel>(undefined);
+  const pendingRequestsRef = useRef(new Map<string, PendingRequest>());
+
+  // always call the latest handlers without having to re-open the channel
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
+
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  //
+  // Open the channel and dispatch incoming messages
+  //
+
+  useEffect(() => {
+    if (typeof BroadcastChannel === "undefined" || tabId === undefined) {
+      return; // nothing to talk to (ie: server-side or unsupported browser)
+    }
+
+    const channel = new BroadcastChannel(`tab-id:channel:${name}`);
+    const pendingRequests = pendingRequestsRef.current;
+    let closed = false;
+
+    const reply = (body: Extract<MessageBody, { type: "response" | "error" }>): void => {
+      if (closed) {
+        return; // the handler resolved after the channel was closed (ie: the component unmounted)
+      }
+
+      try {
+        channel.postMessage({ ...body, instanceId: INSTANCE_ID, from: tabId } satisfies ChannelMessage);
+      } catch (error) {
+        onErrorRef.current(error, { from: body.to, isRequest: true });
+
+        if (body.type === "response") {
+          // let the sender know instead of leaving it waiting until it times out
+          reply({ type: "error", to: body.to, requestId: body.requestId, message: getErrorMessage(error) });
+        }
+      }
+    };
+
+    channel.onmessage = ({ data: message }: MessageEvent<ChannelMessage>) => {
+      if (message.instanceId === INSTANCE_ID || (message.to !== undefined && message.to !== tabId)) {
+        return; // sent by this document, or addressed to another tab
+      }
+
+      switch (message.type) {
+        case "message": {
+          const context = { from: message.from, isRequest: false };
+
+          Promise.resolve()
+            .then(() => onMessageRef.current?.(message.payload as TPayload, context))
+            .catch((error: unknown) => onErrorRef.current(error, context));
+          break;
+        }
+
+        case "request": {
+          const { from, requestId } = message;
+
+          Promise.resolve()
+            .then(() => onMessageRef.current?.(message.payload as TPayload, { from, isRequest: true }))
+            .then(
+              (payload) => reply({ type: "response", to: from, requestId, payload }),
+              (error: unknown) => reply({ type: "error", to: from, requestId, message: getErrorMessage(error) }),
+            );
+          break;
+        }
+
+        case "response":
+        case "error": {
+          const pendingRequest = pendingRequests.get(message.requestId);
+          pendingRequests.delete(message.requestId);
+
+          if (message.type === "response") {
+            pendingRequest?.resolve(message.payload);
+          } else {
+            pendingRequest?.reject(new Error(message.message));
+          }
+          break;
+        }
+      }
+    };
+
+    channelRef.current = channel;
+
+    return () => {
+      closed = true;
+      channelRef.current = undefined;
+      channel.close();
+
+      pendingRequests.forEach(({ reject }) => reject(new Error(`Channel ${name} was closed`)));
+      pendingRequests.clear();
+    };
+  }, [name, tabId]);
+
+  return useMemo(() => {
+    const post = (body: MessageBody) => {
+      if (channelRef.current === undefined || tabId === undefined) {
+        throw new Error(`Channel ${name} is not open yet`);
+      }
+
+      channelRef.current.postMessage({ ...body, instanceId: INSTANCE_ID, from: tabId } satisfies ChannelMessage);
+    };
+
+    return {
+      send: (to, payload) => post({ type: "message", to, payload }),
+      broadcast: (payload) => post({ type: "message", payload }),
+      request: (to, payload, options) => {
+        const { timeout = defaultTimeout } = options ?? {};
+        const requestId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+        const pendingRequests = pendingRequestsRef.current;
+
+        return new Promise<TResponse>((resolve, reject) => {
+          const timer = setTimeout(() => {
+            pendingRequests.delete(requestId);
+            reject(new TabChannelTimeoutError(to, timeout));
+          }, timeout);
+
+          pendingRequests.set(requestId, {
+            resolve: (payload) => {
+              clearTimeout(timer);
+              resolve(payload as TResponse);
+            },
+            reject: (error) => {
+              clearTimeout(timer);
+              reject(error);
+            },
+          });
+
+          try {
+            post({ type: "request", to, requestId, payload });
+          } catch (error) {
+            pendingRequests.get(requestId)?.reject(error as Error);
+            pendingRequests.delete(requestId);
+          }
+        });
+      },
+    };
+  }, [defaultTimeout, name, tabId]);
+}
+
+/**
+ * Returns the message sent to the other tab when a request fails.
+ */
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,105 @@
+import { act, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import React from "react";
+import type { SubmitTarget } from "react-router";
+import { createRoutesStub } from "react-router";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { useTabFetcher } from "./use-tab-fetcher";
+
+describe("use-tab-fetcher()", () => {
+  let fetcher: ReturnType<typeof useTabFetcher>;
+
+  const action = vi.fn(async ({ request }: { request: Request }) => {
+    const contentType = request.headers.get("Content-Type") ?? "";
+    return contentType.includes("json") ? await request.json() : Object.fromEntries(await request.formData());
+  });
+
+  const loader = vi.fn(({ request }: { request: Request }) => Object.fromEntries(new URL(request.url).searchParams));
+
+  const Stub = createRoutesStub([
+    {
+      path: "/",
+      Component: () => {
+        fetcher = useTabFetcher();
+        return (
+          <fetcher.Form method="post" action="/other">
+            <button type="submit">Submit</button>
+          </fetcher.Form>
+        );
+      },
+    },
+    { path: "/other", action, loader },
+  ]);
+
+  /**
+   * Submits a target with the fetcher, returning the data received by the action.
+   */
+  const submit = async (target: SubmitTarget, options?: Parameters<typeof fetcher.submit>[1]) => {
+    action.mockClear();
+    await act(() => fetcher.submit(target, { method: "post", action: "/other", ...options }));
+    await waitFor(() => expect(action).toHaveBeenCalled());
+    return await action.mock.results[0]?.value;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    window.sessionStorage.clear();
+    window.sessionStorage.setItem("tab-id", "ab-1234");
+  });
+
+  describe("useTabFetcher()", () => {
+    it("should add the tab ID to submitted form data, search params and objects", async () => {
+      const { unmount } = render(<Stub />);
+      await screen.findByText("Submit");
+
+      const formData = new FormData();
+      formData.set("intent", "increment");
+
+      await expect(submit(formData)).resolves.toEqual({ intent: "increment", tid: "ab-1234" });
+      await expect(submit(new URLSearchParams({ intent: "increment" }))).resolves.toEqual({
+        intent: "increment",
+        tid: "ab-1234",
+      });
+      await expect(submit({ intent: "increment" })).resolves.toEqual({ intent: "increment", tid: "ab-1234" });
+      await expect(submit({ intent: "increment" }, { encType: "application/json" })).resolves.toEqual({
+        intent: "increment",
+        tid: "ab-1234",
+      });
+      await expect(submit(null)).resolves.toEqual({ tid: "ab-1234" });
+
+      expect(formData.has("tid")).toBe(false); // the caller's form data is left untouched
+
+      unmount();
+    });
+
+    it("should not override a tab ID set by the caller", async () => {
+      const { unmount } = render(<Stub />);
+      await screen.findByText("Submit");
+
+      await expect(submit({ tid: "cd-5678" })).resolves.toEqual({ tid: "cd-5678" });
+
+      unmount();
+    });
+
+    it("should add the tab ID to the fetcher form", async () => {
+      const { unmount } = render(<Stub />);
+      fireEvent.click(await screen.findByText("Submit"));
+
+      await waitFor(() => expect(action).toHaveBeenCalled());
+      await expect(action.mock.results[0]?.value).resolves.toEqual({ tid: "ab-1234" });
+
+      unmount();
+    });
+
+    it("should add the tab ID to loaded URLs", async () => {
+      const { unmount } = render(<Stub />);
+      await screen.findByText("Submit");
+
+      await act(() => fetcher.load("/other?page=2"));
+
+      await waitFor(() => expect(loader).toHaveBeenCalled());
+      expect(loader.mock.results[0]?.value).toEqual({ page: "2", tid: "ab-1234" });
+
+      unmount();
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import React, { forwardRef, useMemo } from "react";
+import type { FetcherFormProps, FetcherSubmitFunction, SubmitTarget } from "react-router";
+import { useFetcher } from "react-router";
+
+import { useTabIdSnapshot } from "./tab-id-context";
+import type { TabIdInputProps } from "./tab-id-input";
+import { TabIdInput } from "./tab-id-input";
+import { addTabId, addTabIdSegment } from "./tab-path";
+import { useTabIdConfig } from "./use-tab-id";
+
+/**
+ * Configuration options for the `useTabFetcher` hook.
+ */
+export type UseTabFetcherOptions = TabIdInputProps & {
+  /**
+   * A key identifying the fetcher, to access it from elsewhere in the app (see React Router's `useFetcher()`).
+   */
+  key?: string;
+};
+
+/**
+ * React hook that wraps React Router's `useFetcher()` so that every request carries the current tab id:
+ *
+ * - `fetcher.Form` renders a hidden `<TabIdInput />` field.
+ * - `fetcher.submit()` adds the tab id to `FormData`, `URLSearchParams` and plain object targets (unless already set).
+ *   Form elements are submitted as-is, so they should be (or contain) a `fetcher.Form` or a `<TabIdInput />`.
+ * - `fetcher.load()` adds the tab id to the URL as a query parameter (unless already set), or as a route segment
+ *   with the `path-segment` transport.
+ *
+ * @param options Configuration options for customizing behavior.
+ * @returns The fetcher.
+ */
+export function useTabFetcher<TData = unknown>(options?: UseTabFetcherOptions): ReturnType<typeof useFetcher<TData>> {
+  const config = useTabIdConfig();
+  const { idSearchParamKey = config.idSearchParamKey, key, sessionStorageKey } = options ?? {};
+
+  const pathPrefix = config.transport.includes("path-segment") ? config.pathPrefix : undefined;
+
+  const fetcher = useFetcher<TData>({ key });
+  const tabId = useTabIdSnapshot(sessionStorageKey);
+
+  const { Form, load, submit } = fetcher;
+
+  const TabFetcherForm = useMemo(() => {
+    const TabFetcherForm = forwardRef<HTMLFormElement, FetcherFormProps>(({ children, ...formProps }, ref) => (
+      <Form {...formProps} ref={ref}>
+        <TabIdInput idSearchParamKey={idSearchParamKey} sessionStorageKey={sessionStorageKey} />
+        {children}
+      </Form>
+    ));
+
+    TabFetcherForm.displayName = "TabFetcherForm";
+    return TabFetcherForm;
+  }, [Form, idSearchParamKey, sessionStorageKey]);
+
+  const tabLoad = useMemo<typeof load>(
+    () => (href, opts) => {
+      if (tabId === undefined) {
+        return load(href, opts);
+      }
+
+      return load(
+        pathPrefix === undefined ? addTabId(href, idSearchParamKey, tabId) : addTabIdSegment(href, pathPrefix, tabId),
+        opts,
+      );
+    },
+    [idSearchParamKey, load, pathPrefix, tabId],
+  );
+
+  const tabSubmit = useMemo<FetcherSubmitFunction>(
+    () => (target, opts) => submit(tabId === undefined ? target : withTabId(target, idSearchParamKey, tabId), opts),
+    [idSearchParamKey, submit, tabId],
+  );
+
+  return { ...fetcher, Form: TabFetcherForm, load: tabLoad, submit: tabSubmit };
+}
+
+/**
+ * Adds the tab id to a submit target, unless the target already holds a value for the key.
+ * Form elements are returned as-is.
+ */
+function withTabId(target: SubmitTarget, key: string, tabId: string): SubmitTarget {
+  if (target === null) {
+    return { [key]: tabId };
+  }
+
+  // copy the target rather than modifying the caller's object
+
+  if (target instanceof FormData) {
+    const formData = new FormData();
+    target.forEach((value, name) => formData.append(name, value));
+
+    if (!formData.has(key)) {
+      formData.append(key, tabId);
+    }
+
+    return formData;
+  }
+
+  if (target instanceof URLSearchParams) {
+    const searchParams = new URLSearchParams(target);
+
+    if (!searchParams.has(key)) {
+      searchParams.append(key, tabId);
+    }
+
+    return searchParams;
+  }
+
+  if (typeof target === "object" && !Array.isArray(target) && !(target instanceof HTMLElement)) {
+    return key in target ? target : { ...target, [key]: tabId };
+  }
+
+  return target;
+}
@@ -0,0 +1,25 @@
+import { renderHook } from "@testing-library/react";
+import React from "react";
+import { MemoryRouter } from "react-router";
+import { beforeEach, describe, expect, it } from "vitest";
+import { useTabHref } from "./use-tab-href";
+
+describe("use-tab-href()", () => {
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <MemoryRouter initialEntries={["/orders?tid=ab-1234"]}>{children}</MemoryRouter>
+  );
+
+  beforeEach(() => {
+    window.sessionStorage.clear();
+    window.sessionStorage.setItem("tab-id", "ab-1234");
+  });
+
+  describe("useTabHref()", () => {
+    it("should return an href without the tab ID", () => {
+      const { result, unmount } = renderHook(() => useTabHref("/orders?tid=ab-1234&page=2"), { wrapper });
+      expect(result.current).toBe("/orders?page=2");
+
+      unmount();
+    });
+  });
+});
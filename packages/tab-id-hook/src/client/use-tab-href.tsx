@@ -0,0 +1,42 @@
+import type { To } from "react-router";
+import { useHref } from "react-router";
+
+import { useTabIdSnapshot } from "./tab-id-context";
+import { addTabIdSegment, removeTabId } from "./tab-path";
+import type { UseTabIdOptions } from "./use-tab-id";
+import { useTabIdConfig } from "./use-tab-id";
+
+/**
+ * Configuration options for the `useTabHref` hook.
+ */
+export type UseTabHrefOptions = Pick<UseTabIdOptions, "idSearchParamKey" | "sessionStorageKey">;
+
+/**
+ * React hook that resolves a path into an href that is safe to share (see React Router's `useHref()`):
+ * the tab id is removed from its query, so that the tab opening the href (ie: after copying it to the clipboard)
+ * never inherits the current tab's id. Navigations in the current tab carry the tab id with `<TabLink>`
+ * and `useTabNavigate()`.
+ *
+ * With the `path-segment` transport (of the closest `<TabIdProvider>`), absolute paths get the tab id route segment,
+ * as the routes require it.
+ *
+ * @param to The path to resolve.
+ * @param options Configuration options for customizing behavior.
+ * @returns The href.
+ */
+export function useTabHref(to: To, options?: UseTabHrefOptions): string {
+  const config = useTabIdConfig();
+  const { idSearchParamKey = config.idSearchParamKey, sessionStorageKey } = options ?? {};
+
+  const tabId = useTabIdSnapshot(sessionStorageKey);
+
+  let target: To;
+
+  if (config.transport.includes("path-segment")) {
+    target = tabId === undefined ? to : addTabIdSegment(to, config.pathPrefix, tabId);
+  } else {
+    target = removeTabId(to, idSearchParamKey);
+  }
+
+  return useHref(target);
+}
@@ -1,8 +1,10 @@
-import { act, renderHook, waitFor } from "@testing-library/react";
-import React, { type ReactNode, useSyncExternalStore } from "react";
-import { MemoryRouter, useLocation } from "react-router";
+import { act, cleanup, render, renderHook, waitFor } from "@testing-library/react";
+import React, { type ReactNode, useEffect, useState, useSyncExternalStore } from "react";
+import { createBrowserRouter, createMemoryRouter, MemoryRouter, RouterProvider, useLocation } from "react-router";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import { generateId, useTabId } from "./use-tab-id";
+import { defineTabIdConfig } from "../config";
+import { createCustomGenerator } from "../id-generators";
+import { TabIdProvider, useTabId, useTabIdConfig } from "./use-tab-id";
 
 vi.mock("react", async (importOriginal) => {
   const actual = await importOriginal<typeof import("react")>();
@@ -19,19 +21,10 @@ describe("use-tab-id()", () => {
   });
 
   afterEach(() => {
+    cleanup(); // unmount the hooks, so that they don't react to the next tests
     vi.restoreAllMocks();
   });
 
-  describe("generateId()", () => {
-    it("should generate an ID in the correct format (xx-0000)", () => {
-      expect(generateId()).toMatch(/^[a-z]{2}-\d{4}$/);
-    });
-
-    it("should generate unique IDs", () => {
-      expect(generateId()).not.toBe(generateId());
-    });
-  });
-
   describe("useTabId()", () => {
     it("should generate and return a new ID if session storage is empty", () => {
       const render = () => ({ location: useLocation(), tabId: useTabId() });
@@ -53,6 +46,60 @@ describe("use-tab-id()", () => {
       expect(tabId).toBe("ab-1234");
     });
 
+    it("should use a custom generator", () => {
+      const render = () => useTabId({ generator: createCustomGenerator(() => "custom-id") });
+      const { result } = renderHook(render, { wrapper });
+
+      expect(result.current).toBe("custom-id");
+      expect(window.sessionStorage.getItem("tab-id")).toBe("custom-id");
+    });
+
+    it("should not re-run its effects when an inline generator is passed on every render", () => {
+      const addEventListener = vi.spyOn(window, "addEventListener");
+
+      const render = () => useTabId({ generator: createCustomGenerator(() => "custom-id") });
+      const { rerender } = renderHook(render, { wrapper });
+      const listenerCount = addEventListener.mock.calls.length;
+
+      rerender();
+      rerender();
+
+      expect(addEventListener).toHaveBeenCalledTimes(listenerCount);
+    });
+
+    it("should adopt an ID issued by the server", () => {
+      window.sessionStorage.setItem("tab-id", "ab-1234");
+
+      const render = ({ issuedId }: { issuedId?: string }) => useTabId({ issuedId });
+      const { result, rerender, unmount } = renderHook(render, {
+        wrapper,
+        initialProps: { issuedId: "ab-1234.signature" },
+      });
+
+      expect(result.current).toBe("ab-1234.signature");
+      expect(window.sessionStorage.getItem("tab-id")).toBe("ab-1234.signature");
+
+      rerender({ issuedId: "cd-5678.signature" });
+      expect(result.current).toBe("cd-5678.signature");
+
+      unmount();
+    });
+
+    it("should adopt an issued ID only once", () => {
+      window.sessionStorage.setItem("tab-id", "ab-1234.signature");
+      window.sessionStorage.setItem("tab-id:issued", "ab-1234.signature");
+
+      // simulate a tab that got a new ID (ie: after being duplicated) while the loader data is stale
+      window.sessionStorage.setItem("tab-id", "xy-9999");
+
+      const render = () => useTabId({ issuedId: "ab-1234.signature" });
+      const { result, unmount } = renderHook(render, { wrapper });
+
+      expect(result.current).toBe("xy-9999");
+
+      unmount();
+    });
+
     it("should use custom session storage key", () => {
       const render = () => ({ location: useLocation(), tabId: useTabId({ sessionStorageKey: "custom-key" }) });
       const { result } = renderHook(render, { wrapper });
@@ -78,6 +125,16 @@ describe("use-tab-id()", () => {
       expect(location.search).not.toContain("tid=");
     });
 
+    it("should not update URL when the search-param transport is not used", async () => {
+      const render = () => ({ location: useLocation(), tabId: useTabId({ transport: ["header", "form-field"] }) });
+      const { result, unmount } = renderHook(render, { wrapper });
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(result.current.location.search).not.toContain("tid=");
+
+      unmount();
+    });
+
     it("should use custom search param key", async () => {
       const render = () => ({ location: useLocation(), tabId: useTabId({ idSearchParamKey: "customId" }) });
       const { result } = renderHook(render, { wrapper });
@@ -103,6 +160,7 @@ describe("use-tab-id()", () => {
 
     it("should reload document if reloadDocument is true", async () => {
       const reloadMock = vi.fn();
+      const originalLocation = window.location;
 
       Object.defineProperty(window, "location", {
         value: { reload: reloadMock },
@@ -113,6 +171,30 @@ describe("use-tab-id()", () => {
       renderHook(render, { wrapper });
 
       await waitFor(() => expect(reloadMock).toHaveBeenCalled());
+
+      Object.defineProperty(window, "location", { value: originalLocation, writable: true });
+    });
+
+    it("should keep the fork token in the URL until the tab ID is in the URL too", async () => {
+      window.sessionStorage.setItem("tab-id", "bb-2222");
+
+      const searches: string[] = [];
+      const render = () => {
+        const location = useLocation();
+        searches.push(location.search);
+        return { location, tabId: useTabId() };
+      };
+
+      const { result, unmount } = renderHook(render, {
+        wrapper: ({ children }: { children: ReactNode }) => (
+          <MemoryRouter initialEntries={["/?tfork=aa-1111"]}>{children}</MemoryRouter>
+        ),
+      });
+
+      await waitFor(() => expect(result.current.location.search).toBe("?tid=bb-2222"));
+      expect(searches).toContain("?tfork=aa-1111&tid=bb-2222");
+
+      unmount();
     });
 
     it("should return ID from URL query param during server-side rendering simulation", async () => {
@@ -133,6 +215,254 @@ describe("use-tab-id()", () => {
       });
     });
 
+    describe("with an ID minted by the server", () => {
+      const wrapperWithInitialUrl = ({ children }: { children: ReactNode }) => (
+        <MemoryRouter initialEntries={[`/?tid=ss-5555`]}>{children}</MemoryRouter>
+      );
+
+      afterEach(() => {
+        document.cookie = "tid-issued=; Path=/; Max-Age=0";
+      });
+
+      it("should adopt the ID from the URL when it matches the issued cookie", () => {
+        document.cookie = "tid-issued=ss-5555; Path=/";
+
+        const { result, unmount } = renderHook(() => useTabId(), { wrapper: wrapperWithInitialUrl });
+
+        expect(result.current).toBe("ss-5555");
+        expect(window.sessionStorage.getItem("tab-id")).toBe("ss-5555");
+        expect(document.cookie).not.toContain("tid-issued");
+
+        unmount();
+      });
+
+      it("should not adopt the ID from the issued cookie when the URL has no ID", () => {
+        document.cookie = "tid-issued=ss-5555; Path=/";
+
+        const { result, unmount } = renderHook(() => useTabId(), { wrapper });
+
+        expect(result.current).not.toBe("ss-5555");
+        expect(document.cookie).toContain("tid-issued=ss-5555"); // ie: minted for a tab opened at the same time
+
+        unmount();
+      });
+
+      it("should not adopt an ID that doesn't match the issued cookie", () => {
+        document.cookie = "tid-issued=ab-1234; Path=/";
+
+        const { result, unmount } = renderHook(() => useTabId(), { wrapper: wrapperWithInitialUrl });
+
+        expect(result.current).not.toBe("ss-5555");
+        expect(result.current).not.toBe("ab-1234");
+        expect(document.cookie).toContain("tid-issued=ab-1234"); // left for the tab it was minted for
+
+        unmount();
+      });
+
+      it("should not replace an existing ID", () => {
+        window.sessionStorage.setItem("tab-id", "ab-1234");
+        document.cookie = "tid-issued=ss-5555; Path=/";
+
+        const { result, unmount } = renderHook(() => useTabId(), { wrapper: wrapperWithInitialUrl });
+        expect(result.current).toBe("ab-1234");
+
+        unmount();
+      });
+    });
+
+    describe("with a tab limiter", () => {
+      const originalFetch = window.fetch;
+
+      /**
+       * Responds to every request with a refusal of the tab limiter (see `createTabLimiter()`).
+       */
+      const refuseFetch = (tabId: string) => {
+        const body = JSON.stringify({ type: "TabLimitExceeded", reason: "evicted", tabId, maxTabs: 5 });
+        window.fetch = vi.fn(async () => new Response(body, { status: 429, headers: { "X-Tab-Limit-Exceeded": body } }));
+      };
+
+      afterEach(() => {
+        window.fetch = originalFetch;
+      });
+
+      it("should report the refusals of the tab", async () => {
+        window.sessionStorage.setItem("tab-id", "ab-1234");
+        refuseFetch("ab-1234");
+
+        const onTabLimitExceeded = vi.fn();
+        const { unmount } = renderHook(() => useTabId({ onTabLimitExceeded }), { wrapper });
+
+        await window.fetch("/orders.data");
+        expect(onTabLimitExceeded).toHaveBeenCalledWith({
+          type: "TabLimitExceeded",
+          reason: "evicted",
+          tabId: "ab-1234",
+          maxTabs: 5,
+        });
+
+        unmount();
+      });
+
+      it("should ignore the refusals of other tabs", async () => {
+        window.sessionStorage.setItem("tab-id", "ab-1234");
+        refuseFetch("cd-5678");
+
+        const onTabLimitExceeded = vi.fn();
+        const { unmount } = renderHook(() => useTabId({ onTabLimitExceeded }), { wrapper });
+
+        await window.fetch("/orders.data");
+        expect(onTabLimitExceeded).not.toHaveBeenCalled();
+
+        unmount();
+      });
+    });
+
+    describe("with back/forward navigations", () => {
+      /**
+       * Renders the tab ID once the effects have run (ie: once the hook listens to the history events).
+       */
+      const App = () => {
+        const tabId = useTabId();
+        const [mounted, setMounted] = useState(false);
+
+        useEffect(() => setMounted(true), []);
+        return <p>{mounted && tabId}</p>;
+      };
+
+      /**
+       * Replaces the tab ID without notifying the document, as another document of the tab would.
+       */
+      const replaceIdInAnotherDocument = (id: string) => window.sessionStorage.setItem("tab-id", id);
+
+      beforeEach(() => {
+        window.sessionStorage.setItem("tab-id", "ab-1234");
+      });
+
+      afterEach(() => {
+        window.history.replaceState(null, "", "/");
+      });
+
+      it("should fix the stale ID of an entry before the loaders run", async () => {
+        window.history.replaceState(null, "", "/orders");
+
+        const loadedIds: Array<string | null> = [];
+        const loader = ({ request }: { request: Request }) => {
+          loadedIds.push(new URL(request.url).searchParams.get("tid"));
+          return null;
+        };
+
+        const router = createBrowserRouter([{ path: "*", Component: App, loader }]);
+        const { unmount } = render(<RouterProvider router={router} />);
+
+        await waitFor(() => expect(window.location.search).toBe("?tid=ab-1234"));
+        await act(() => router.navigate("/cart?tid=ab-1234"));
+
+        // the ID changes (ie: the tab turned out to be a duplicate): the /orders entry is left with a stale ID
+        act(() => {
+          replaceIdInAnotherDocument("cd-5678");
+          window.dispatchEvent(new StorageEvent("storage", { key: "tab-id" }));
+        });
+        await waitFor(() => expect(window.location.search).toBe("?tid=cd-5678"));
+
+        loadedIds.length = 0;
+        act(() => window.history.back());
+
+        await waitFor(() => expect(window.location.pathname).toBe("/orders"));
+        expect(window.location.search).toBe("?tid=cd-5678");
+        await waitFor(() => expect(loadedIds).toEqual(["cd-5678"]));
+
+        unmount();
+        router.dispose();
+      });
+
+      it("should re-sync the URL when restored from the back/forward cache", async () => {
+        const { result, unmount } = renderHook(() => ({ location: useLocation(), tabId: useTabId() }), { wrapper });
+        await waitFor(() => expect(result.current.location.search).toBe("?tid=ab-1234"));
+
+        replaceIdInAnotherDocument("cd-5678");
+        act(() => void window.dispatchEvent(new PageTransitionEvent("pageshow", { persisted: true })));
+
+        expect(result.current.tabId).toBe("cd-5678");
+        await waitFor(() => expect(result.current.location.search).toBe("?tid=cd-5678"));
+
+        unmount();
+      });
+
+      it("should revalidate the loaders when restored from the back/forward cache", async () => {
+        const loader = vi.fn(() => null);
+        const router = createMemoryRouter([{ path: "/", Component: App, loader }], { initialEntries: ["/?tid=ab-1234"] });
+        const { findByText, unmount } = render(<RouterProvider router={router} />);
+
+        await findByText("ab-1234");
+        expect(loader).toHaveBeenCalledTimes(1);
+
+        act(() => void window.dispatchEvent(new PageTransitionEvent("pageshow", { persisted: true })));
+        await waitFor(() => expect(loader).toHaveBeenCalledTimes(2));
+
+        act(() => void window.dispatchEvent(new PageTransitionEvent("pageshow", { persisted: false })));
+        expect(loader).toHaveBeenCalledTimes(2);
+
+        unmount();
+        router.dispose();
+      });
+    });
+
+    describe("with the path-segment transport", () => {
+      const render = () => ({ location: useLocation(), tabId: useTabId({ transport: "path-segment" }) });
+      const wrapperWithInitialUrl =
+        (url: string) =>
+        ({ children }: { children: ReactNode }) => <MemoryRouter initialEntries={[url]}>{children}</MemoryRouter>;
+
+      it("should redirect unprefixed paths to the same path with the tab ID segment", async () => {
+        window.sessionStorage.setItem("tab-id", "ab-1234");
+
+        const { result, unmount } = renderHook(render, { wrapper: wrapperWithInitialUrl("/orders?page=2") });
+
+        await waitFor(() => expect(result.current.location.pathname).toBe("/t/ab-1234/orders"));
+        expect(result.current.location.search).toBe("?page=2");
+
+        unmount();
+      });
+
+      it("should replace the tab ID segment of another tab", async () => {
+        window.sessionStorage.setItem("tab-id", "ab-1234");
+
+        const { result, unmount } = renderHook(render, { wrapper: wrapperWithInitialUrl("/t/cd-5678/orders") });
+
+        expect(result.current.tabId).toBe("ab-1234");
+        await waitFor(() => expect(result.current.location.pathname).toBe("/t/ab-1234/orders"));
+
+        unmount();
+      });
+
+      it("should adopt the ID minted by the server from the path", () => {
+        document.cookie = "tid-issued=ss-5555; Path=/";
+
+        const { result, unmount } = renderHook(render, { wrapper: wrapperWithInitialUrl("/t/ss-5555/orders") });
+
+        expect(result.current.tabId).toBe("ss-5555");
+        expect(result.current.location.pathname).toBe("/t/ss-5555/orders");
+
+        unmount();
+        document.cookie = "tid-issued=; Path=/; Max-Age=0";
+      });
+
+      it("should use a custom path prefix", async () => {
+        window.sessionStorage.setItem("tab-id", "ab-1234");
+
+        const renderWithPrefix = () => ({
+          location: useLocation(),
+          tabId: useTabId({ pathPrefix: "tab", transport: "path-segment" }),
+        });
+        const { result, unmount } = renderHook(renderWithPrefix, { wrapper: wrapperWithInitialUrl("/") });
+
+        await waitFor(() => expect(result.current.location.pathname).toBe("/tab/ab-1234"));
+        expect(result.current.location.search).toBe("");
+
+        unmount();
+      });
+    });
+
     it("should update ID when storage event is fired from another tab", () => {
       const render = () => useTabId();
       const { result } = renderHook(render, { wrapper });
@@ -157,6 +487,62 @@ describe("use-tab-id()", () => {
       expect(result.current).not.toBe(initialId);
     });
 
+    it("should generate a new ID when an older tab already uses the same ID", async () => {
+      window.sessionStorage.setItem("tab-id", "du-1234");
+
+      // simulate the original tab, which was opened before this one
+      const originalTab = new BroadcastChannel("tab-id:duplicate-tab");
+      originalTab.onmessage = ({ data }) => {
+        if (data.type === "claim" && data.id === "du-1234") {
+          originalTab.postMessage({ type: "reply", id: "du-1234", instanceId: "original", createdAt: 0 });
+        }
+      };
+
+      const render = () => ({ location: useLocation(), tabId: useTabId() });
+      const { result } = renderHook(render, { wrapper });
+
+      await waitFor(() => expect(result.current.tabId).not.toBe("du-1234"));
+      expect(result.current.tabId).toMatch(/^[a-z]{2}-\d{4}$/);
+      expect(window.sessionStorage.getItem("tab-id")).toBe(result.current.tabId);
+      await waitFor(() => expect(result.current.location.search).toContain(`tid=${result.current.tabId}`));
+
+      originalTab.close();
+    });
+
+    it("should keep its ID and reply when a newer tab claims the same ID", async () => {
+      window.sessionStorage.setItem("tab-id", "du-5678");
+
+      const render = () => useTabId();
+      const { result } = renderHook(render, { wrapper });
+
+      // simulate a duplicate of this tab, opened after it
+      const duplicateTab = new BroadcastChannel("tab-id:duplicate-tab");
+      const onMessage = vi.fn();
+      duplicateTab.onmessage = ({ data }) => onMessage(data);
+      duplicateTab.postMessage({ type: "claim", id: "du-5678", instanceId: "duplicate", createdAt: Number.MAX_VALUE });
+
+      await waitFor(() => expect(onMessage).toHaveBeenCalledWith(expect.objectContaining({ type: "reply", id: "du-5678" })));
+      expect(result.current).toBe("du-5678");
+
+      duplicateTab.close();
+    });
+
+    it("should not run the duplicate tab handshake when detectDuplicates is false", async () => {
+      window.sessionStorage.setItem("tab-id", "du-9012");
+
+      const otherTab = new BroadcastChannel("tab-id:duplicate-tab");
+      const onMessage = vi.fn();
+      otherTab.onmessage = ({ data }) => onMessage(data);
+
+      const render = () => useTabId({ detectDuplicates: false });
+      renderHook(render, { wrapper });
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(onMessage).not.toHaveBeenCalledWith(expect.objectContaining({ id: "du-9012" }));
+
+      otherTab.close();
+    });
+
     it("should handle server-side snapshot correctly", () => {
       const useSyncExternalStoreSpy = useSyncExternalStore as ReturnType<typeof vi.fn>;
 
@@ -203,4 +589,92 @@ describe("use-tab-id()", () => {
       expect(getTabIdFromServerWithUrlFn?.()).toBe("ss-7777");
     });
   });
+
+  describe("TabIdProvider", () => {
+    const providerWrapper =
+      (props: Omit<React.ComponentProps<typeof TabIdProvider>, "children">, initialEntry = "/") =>
+      ({ children }: { children: React.ReactNode }) => (
+        <MemoryRouter initialEntries={[initialEntry]}>
+          <TabIdProvider {...props}>{children}</TabIdProvider>
+        </MemoryRouter>
+      );
+
+    it("should provide the tab ID to every hook below it", async () => {
+      window.sessionStorage.setItem("custom-key", "pr-1234");
+
+      const config = defineTabIdConfig({ idSearchParamKey: "tab", sessionStorageKey: "custom-key" });
+      const render = () => ({ location: useLocation(), tabId: useTabId(), config: useTabIdConfig() });
+      const { result, unmount } = renderHook(render, { wrapper: providerWrapper({ config }) });
+
+      expect(result.current.tabId).toBe("pr-1234");
+      expect(result.current.config).toEqual(
+        expect.objectContaining({ idSearchParamKey: "tab", sessionStorageKey: "custom-key" }),
+      );
+      await waitFor(() => expect(result.current.location.search).toBe("?tab=pr-1234"));
+
+      unmount();
+    });
+
+    it("should only read the provider's tab ID in the hooks below it", async () => {
+      window.sessionStorage.setItem("tab-id", "pr-5678");
+
+      const otherTab = new BroadcastChannel("tab-id:duplicate-tab");
+      const onMessage = vi.fn();
+      otherTab.onmessage = ({ data }) => onMessage(data);
+
+      const render = () => useTabId({ navigate: false });
+      const { result, unmount } = renderHook(render, { wrapper: providerWrapper({ detectDuplicates: false }) });
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(result.current).toBe("pr-5678");
+      expect(onMessage).not.toHaveBeenCalled(); // no duplicate tab handshake of its own
+
+      unmount();
+      otherTab.close();
+    });
+
+    it("should call the same hooks with or without a provider", () => {
+      const useSyncExternalStoreSpy = useSyncExternalStore as ReturnType<typeof vi.fn>;
+      const hookCalls: number[] = [];
+
+      const render = () => {
+        const before = useSyncExternalStoreSpy.mock.calls.length;
+        const tabId = useTabId({ navigate: false });
+        hookCalls.push(useSyncExternalStoreSpy.mock.calls.length - before);
+        return tabId;
+      };
+
+      renderHook(render, { wrapper }).unmount();
+      renderHook(render, { wrapper: providerWrapper({ navigate: false }) }).unmount();
+
+      // adding or removing a provider above a hook must not change the order of its hooks
+      expect(new Set(hookCalls).size).toBe(1);
+    });
+
+    it("should only sync the URL from the provider", async () => {
+      const render = () => ({ location: useLocation(), tabId: useTabId() });
+      const { result, unmount } = renderHook(render, { wrapper: providerWrapper({ navigate: false }) });
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(result.current.tabId).toBeDefined();
+      expect(result.current.location.search).toBe("");
+
+      unmount();
+    });
+
+    it("should warn when the options of a hook conflict with the provider's", () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      const render = () => {
+        useTabId({ idSearchParamKey: "tid", navigate: false, sessionStorageKey: "tab-id" }); // same as the provider
+        return useTabId({ idSearchParamKey: "other-key" });
+      };
+      const { unmount } = renderHook(render, { wrapper: providerWrapper({ navigate: false }) });
+
+      expect(warn).toHaveBeenCalledOnce();
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('"idSearchParamKey"'));
+
+      unmount();
+    });
+  });
 });
@@ -1,22 +1,132 @@
-import { useEffect, useSyncExternalStore } from "react";
+import type { ReactNode } from "react";
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useSyncExternalStore } from "react";
 
-import { useLocation, useNavigate } from "react-router";
-import { SEARCH_PARAM_KEY, SESSION_STORAGE_KEY } from "../defaults";
+import { useHref, useLocation, useNavigate } from "react-router";
+import type { TabIdConfig } from "../config";
+import {
+  FORK_SEARCH_PARAM_KEY,
+  HEADER_NAME,
+  ISSUED_COOKIE_NAME,
+  PARENT_HEADER_NAME,
+  PARENT_SEARCH_PARAM_KEY,
+  PATH_PREFIX,
+  SEARCH_PARAM_KEY,
+  SESSION_STORAGE_KEY,
+} from "../defaults";
+import type { TabIdGenerator } from "../id-generators";
+import { createCustomGenerator, createShortIdGenerator, generateId } from "../id-generators";
+import { getPathTabId, removePathTabId, setPathTabId, splitBasename } from "../path-segment";
+import type { TabLimitExceeded } from "../server/tab-limiter";
+import { detectDuplicateTab } from "./duplicate-tab";
+import { watchHistoryTraversal } from "./history-traversal";
+import { reportTabLifecycle } from "./lifecycle";
+import { getLineageSnapshot, ROOT_LINEAGE, subscribeToLineage, trackTabLineage } from "./lineage";
+import type { TabIdContextValue } from "./tab-id-context";
+import { DEFAULT_CONFIG, subscribeToNothing, TabIdContext } from "./tab-id-context";
+import type { RouterAdapter } from "./tab-id-store";
+import { TabIdStore } from "./tab-id-store";
+import { watchTabLimit } from "./tab-limit";
+import type { TabIdTransport } from "./transports";
+import { installFormFieldTransport, installHeaderTransport } from "./transports";
+
+export type { TabIdTransport } from "./transports";
+
+/**
+ * The default time (in milliseconds) between two heartbeats sent to the lifecycle endpoint.
+ */
+const DEFAULT_HEARTBEAT_INTERVAL = 30_000;
 
 /**
  * Configuration options for the `useTabId` hook.
  */
 export type UseTabIdOptions = {
+  /**
+   * The tab id configuration shared with the server (see `defineTabIdConfig()`).
+   * Options set directly on the hook take precedence over the configuration.
+   */
+  config?: TabIdConfig;
+  /**
+   * Whether to detect duplicated tabs (which share a copy of `sessionStorage`) and generate a new id for the duplicate.
+   * @default true
+   */
+  detectDuplicates?: boolean;
+  /**
+   * The query parameter used to hand the fork token over to a forked tab (see `forkTab()`).
+   * It is removed from the URL once the tab id is in the URL too (so that the loaders receive both, once).
+   * @default 'tfork'
+   */
+  forkSearchParamKey?: string;
+  /**
+   * The strategy used to generate new tab ids.
+   * @default createShortIdGenerator() (ids in the format `xx-0000`)
+   */
+  generator?: TabIdGenerator;
+  /**
+   * Which same-origin `fetch()` requests carry the header when using the `header` transport, given their URL.
+   * @default React Router's data requests (ie: `/orders.data`)
+   */
+  headerFilter?: (url: URL) => boolean;
+  /**
+   * The HTTP header used to send the tab id when using the `header` transport.
+   * @default 'X-Tab-Id'
+   */
+  headerName?: string;
+  /**
+   * How often (in milliseconds) to send a heartbeat to the `lifecycleEndpoint`.
+   * @default 30000
+   */
+  heartbeatInterval?: number;
   /**
    * The query parameter key used for storing the tab id in the URL.
+   * Also used as the field name by the `form-field` transport.
    * @default 'tid'
    */
   idSearchParamKey?: string;
   /**
-   * Whether to automatically update the URL with the tab id as a query parameter.
+   * Asks the server for a new tab id (ie: a resource route returning `issueTabId()`), to replace the id of a duplicated tab.
+   * Needed when tab ids are signed: an id generated in the browser is rejected by `getTabId({ secret })`.
+   * Without it, a duplicated tab keeps the id issued by the server (see `issuedId`).
+   */
+  issueId?: () => Promise<string>;
+  /**
+   * The cookie holding a tab id minted by the server (see `mintTabId()`).
+   * When the tab has no id yet, the id in the URL is adopted if (and only if) it matches this cookie.
+   * @default 'tid-issued'
+   */
+  issuedCookieName?: string;
+  /**
+   * A tab id issued by the server (ie: a signed tab token) to adopt for this tab.
+   * Each issued id is adopted once, replacing the tab's current id; it is treated as an opaque value.
+   */
+  issuedId?: string;
+  /**
+   * The URL of a lifecycle route (see `createTabLifecycleRoute()`). When set, the tab reports to the server
+   * when it opens, periodically while it is open (heartbeats), and when it is closed.
+   */
+  lifecycleEndpoint?: string;
+  /**
+   * Whether to automatically update the URL with the tab id (as a query parameter, or as a route segment).
+   * Only applies to the `search-param` and `path-segment` transports.
    * @default true
    */
   navigate?: boolean;
+  /**
+   * Called when a request of the tab is refused by a tab limiter (see `createTabLimiter()`), because the user
+   * has too many tabs open (or the tab was evicted to make room for a newer one).
+   */
+  onTabLimitExceeded?: (exceeded: TabLimitExceeded) => void;
+  /**
+   * The query parameter used to hand the parent tab id over to a newly opened tab (see `<TabLink handoff>`).
+   * It is removed from the URL once read.
+   * @default 'ptid'
+   */
+  parentSearchParamKey?: string;
+  /**
+   * The route segment preceding the tab id when using the `path-segment` transport (see `tabIdRoutes()`).
+   * Paths without the segment are redirected to the same path with it (ie: `/orders` to `/t/ab-1234/orders`).
+   * @default 't'
+   */
+  pathPrefix?: string;
   /**
    * Whether to reload the document after navigating.
    * @default false
@@ -27,31 +137,252 @@ export type UseTabIdOptions = {
    * @default 'tab-id'
    */
   sessionStorageKey?: string;
+  /**
+   * How the tab id is sent to the server: as a query parameter in the URL (`search-param`), as an HTTP header
+   * on React Router's data requests (`header`, see `headerFilter`), as a hidden field on same-origin form submissions (`form-field`),
+   * or as a route segment in the URL (`path-segment`, in place of the query parameter).
+   * Several transports can be combined.
+   * @default 'search-param'
+   */
+  transport?: TabIdTransport | TabIdTransport[];
+  /**
+   * Whether to track which tab opened which (see `useTabLineage()`).
+   * @default true
+   */
+  trackLineage?: boolean;
 };
 
+/**
+ * Props for the `TabIdProvider` component: the `useTabId()` options, shared by every hook below the provider.
+ */
+export type TabIdProviderProps = UseTabIdOptions & { children?: ReactNode };
+
+/**
+ * The tab id configuration resolved by a `<TabIdProvider>` (see `useTabIdConfig()`).
+ */
+export type ResolvedTabIdConfig = Required<
+  Pick<
+    UseTabIdOptions,
+    | "forkSearchParamKey"
+    | "headerName"
+    | "idSearchParamKey"
+    | "issuedCookieName"
+    | "navigate"
+    | "parentSearchParamKey"
+    | "pathPrefix"
+    | "reloadDocument"
+    | "sessionStorageKey"
+  >
+> &
+  Pick<UseTabIdOptions, "generator"> & { transport: TabIdTransport[] };
+
+/**
+ * The options that must not differ between a `useTabId()` hook and its provider.
+ */
+const CONFLICTING_OPTIONS = [
+  "forkSearchParamKey",
+  "generator",
+  "headerName",
+  "idSearchParamKey",
+  "issuedCookieName",
+  "parentSearchParamKey",
+  "pathPrefix",
+  "reloadDocument",
+  "sessionStorageKey",
+  "transport",
+] satisfies Array<keyof ResolvedTabIdConfig>;
+
+/**
+ * The conflicts already warned about (each conflict is only reported once).
+ */
+const warnedConflicts = new Set<string>();
+
 /**
  * React hook that provides a unique, persistent identifier for the current browser tab.
+ * It is the React Router adapter of `TabIdStore` (see the `vanilla` entry point for pages that don't use React).
  *
  * - The id persists across page reloads but resets when the tab is closed.
  * - If `navigate` is enabled (default: `true`), the hook ensures the id is present in the URL.
+ * - Other transports (`header`, `form-field`) send the id to the server without showing it in the address bar.
  * - The id is stored in `sessionStorage`, ensuring it remains unique per tab.
  * - Uses `useSyncExternalStore` to listen for changes in session storage and re-render accordingly.
+ * - If `detectDuplicates` is enabled (default: `true`), a duplicated tab is detected and given a new id.
+ * - If `lifecycleEndpoint` is set, the tab reports when it opens, is still open, and closes (see `createTabLifecycleRoute()`).
+ * - If `onTabLimitExceeded` is set, it is called when a tab limiter refuses the tab (see `createTabLimiter()`).
+ * - Back/forward navigations to entries with a stale (or no) id, and restores from the back/forward cache,
+ *   are re-synced with the current id (and the loaders revalidated).
+ * - Below a `<TabIdProvider>`, the hook reads the provider's id and its options are ignored (with a warning in development
+ *   when they conflict with the provider's).
  *
  * @param options Configuration options for customizing behavior.
  * @returns The unique tab id for the current browser tab. It may be `undefined` during server-side rendering if the ID is not present in the URL.
  */
 export function useTabId(options?: UseTabIdOptions): string | undefined {
+  const context = useContext(TabIdContext);
+
+  // below a <TabIdProvider>, the provider owns the configuration (and the URL sync): only read its id.
+  // Both hooks always run (the state's store and effects being disabled below a provider),
+  // so that mounting or unmounting a provider above the hook keeps the order of its hooks.
+  const { id } = useTabIdState(options, context === undefined);
+  const providedId = useProvidedTabId(context, options);
+
+  return context === undefined ? id : providedId;
+}
+
+/**
+ * Provides the tab id (and its configuration) to every `useTabId()` hook below it, so that the configuration
+ * is set once per application: the hooks below it read the provider's id instead of resolving their own,
+ * and only the provider syncs the URL.
+ *
+ * @example
+ * <TabIdProvider config={tabIdConfig} transport={['header', 'form-field']}>
+ *   <Outlet />
+ * </TabIdProvider>
+ */
+export function TabIdProvider({ children, ...options }: TabIdProviderProps) {
+  const { id, config } = useTabIdState(options, true);
+  const value = useMemo(() => ({ id, config }), [id, config]);
+
+  return <TabIdContext.Provider value={value}>{children}</TabIdContext.Provider>;
+}
+
+/**
+ * React hook that returns the tab id configuration of the closest `<TabIdProvider>` (or the defaults, without a provider),
+ * ie: so that components carrying the tab id use the same query parameter as the provider.
+ */
+export function useTabIdConfig(): ResolvedTabIdConfig {
+  return useContext(TabIdContext)?.config ?? DEFAULT_CONFIG;
+}
+
+/**
+ * Reads the id of the closest `<TabIdProvider>` (if any), warning (in development) about the options conflicting with its own.
+ */
+function useProvidedTabId(context: TabIdContextValue | undefined, options?: UseTabIdOptions): string | undefined {
+  useEffect(() => {
+    if (context !== undefined && isDevelopment()) {
+      warnAboutConflictingOptions(context.config, options);
+    }
+  });
+
+  return context?.id;
+}
+
+/**
+ * Resolves the tab id of the current browser tab, and runs every effect configured by `options`.
+ * When disabled (ie: below a provider), it neither reads nor subscribes to the tab id, and runs no effect.
+ */
+function useTabIdState(options: UseTabIdOptions | undefined, enabled: boolean): TabIdContextValue {
   const {
+    detectDuplicates = true,
+    forkSearchParamKey = FORK_SEARCH_PARAM_KEY,
+    generator,
+    headerFilter,
+    headerName = HEADER_NAME,
+    heartbeatInterval = DEFAULT_HEARTBEAT_INTERVAL,
     idSearchParamKey = SEARCH_PARAM_KEY,
+    issueId,
+    issuedCookieName = ISSUED_COOKIE_NAME,
+    issuedId,
+    lifecycleEndpoint,
     navigate = true,
+    onTabLimitExceeded,
+    parentSearchParamKey = PARENT_SEARCH_PARAM_KEY,
+    pathPrefix = PATH_PREFIX,
     reloadDocument = false,
     sessionStorageKey = SESSION_STORAGE_KEY,
-  } = options ?? {};
+    trackLineage = true,
+    transport = "search-param",
+  } = mergeConfig(options);
+
+  const transports = new Set([transport].flat());
+  const hasSearchParamTransport = transports.has("search-param");
+  const hasHeaderTransport = transports.has("header");
+  const hasFormFieldTransport = transports.has("form-field");
+  const hasPathSegmentTransport = transports.has("path-segment");
 
-  const { search } = useLocation();
+  const { hash, pathname, search, state } = useLocation();
   const navigateFn = useNavigate();
+  const basename = useHref("/");
+  const href = useHref({ pathname, search });
 
-  const idSearchParam = new URLSearchParams(search).get(idSearchParamKey);
+  // the tab id in the URL: its route segment (path-segment transport), otherwise its query parameter
+  const urlId = hasPathSegmentTransport
+    ? (getPathTabId(pathname, pathPrefix) ?? null)
+    : new URLSearchParams(search).get(idSearchParamKey);
+
+  //
+  // Adapt React Router to the store (through a ref, so that the store outlives navigations).
+  //
+
+  const locationRef = useRef({ hash, navigateFn, pathname, search, state });
+  locationRef.current = { hash, navigateFn, pathname, search, state };
+
+  // through refs, so that an inline generator (or callback) doesn't rebuild the store (and rerun every effect) on every render
+  const generatorRef = useRef(generator);
+  generatorRef.current = generator;
+
+  const hasGenerator = generator !== undefined;
+  const storeGenerator = useMemo(
+    () =>
+      hasGenerator
+        ? createCustomGenerator(
+            () => generateId(generatorRef.current),
+            (id) => (generatorRef.current ?? createShortIdGenerator()).validate(id),
+          )
+        : undefined,
+    [hasGenerator],
+  );
+
+  const issueIdRef = useRef(issueId);
+  issueIdRef.current = issueId;
+
+  const issuesIds = issueId !== undefined;
+
+  const store = useMemo(() => {
+    // with the path-segment transport, the store's tab id "query parameter" is the route segment
+    const isPathSegment = (key: string) => hasPathSegmentTransport && key === idSearchParamKey;
+
+    const router: RouterAdapter = {
+      getSearchParam: (key) =>
+        isPathSegment(key)
+          ? (getPathTabId(locationRef.current.pathname, pathPrefix) ?? null)
+          : new URLSearchParams(locationRef.current.search).get(key),
+      replaceSearchParam: async (key, value) => {
+        const { navigateFn, pathname, search } = locationRef.current;
+        const urlSearchParams = new URLSearchParams(search);
+
+        if (!isPathSegment(key)) {
+          urlSearchParams.set(key, value);
+        }
+
+        urlSearchParams.delete(parentSearchParamKey); // the one-time handoff parameter is consumed along the way
+
+        // update the URL using { replace: true } to avoid polluting the history stack
+        const path = isPathSegment(key) ? { pathname: setPathTabId(pathname, pathPrefix, value) } : {};
+        await navigateFn({ ...path, search: urlSearchParams.toString() }, { replace: true });
+      },
+    };
+
+    return new TabIdStore({
+      generator: storeGenerator,
+      idSearchParamKey,
+      issueId: issuesIds
+        ? () => issueIdRef.current?.() ?? Promise.reject(new Error("The issueId option was removed"))
+        : undefined,
+      issuedCookieName,
+      router,
+      sessionStorageKey,
+    });
+  }, [
+    hasPathSegmentTransport,
+    idSearchParamKey,
+    issuedCookieName,
+    issuesIds,
+    parentSearchParamKey,
+    pathPrefix,
+    sessionStorageKey,
+    storeGenerator,
+  ]);
 
   //
   // Use useSyncExternalStore() to subscribe to session storage changes.
@@ -61,95 +392,291 @@ export function useTabId(options?: UseTabIdOptions): string | undefined {
   //
 
   const id = useSyncExternalStore(
-    (callback) => subscribe(sessionStorageKey, callback),
-    () => getSnapshot(sessionStorageKey), // client-side snapshot: read from session storage (or generate new)
-    () => idSearchParam ?? undefined, // server-side snapshot: read from URL query param
+    enabled ? store.subscribe : subscribeToNothing,
+    // client-side snapshot: read from session storage (or adopt the id issued/minted by the server, or generate a new one)
+    () => {
+      if (!enabled) {
+        return undefined;
+      }
+
+      if (issuedId !== undefined) {
+        store.adoptIssuedId(issuedId);
+      }
+
+      return store.getId();
+    },
+    () => (enabled ? (urlId ?? undefined) : undefined), // server-side snapshot: read from the URL
   );
 
+  // (the id is `undefined` when disabled, so the effects below, which all need an id, don't run)
   //
-  // Sync the URL with the session storage ID
+  // Detect duplicated tabs.
+  //
+  // Duplicating a tab copies its session storage, so both tabs would otherwise end up with the same ID.
+  // The tabs run a handshake over a BroadcastChannel and the newest one switches to a freshly generated ID
+  // (which in turn updates the URL via the effect below).
   //
 
   useEffect(() => {
-    if (navigate) {
-      // if we have a valid ID and it doesn't match the current URL param, update the URL
-      if (id !== undefined && id !== idSearchParam) {
-        const urlSearchParams = new URLSearchParams(search);
-        urlSearchParams.set(idSearchParamKey, id);
+    if (detectDuplicates && id !== undefined) {
+      return detectDuplicateTab(id, (duplicateId) => void store.replaceId(duplicateId));
+    }
+  }, [detectDuplicates, id, store]);
 
-        // update the URL using { replace: true } to avoid polluting the history stack
-        //
-        // we wrap in Promise.resolve() to handle potential async nature of
-        // navigation or to ensure the reload happens in the next tick
-        void Promise.resolve(navigateFn({ search: urlSearchParams.toString() }, { replace: true })).then(() => {
-          if (reloadDocument) {
-            window.location.reload();
+  //
+  // Track which tab opened which (see useTabLineage()).
+  //
+  // A new tab reads its parent's ID from the one-time handoff parameter (removed from the URL below),
+  // from `window.opener`, or claims it from the tab that opened it over a BroadcastChannel.
+  //
+
+  const { parentId } = useSyncExternalStore(
+    useCallback(
+      (listener: () => void) => (enabled ? subscribeToLineage(sessionStorageKey, listener) : () => {}),
+      [enabled, sessionStorageKey],
+    ),
+    () => (enabled ? getLineageSnapshot(sessionStorageKey) : ROOT_LINEAGE),
+    () => ROOT_LINEAGE,
+  );
+
+  useEffect(() => {
+    if (trackLineage && id !== undefined) {
+      const { pathname, search } = locationRef.current;
+      const searchParams = new URLSearchParams(search);
+      const handoffParentId = searchParams.get(parentSearchParamKey);
+      const ignoredSearchParams = [idSearchParamKey, parentSearchParamKey, forkSearchParamKey];
+      const path = `${hasPathSegmentTransport ? removePathTabId(pathname, pathPrefix) : pathname}${search}`;
+      return trackTabLineage(id, { handoffParentId, ignoredSearchParams, path, sessionStorageKey });
+    }
+  }, [
+    forkSearchParamKey,
+    hasPathSegmentTransport,
+    id,
+    idSearchParamKey,
+    parentSearchParamKey,
+    pathPrefix,
+    sessionStorageKey,
+    trackLineage,
+  ]);
+
+  //
+  // Send the ID with React Router's data requests and same-origin form submissions (header and form-field transports)
+  // (the filter through a ref, so that an inline callback doesn't rewrap fetch() on every render)
+  //
+
+  const headerFilterRef = useRef(headerFilter);
+  headerFilterRef.current = headerFilter;
+
+  const filtersHeader = headerFilter !== undefined;
+  const filterHeader = useMemo(
+    () => (filtersHeader ? (url: URL) => headerFilterRef.current?.(url) ?? false : undefined),
+    [filtersHeader],
+  );
+
+  useEffect(() => {
+    if (hasHeaderTransport && id !== undefined) {
+      return installHeaderTransport(id, headerName, filterHeader);
+    }
+  }, [filterHeader, headerName, id, hasHeaderTransport]);
+
+  // (the parent is sent whatever the transport: the handoff parameter is removed from the URL after the first request)
+  useEffect(() => {
+    if (id !== undefined && parentId !== undefined) {
+      return installHeaderTransport(parentId, PARENT_HEADER_NAME, filterHeader);
+    }
+  }, [filterHeader, id, parentId]);
+
+  useEffect(() => {
+    if (hasFormFieldTransport && id !== undefined) {
+      return installFormFieldTransport(id, idSearchParamKey);
+    }
+  }, [id, idSearchParamKey, hasFormFieldTransport]);
+
+  //
+  // Report the tab's lifecycle to the server
+  //
+
+  useEffect(() => {
+    if (lifecycleEndpoint !== undefined && id !== undefined) {
+      return reportTabLifecycle(id, lifecycleEndpoint, idSearchParamKey, heartbeatInterval);
+    }
+  }, [heartbeatInterval, id, idSearchParamKey, lifecycleEndpoint]);
+
+  //
+  // Surface the refusals of a tab limiter (through a ref, so that an inline callback doesn't rewrap fetch() on every render)
+  //
+
+  const onTabLimitExceededRef = useRef(onTabLimitExceeded);
+  onTabLimitExceededRef.current = onTabLimitExceeded;
+
+  const watchesTabLimit = onTabLimitExceeded !== undefined;
+
+  useEffect(() => {
+    if (watchesTabLimit && id !== undefined) {
+      return watchTabLimit(id, (exceeded) => onTabLimitExceededRef.current?.(exceeded));
+    }
+  }, [id, watchesTabLimit]);
+
+  //
+  // Sync the URL with the session storage ID (search-param and path-segment transports)
+  //
+
+  const hasUrlTransport = hasSearchParamTransport || hasPathSegmentTransport;
+
+  useEffect(() => {
+    if (navigate && hasUrlTransport && id !== undefined) {
+      // the URL is only updated if the ID doesn't match the current URL param
+      void store.syncUrl().then((updated) => {
+        if (updated && reloadDocument) {
+          window.location.reload();
+        }
+      });
+    }
+  }, [hasUrlTransport, id, navigate, pathname, reloadDocument, search, store]);
+
+  useEffect(() => {
+    const willSyncUrl = navigate && hasUrlTransport && id !== urlId;
+    const urlSearchParams = new URLSearchParams(search);
+    const oneTimeParams = [parentSearchParamKey, forkSearchParamKey].filter((key) => urlSearchParams.has(key));
+
+    // remove the one-time handoff and fork parameters, once the loaders received them along with the tab id
+    if (id !== undefined && !willSyncUrl && oneTimeParams.length > 0) {
+      oneTimeParams.forEach((key) => urlSearchParams.delete(key));
+      void navigateFn({ search: urlSearchParams.toString() }, { replace: true });
+    }
+  }, [forkSearchParamKey, hasUrlTransport, id, navigate, navigateFn, parentSearchParamKey, search, urlId]);
+
+  //
+  // Handle back/forward navigations and back/forward cache restores.
+  //
+  // The entries pushed before the ID existed (or changed) carry a stale ID. With the browser's history, their URL
+  // is fixed before React Router runs the loaders. A document restored from the back/forward cache re-reads its ID
+  // (see `TabIdStore.subscribe()`), re-syncs the URL, and revalidates its loaders unless the URL sync navigated.
+  //
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    // with a memory router, the window's URL isn't the router's
+    const isBrowserHistory = `${window.location.pathname}${window.location.search}` === href;
+
+    const rewriteUrl = (url: URL) => {
+      const id = store.getId();
+
+      if (hasPathSegmentTransport) {
+        const [base, rest] = splitBasename(url.pathname, basename);
+        url.pathname = `${base}${setPathTabId(rest, pathPrefix, id)}`;
+      } else {
+        url.searchParams.set(idSearchParamKey, id);
+      }
+
+      return url;
+    };
+
+    const revalidate = () => {
+      const { hash, navigateFn, pathname, search, state } = locationRef.current;
+
+      // navigating to the current location reruns the loaders
+      void navigateFn({ hash, pathname, search }, { preventScrollReset: true, replace: true, state });
+    };
+
+    const syncsUrl = navigate && hasUrlTransport;
+
+    return watchHistoryTraversal(syncsUrl && isBrowserHistory ? rewriteUrl : undefined, () => {
+      if (syncsUrl) {
+        void store.syncUrl().then((updated) => {
+          if (!updated) {
+            revalidate();
           }
         });
+      } else {
+        revalidate();
       }
-    }
-  }, [id, navigate, navigateFn, search, idSearchParamKey, reloadDocument]);
+    });
+  }, [basename, enabled, hasPathSegmentTransport, hasUrlTransport, href, idSearchParamKey, navigate, pathPrefix, store]);
 
-  return id;
-}
+  const transportKey = [...transports].join();
 
-/**
- * Generates a random tab identifier in the format `xx-0000`.
- * This ID is designed to be short yet sufficiently unique for identifying tabs within a single browser session.
- *
- * @returns A string in the format `[a-z]{2}-[0-9]{4}`.
- */
-export function generateId(): string {
-  const prefix = randomString(2, "abcdefghijklmnopqrstuvwxyz");
-  const suffix = randomString(4, "0123456789");
-  return `${prefix}-${suffix}`;
+  const config = useMemo<ResolvedTabIdConfig>(
+    () => ({
+      forkSearchParamKey,
+      generator,
+      headerName,
+      idSearchParamKey,
+      issuedCookieName,
+      navigate,
+      parentSearchParamKey,
+      pathPrefix,
+      reloadDocument,
+      sessionStorageKey,
+      transport: transportKey.split(",") as TabIdTransport[],
+    }),
+    [
+      forkSearchParamKey,
+      generator,
+      headerName,
+      idSearchParamKey,
+      issuedCookieName,
+      navigate,
+      parentSearchParamKey,
+      pathPrefix,
+      reloadDocument,
+      sessionStorageKey,
+      transportKey,
+    ],
+  );
+
+  return { id, config };
 }
 
 /**
- * Generates a random string of a specified length using a given set of allowed characters.
- *
- * @param len The length of the string to generate.
- * @param allowedChars A string containing all characters allowed in the result. Defaults to alphanumeric (lowercase).
- * @returns The generated random string.
+ * Merges the shared configuration with the options (which take precedence, unless they are `undefined`).
  */
-function randomString(len: number, allowedChars = "0123456789abcdefghijklmnopqrstuvwxyz") {
-  const toRandomChar = () => allowedChars[Math.floor(Math.random() * allowedChars.length)];
-  return Array(len).fill(undefined).map(toRandomChar).join("");
+function mergeConfig(options?: UseTabIdOptions): Omit<UseTabIdOptions, "config"> {
+  const { config, ...rest } = options ?? {};
+  return { ...config, ...Object.fromEntries(Object.entries(rest).filter(([, value]) => value !== undefined)) };
 }
 
 /**
- * Retrieves the current tab ID from session storage.
- * If no ID exists, a new one is generated and stored.
- *
- * This function serves as the `getSnapshot()` callback for `useSyncExternalStore`.
- *
- * @param sessionStorageKey The key used to access session storage.
- * @returns The persistent tab ID.
+ * Warns (once per conflict) about the options of a `useTabId()` hook that differ from its provider's,
+ * since they are ignored. `navigate: false` never conflicts: only the provider syncs the URL anyway.
  */
-function getSnapshot(sessionStorageKey: string): string {
-  const id = window.sessionStorage.getItem(sessionStorageKey) ?? generateId();
-  window.sessionStorage.setItem(sessionStorageKey, id); // store the id to persist it across reloads
-  return id;
+function warnAboutConflictingOptions(providerConfig: ResolvedTabIdConfig, options?: UseTabIdOptions): void {
+  const { navigate, transport, ...rest } = mergeConfig(options);
+  const hookConfig: Partial<ResolvedTabIdConfig> = { ...rest, transport: transport && [transport].flat() };
+
+  const conflicts: Array<keyof ResolvedTabIdConfig> = CONFLICTING_OPTIONS.filter((option) => {
+    const hookValue = hookConfig[option];
+    const providerValue = providerConfig[option];
+
+    return (
+      hookValue !== undefined &&
+      (Array.isArray(hookValue) && Array.isArray(providerValue)
+        ? String([...hookValue].sort()) !== String([...providerValue].sort())
+        : hookValue !== providerValue)
+    );
+  });
+
+  if (navigate === true && !providerConfig.navigate) {
+    conflicts.push("navigate");
+  }
+
+  for (const option of conflicts) {
+    const message = `useTabId(): the "${option}" option differs from the closest <TabIdProvider>'s and is ignored.`;
+
+    if (!warnedConflicts.has(message)) {
+      warnedConflicts.add(message);
+      console.warn(message);
+    }
+  }
 }
 
 /**
- * Subscribes to the global `storage` event to detect changes to the tab ID.
- *
- * This function serves as the `subscribe` callback for `useSyncExternalStore()`.
- * Note: The `storage` event typically only fires when storage is modified in *another* document (tab/window),
- * but `useSyncExternalStore()` handles the current tab's updates via the snapshot comparison.
- *
- * @param sessionStorageKey The key to listen for changes on.
- * @param callback The function to call when the storage key changes.
- * @returns A cleanup function to remove the event listener.
+ * Whether the application runs in development. `process.env.NODE_ENV` is replaced by the bundler (a `typeof process`
+ * guard would be `false` in the browser, where `process` isn't defined even in development).
  */
-function subscribe(sessionStorageKey: string, callback: () => void): () => void {
-  const handler = ({ key }: StorageEvent): void => {
-    if (key === sessionStorageKey) {
-      callback(); // trigger a state update only if the session storage key changes
-    }
-  };
-
-  window.addEventListener("storage", handler);
-  return () => window.removeEventListener("storage", handler);
+function isDevelopment(): boolean {
+  return process.env.NODE_ENV !== "production";
 }
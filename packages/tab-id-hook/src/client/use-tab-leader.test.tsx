@@ -0,0 +1,169 @@
+import { act, renderHook } from "@testing-library/react";
+import React from "react";
+import { MemoryRouter } from "react-router";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { LEADER_TIMEOUT } from "./leader-election";
+import { useTabLeader } from "./use-tab-leader";
+
+describe("use-tab-leader()", () => {
+  const wrapper = ({ children }: { children: React.ReactNode }) => <MemoryRouter>{children}</MemoryRouter>;
+
+  let otherTab: BroadcastChannel;
+  let otherTabMessages: ReturnType<typeof vi.fn<(data: unknown) => void>>;
+
+  /**
+   * Announces another (older) tab as the leader of the scope.
+   */
+  const leadFromOtherTab = (data?: unknown) => {
+    otherTab.postMessage({ type: "leader", tabId: "ot-1234", createdAt: 0, data, instanceId: "other" });
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout", "setInterval", "clearInterval"] });
+
+    window.sessionStorage.clear();
+    window.sessionStorage.setItem("tab-id", "cu-1234");
+
+    otherTabMessages = vi.fn();
+    otherTab = new BroadcastChannel("tab-id:leader:orders");
+    otherTab.onmessage = ({ data }) => otherTabMessages(data);
+  });
+
+  afterEach(() => {
+    otherTab.close();
+    vi.useRealTimers();
+  });
+
+  describe("useTabLeader()", () => {
+    it("should lead when no other tab leads", async () => {
+      const { result, unmount } = renderHook(() => useTabLeader("orders"), { wrapper });
+
+      await vi.waitFor(() => expect(otherTabMessages).toHaveBeenCalledWith(expect.objectContaining({ type: "hello" })));
+      expect(result.current.isLeader).toBe(false);
+
+      act(() => vi.advanceTimersByTime(LEADER_TIMEOUT));
+
+      expect(result.current).toMatchObject({ isLeader: true, leaderId: "cu-1234" });
+      await vi.waitFor(() =>
+        expect(otherTabMessages).toHaveBeenCalledWith(expect.objectContaining({ type: "leader", tabId: "cu-1234" })),
+      );
+
+      unmount();
+      await vi.waitFor(() => expect(otherTabMessages).toHaveBeenCalledWith(expect.objectContaining({ type: "resign" })));
+    });
+
+    it("should follow the leader announced by another tab", async () => {
+      const { result, unmount } = renderHook(() => useTabLeader<number[]>("orders"), { wrapper });
+
+      act(() => leadFromOtherTab([1]));
+      await vi.waitFor(() => expect(result.current).toMatchObject({ isLeader: false, leaderId: "ot-1234", data: [1] }));
+
+      act(() => otherTab.postMessage({ type: "data", data: [1, 2], instanceId: "other" }));
+      await vi.waitFor(() => expect(result.current.data).toEqual([1, 2]));
+
+      expect(result.current.relay([3])).toBe(false);
+
+      unmount();
+    });
+
+    it("should take over when the leader resigns", async () => {
+      const { result, unmount } = renderHook(() => useTabLeader("orders"), { wrapper });
+
+      act(() => leadFromOtherTab());
+      await vi.waitFor(() => expect(result.current.leaderId).toBe("ot-1234"));
+
+      act(() => otherTab.postMessage({ type: "resign", instanceId: "other" }));
+      await vi.waitFor(() => expect(result.current).toMatchObject({ isLeader: true, leaderId: "cu-1234" }));
+
+      unmount();
+    });
+
+    it("should take over when the leader stops sending heartbeats", async () => {
+      const { result, unmount } = renderHook(() => useTabLeader("orders"), { wrapper });
+
+      act(() => leadFromOtherTab());
+      await vi.waitFor(() => expect(result.current.leaderId).toBe("ot-1234"));
+
+      act(() => vi.advanceTimersByTime(LEADER_TIMEOUT));
+      expect(result.current.isLeader).toBe(true);
+
+      unmount();
+    });
+
+    it("should step down when an older tab leads too", async () => {
+      const { result, unmount } = renderHook(() => useTabLeader("orders"), { wrapper });
+
+      act(() => vi.advanceTimersByTime(LEADER_TIMEOUT));
+      expect(result.current.isLeader).toBe(true);
+
+      act(() => leadFromOtherTab());
+      await vi.waitFor(() => expect(result.current).toMatchObject({ isLeader: false, leaderId: "ot-1234" }));
+
+      unmount();
+    });
+
+    it("should relay data to the followers", async () => {
+      const { result, unmount } = renderHook(() => useTabLeader<string>("orders"), { wrapper });
+
+      act(() => vi.advanceTimersByTime(LEADER_TIMEOUT));
+      act(() => expect(result.current.relay("orders-v2")).toBe(true));
+
+      expect(result.current.data).toBe("orders-v2");
+      await vi.waitFor(() =>
+        expect(otherTabMessages).toHaveBeenCalledWith(expect.objectContaining({ type: "data", data: "orders-v2" })),
+      );
+
+      // a tab joining later receives the data along with the leader's announcement
+      otherTabMessages.mockClear();
+      act(() => otherTab.postMessage({ type: "hello", instanceId: "other" }));
+      await vi.waitFor(() =>
+        expect(otherTabMessages).toHaveBeenCalledWith(expect.objectContaining({ type: "leader", data: "orders-v2" })),
+      );
+
+      unmount();
+    });
+
+    it("should share the election between the hooks of a document", () => {
+      const { result, unmount } = renderHook(() => [useTabLeader("orders"), useTabLeader("orders")], { wrapper });
+
+      act(() => vi.advanceTimersByTime(LEADER_TIMEOUT));
+      act(() => void result.current[0]?.relay("shared"));
+
+      expect(result.current.map(({ isLeader, data }) => ({ isLeader, data }))).toEqual([
+        { isLeader: true, data: "shared" },
+        { isLeader: true, data: "shared" },
+      ]);
+
+      unmount();
+    });
+
+    describe("with Web Locks", () => {
+      let releases: number;
+
+      beforeEach(() => {
+        releases = 0;
+
+        // a lock manager granting every lock right away
+        const locks = {
+          request: (_name: string, _options: LockOptions, callback: () => Promise<void> | undefined) =>
+            Promise.resolve(callback()).then(() => void releases++),
+        };
+
+        Object.defineProperty(navigator, "locks", { configurable: true, value: locks });
+      });
+
+      afterEach(() => {
+        delete (navigator as { locks?: LockManager }).locks;
+      });
+
+      it("should lead while holding the lock", async () => {
+        const { result, unmount } = renderHook(() => useTabLeader("orders"), { wrapper });
+
+        await vi.waitFor(() => expect(result.current.isLeader).toBe(true));
+
+        unmount();
+        await vi.waitFor(() => expect(releases).toBe(1));
+      });
+    });
+  });
+});
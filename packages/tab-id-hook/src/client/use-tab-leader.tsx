@@ -0,0 +1,72 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+
+import { getLeaderSnapshot, NO_LEADER, relayToFollowers, subscribeToLeader } from "./leader-election";
+import { useTabIdSnapshot } from "./tab-id-context";
+import type { UseTabIdOptions } from "./use-tab-id";
+import { useTabId } from "./use-tab-id";
+
+/**
+ * Configuration options for the `useTabLeader` hook.
+ */
+export type UseTabLeaderOptions = Pick<UseTabIdOptions, "sessionStorageKey">;
+
+/**
+ * The leader of a scope, as seen from the current tab.
+ */
+export type TabLeader<TData> = {
+  /** Whether the current tab is the leader. */
+  isLeader: boolean;
+  /** The leader's tab id, if known. */
+  leaderId: string | undefined;
+  /** The data last relayed by the leader (see `relay()`), also received by the tabs that join later. */
+  data: TData | undefined;
+  /**
+   * Relays data from the leader to every follower (and to the leader's own hooks).
+   * @returns `true` if the data was relayed, `false` if the current tab isn't the leader.
+   */
+  relay(data: TData): boolean;
+};
+
+/**
+ * React hook that elects one tab of the application as the leader of a scope, ie: so that a single tab polls
+ * the server (or holds a WebSocket) and relays the data to the other tabs.
+ *
+ * - The election uses Web Locks when available: the browser hands the lock over to another tab when the leader
+ *   is closed. Otherwise, the leader sends heartbeats over a BroadcastChannel, and the other tabs elect a new leader
+ *   when they stop.
+ * - The leader is identified by its tab id (see `useTabId()`).
+ * - Every hook of a document following the same scope shares the same election.
+ * - Relayed data is exchanged over a BroadcastChannel, so it must be structured-cloneable.
+ *
+ * @example
+ * const { isLeader, data: orders, relay } = useTabLeader<Order[]>('orders');
+ *
+ * useEffect(() => {
+ *   if (isLeader) {
+ *     const interval = setInterval(async () => relay(await fetchOrders()), 10_000);
+ *     return () => clearInterval(interval);
+ *   }
+ * }, [isLeader, relay]);
+ *
+ * @param scope The scope of the election (tabs only compete with the tabs following the same scope).
+ * @param options Configuration options for customizing behavior.
+ * @returns The leader. No tab leads during server-side rendering.
+ */
+export function useTabLeader<TData = unknown>(scope: string, options?: UseTabLeaderOptions): TabLeader<TData> {
+  const { sessionStorageKey } = options ?? {};
+
+  const tabId = useTabIdSnapshot(sessionStorageKey);
+
+  const { isLeader, leaderId, data } = useSyncExternalStore(
+    useCallback(
+      (listener: () => void) => (tabId === undefined ? () => {} : subscribeToLeader(scope, tabId, listener)),
+      [scope, tabId],
+    ),
+    () => (tabId === undefined ? NO_LEADER : getLeaderSnapshot(scope, tabId)),
+    () => NO_LEADER,
+  );
+
+  const relay = useCallback((data: TData) => tabId !== undefined && relayToFollowers(scope, tabId, data), [scope, tabId]);
+
+  return useMemo(() => ({ isLeader, leaderId, data: data as TData | undefined, relay }), [data, isLeader, leaderId, relay]);
+}
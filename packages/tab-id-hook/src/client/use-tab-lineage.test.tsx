@@ -0,0 +1,148 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import React from "react";
+import { MemoryRouter, useLocation } from "react-router";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { registerHandoff } from "./lineage";
+import { TabIdProvider } from "./use-tab-id";
+import { useTabLineage } from "./use-tab-lineage";
+
+describe("use-tab-lineage", () => {
+  // the lineage is tracked by the application's provider (or useTabId() hook)
+  const createWrapper =
+    (initialEntry = "/orders/123") =>
+    ({ children }: { children: React.ReactNode }) => (
+      <MemoryRouter initialEntries={[initialEntry]}>
+        <TabIdProvider navigate={false}>{children}</TabIdProvider>
+      </MemoryRouter>
+    );
+
+  const originalFetch = window.fetch;
+
+  let otherTab: BroadcastChannel;
+  let otherTabMessages: ReturnType<typeof vi.fn<(data: unknown) => void>>;
+
+  beforeEach(() => {
+    window.sessionStorage.clear();
+    window.sessionStorage.setItem("tab-id", "cu-1234");
+    window.history.replaceState(null, "", "/orders/123");
+
+    otherTabMessages = vi.fn();
+    otherTab = new BroadcastChannel("tab-id:lineage");
+    otherTab.onmessage = ({ data }) => otherTabMessages(data);
+  });
+
+  afterEach(() => {
+    window.fetch = originalFetch;
+    otherTab.close();
+    window.history.replaceState(null, "", "/");
+  });
+
+  describe("useTabLineage()", () => {
+    it("should return a root lineage for a tab that wasn't opened by another tab", async () => {
+      const { result, unmount } = renderHook(() => useTabLineage(), { wrapper: createWrapper() });
+
+      expect(result.current).toEqual({ parentId: undefined, children: [], depth: 0 });
+
+      // the new tab asks which tab opened it
+      await waitFor(() =>
+        expect(otherTabMessages).toHaveBeenCalledWith(
+          expect.objectContaining({ type: "claim", tabId: "cu-1234", path: "/orders/123" }),
+        ),
+      );
+
+      unmount();
+    });
+
+    it("should adopt the parent that claims the tab", async () => {
+      const { result, unmount } = renderHook(() => useTabLineage(), { wrapper: createWrapper() });
+
+      await waitFor(() => expect(otherTabMessages).toHaveBeenCalledWith(expect.objectContaining({ type: "claim" })));
+      act(() => otherTab.postMessage({ type: "adopt", to: "cu-1234", parentId: "pa-1234", depth: 1, instanceId: "other" }));
+
+      await waitFor(() => expect(result.current).toEqual({ parentId: "pa-1234", children: [], depth: 2 }));
+
+      unmount();
+    });
+
+    it("should read the parent from the handoff query parameter, and remove it from the URL", async () => {
+      const { result, unmount } = renderHook(() => ({ lineage: useTabLineage(), location: useLocation() }), {
+        wrapper: createWrapper("/orders/123?ptid=pa-1234"),
+      });
+
+      await waitFor(() => expect(result.current.lineage).toEqual({ parentId: "pa-1234", children: [], depth: 1 }));
+      await waitFor(() => expect(result.current.location.search).toBe(""));
+
+      // the new tab tells its parent about itself
+      expect(otherTabMessages).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "child", tabId: "cu-1234", parentId: "pa-1234" }),
+      );
+
+      unmount();
+    });
+
+    it("should keep sending the parent to the server once the handoff query parameter is removed", async () => {
+      const fetch = vi.fn(async (_request: Request) => new Response());
+      window.fetch = fetch as unknown as typeof window.fetch;
+
+      const { result, unmount } = renderHook(() => useLocation(), { wrapper: createWrapper("/orders/123?ptid=pa-1234") });
+      await waitFor(() => expect(result.current.search).toBe(""));
+
+      // ie: React Router's data request of the next navigation
+      await window.fetch("/invoices.data");
+      expect(fetch.mock.calls[0]?.[0].headers.get("X-Parent-Tab-Id")).toBe("pa-1234");
+
+      unmount();
+    });
+
+    it("should keep the lineage recorded in session storage", () => {
+      const lineage = { parentId: "pa-1234", children: [], depth: 1, tabId: "cu-1234" };
+      window.sessionStorage.setItem("tab-id:lineage", JSON.stringify(lineage));
+
+      const { result, unmount } = renderHook(() => useTabLineage(), { wrapper: createWrapper() });
+
+      expect(result.current).toEqual({ parentId: "pa-1234", children: [], depth: 1 });
+      expect(otherTabMessages).not.toHaveBeenCalled();
+
+      unmount();
+    });
+
+    it("should not inherit the lineage of the original tab when duplicated", async () => {
+      // a duplicated tab gets a copy of the original's session storage, and then a new tab ID
+      const lineage = { parentId: "pa-1234", children: ["ch-1234"], depth: 1, tabId: "or-1234" };
+      window.sessionStorage.setItem("tab-id:lineage", JSON.stringify(lineage));
+
+      const { result, unmount } = renderHook(() => useTabLineage(), { wrapper: createWrapper() });
+
+      expect(result.current).toEqual({ parentId: undefined, children: [], depth: 0 });
+      await waitFor(() =>
+        expect(otherTabMessages).toHaveBeenCalledWith(expect.objectContaining({ type: "claim", tabId: "cu-1234" })),
+      );
+
+      unmount();
+    });
+
+    it("should record the tabs opened by the current tab", async () => {
+      const { result, unmount } = renderHook(() => useTabLineage(), { wrapper: createWrapper() });
+
+      // a tab announcing its parent
+      act(() => otherTab.postMessage({ type: "child", tabId: "ch-1234", parentId: "cu-1234", instanceId: "other" }));
+      await waitFor(() => expect(result.current.children).toEqual(["ch-1234"]));
+
+      // a tab claiming a registered handoff
+      registerHandoff("cu-1234", "/invoices?tid=cu-1234", ["tid", "ptid"]);
+      act(() => otherTab.postMessage({ type: "claim", tabId: "ch-5678", path: "/invoices", instanceId: "other" }));
+      await waitFor(() => expect(result.current.children).toEqual(["ch-1234", "ch-5678"]));
+
+      expect(otherTabMessages).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "adopt", to: "ch-5678", parentId: "cu-1234", depth: 0 }),
+      );
+
+      // each handoff is only claimed once
+      act(() => otherTab.postMessage({ type: "claim", tabId: "ch-9012", path: "/invoices", instanceId: "other" }));
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(result.current.children).toEqual(["ch-1234", "ch-5678"]);
+
+      unmount();
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { useCallback, useSyncExternalStore } from "react";
+
+import type { TabLineage } from "./lineage";
+import { getLineageSnapshot, ROOT_LINEAGE, subscribeToLineage } from "./lineage";
+import { useTabIdSnapshot } from "./tab-id-context";
+import type { UseTabIdOptions } from "./use-tab-id";
+import { useTabIdConfig } from "./use-tab-id";
+
+export type { TabLineage } from "./lineage";
+
+/**
+ * Configuration options for the `useTabLineage` hook.
+ */
+export type UseTabLineageOptions = Pick<UseTabIdOptions, "sessionStorageKey">;
+
+/**
+ * React hook that returns which tab opened the current tab, and which tabs the current tab opened.
+ *
+ * - A new tab finds out its parent from the one-time handoff parameter (see `<TabLink handoff="search-param">`),
+ *   from `window.opener`, or by claiming it over a BroadcastChannel (see `<TabLink target="_blank">`).
+ * - The lineage is kept in session storage, so that it survives reloads.
+ * - Uses `useSyncExternalStore` to re-render whenever the lineage changes.
+ *
+ * @param options Configuration options for customizing behavior.
+ * @returns The lineage of the current tab (a root lineage during server-side rendering).
+ */
+export function useTabLineage(options?: UseTabLineageOptions): TabLineage {
+  const config = useTabIdConfig();
+  const { sessionStorageKey = config.sessionStorageKey } = options ?? {};
+
+  const tabId = useTabIdSnapshot(sessionStorageKey);
+
+  return useSyncExternalStore(
+    useCallback((listener: () => void) => subscribeToLineage(sessionStorageKey, listener), [sessionStorageKey]),
+    () => (tabId === undefined ? ROOT_LINEAGE : getLineageSnapshot(sessionStorageKey)),
+    () => ROOT_LINEAGE,
+  );
+}
@@ -0,0 +1,34 @@
+import { act, renderHook } from "@testing-library/react";
+import React from "react";
+import { MemoryRouter, useLocation } from "react-router";
+import { beforeEach, describe, expect, it } from "vitest";
+import { useTabNavigate } from "./use-tab-navigate";
+
+describe("use-tab-navigate()", () => {
+  const wrapper = ({ children }: { children: React.ReactNode }) => (
+    <MemoryRouter initialEntries={["/?tid=ab-1234"]}>{children}</MemoryRouter>
+  );
+
+  beforeEach(() => {
+    window.sessionStorage.clear();
+    window.sessionStorage.setItem("tab-id", "ab-1234");
+  });
+
+  describe("useTabNavigate()", () => {
+    it("should carry the tab ID forward", async () => {
+      const render = () => ({ location: useLocation(), navigate: useTabNavigate() });
+      const { result, unmount } = renderHook(render, { wrapper });
+
+      await act(() => result.current.navigate("/orders?page=2"));
+      expect(result.current.location).toMatchObject({ pathname: "/orders", search: "?page=2&tid=ab-1234" });
+
+      await act(() => result.current.navigate({ pathname: "/cart" }, { replace: true }));
+      expect(result.current.location).toMatchObject({ pathname: "/cart", search: "?tid=ab-1234" });
+
+      await act(() => result.current.navigate(-1));
+      expect(result.current.location).toMatchObject({ pathname: "/", search: "?tid=ab-1234" });
+
+      unmount();
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { useCallback } from "react";
+import type { NavigateFunction, NavigateOptions, To } from "react-router";
+import { useNavigate } from "react-router";
+
+import { useTabIdSnapshot } from "./tab-id-context";
+import { addTabId, addTabIdSegment } from "./tab-path";
+import type { UseTabIdOptions } from "./use-tab-id";
+import { useTabId, useTabIdConfig } from "./use-tab-id";
+
+/**
+ * Configuration options for the `useTabNavigate` hook.
+ */
+export type UseTabNavigateOptions = Pick<UseTabIdOptions, "idSearchParamKey" | "sessionStorageKey">;
+
+/**
+ * React hook that wraps React Router's `useNavigate()` so that every navigation carries the current tab id.
+ *
+ * Without the tab id, the next loaders would run without it, and `useTabId()` would then navigate
+ * a second time to add it back to the URL.
+ *
+ * With the `path-segment` transport (of the closest `<TabIdProvider>`), absolute paths get the tab id route segment.
+ *
+ * @param options Configuration options for customizing behavior.
+ * @returns The navigate function.
+ */
+export function useTabNavigate(options?: UseTabNavigateOptions): NavigateFunction {
+  const config = useTabIdConfig();
+  const { idSearchParamKey = config.idSearchParamKey, sessionStorageKey } = options ?? {};
+
+  const pathPrefix = config.transport.includes("path-segment") ? config.pathPrefix : undefined;
+
+  const navigate = useNavigate();
+  const tabId = useTabIdSnapshot(sessionStorageKey);
+
+  return useCallback(
+    (to: To | number, navigateOptions?: NavigateOptions) => {
+      if (typeof to === "number") {
+        return navigate(to); // history navigation, the entries already hold their tab id
+      }
+
+      if (tabId === undefined) {
+        return navigate(to, navigateOptions);
+      }
+
+      return navigate(
+        pathPrefix === undefined ? addTabId(to, idSearchParamKey, tabId) : addTabIdSegment(to, pathPrefix, tabId),
+        navigateOptions,
+      );
+    },
+    [idSearchParamKey, navigate, pathPrefix, tabId],
+  ) as NavigateFunction;
+}
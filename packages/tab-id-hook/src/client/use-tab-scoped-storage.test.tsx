@@ -0,0 +1,155 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import React from "react";
+import { MemoryRouter } from "react-router";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { TabScopedStorageBackend } from "./tab-scoped-storage";
+import { createLocalStorageBackend, TabScopedValueDecodeError } from "./tab-scoped-storage";
+import { useTabScopedStorage } from "./use-tab-scoped-storage";
+
+describe("use-tab-scoped-storage()", () => {
+  const wrapper = ({ children }: { children: React.ReactNode }) => <MemoryRouter>{children}</MemoryRouter>;
+
+  // a new backend per test, so that values cached by previous tests are not shared
+  let backend: TabScopedStorageBackend;
+
+  beforeEach(() => {
+    window.localStorage.clear();
+    window.sessionStorage.clear();
+    window.sessionStorage.setItem("tab-id", "cu-1234");
+    backend = createLocalStorageBackend();
+  });
+
+  describe("useTabScopedStorage()", () => {
+    it("should load the stored value of the current tab", async () => {
+      window.localStorage.setItem("tab-scoped:cu-1234:draft", '"current"');
+      window.localStorage.setItem("tab-scoped:ot-5678:draft", '"other"');
+
+      const { result, unmount } = renderHook(() => useTabScopedStorage<string>("draft", { backend }), { wrapper });
+
+      await waitFor(() => expect(result.current[0]).toBe("current"));
+      unmount();
+    });
+
+    it("should return the default value while there is no stored value", async () => {
+      const render = () => useTabScopedStorage("draft", { backend, cleanup: false, defaultValue: "empty" });
+      const { result, unmount } = renderHook(render, { wrapper });
+
+      expect(result.current[0]).toBe("empty");
+      unmount();
+    });
+
+    it("should store new values and share them with every hook using the same key", async () => {
+      const render = () => ({
+        first: useTabScopedStorage<number>("count", { backend }),
+        second: useTabScopedStorage<number>("count", { backend }),
+      });
+      const { result, unmount } = renderHook(render, { wrapper });
+
+      act(() => result.current.first[1](1));
+      act(() => result.current.first[1]((current) => (current ?? 0) + 1));
+
+      await waitFor(() => expect(result.current.second[0]).toBe(2));
+      expect(window.localStorage.getItem("tab-scoped:cu-1234:count")).toBe("2");
+
+      act(() => result.current.second[1](undefined));
+
+      await waitFor(() => expect(result.current.first[0]).toBeUndefined());
+      expect(window.localStorage.getItem("tab-scoped:cu-1234:count")).toBeNull();
+
+      unmount();
+    });
+
+    it("should report failing updates, and keep applying the next ones", async () => {
+      const quotaExceeded = new DOMException("Quota exceeded", "QuotaExceededError");
+      const setItem = backend.setItem.bind(backend);
+      vi.spyOn(backend, "setItem").mockImplementation((key, value) =>
+        value === 1 ? Promise.reject(quotaExceeded) : setItem(key, value),
+      );
+      const onError = vi.fn();
+
+      const render = () => useTabScopedStorage<number>("count", { backend, cleanup: false, onError });
+      const { result, unmount } = renderHook(render, { wrapper });
+
+      act(() => result.current[1](1));
+      await waitFor(() => expect(onError).toHaveBeenCalledWith(quotaExceeded));
+
+      act(() =>
+        result.current[1](() => {
+          throw new Error("Broken updater");
+        }),
+      );
+      await waitFor(() => expect(onError).toHaveBeenCalledTimes(2));
+
+      act(() => result.current[1](2));
+      await waitFor(() => expect(window.localStorage.getItem("tab-scoped:cu-1234:count")).toBe("2"));
+
+      unmount();
+    });
+
+    it("should report a value that can't be decoded, and start over", async () => {
+      window.localStorage.setItem("tab-scoped:cu-1234:draft", "not json");
+      const onError = vi.fn();
+
+      const render = () => useTabScopedStorage<string>("draft", { backend, cleanup: false, onError });
+      const { result, unmount } = renderHook(render, { wrapper });
+
+      await waitFor(() => expect(onError).toHaveBeenCalledWith(expect.any(TabScopedValueDecodeError)));
+
+      act(() => result.current[1]("hello"));
+      await waitFor(() => expect(window.localStorage.getItem("tab-scoped:cu-1234:draft")).toBe('"hello"'));
+
+      unmount();
+    });
+
+    it("should report a value that can't be read, and never overwrite it", async () => {
+      const readError = new DOMException("I/O error", "UnknownError");
+      vi.spyOn(backend, "getItem").mockRejectedValue(readError);
+      const setItem = vi.spyOn(backend, "setItem");
+      const onError = vi.fn();
+
+      const render = () => useTabScopedStorage<string>("draft", { backend, cleanup: false, onError });
+      const { result, unmount } = renderHook(render, { wrapper });
+
+      await waitFor(() => expect(onError).toHaveBeenCalledWith(readError));
+
+      act(() => result.current[1]("hello"));
+      await waitFor(() => expect(onError).toHaveBeenCalledTimes(2));
+      expect(setItem).not.toHaveBeenCalledWith("tab-scoped:cu-1234:draft", "hello");
+
+      unmount();
+    });
+
+    it("should keep values after the hook is unmounted", async () => {
+      const first = renderHook(() => useTabScopedStorage<string>("draft", { backend }), { wrapper });
+      act(() => first.result.current[1]("hello"));
+      await waitFor(() => expect(first.result.current[0]).toBe("hello"));
+      first.unmount();
+
+      const second = renderHook(() => useTabScopedStorage<string>("draft", { backend }), { wrapper });
+      expect(second.result.current[0]).toBe("hello");
+      second.unmount();
+    });
+
+    it("should hold the tab's lease and clean up the values of closed tabs", async () => {
+      window.localStorage.setItem("tab-scoped:cl-5678:draft", '"closed"');
+
+      const { unmount } = renderHook(() => useTabScopedStorage("draft", { backend }), { wrapper });
+
+      await waitFor(() => expect(window.localStorage.getItem("tab-scoped:cl-5678:draft")).toBeNull());
+      expect(Number(window.localStorage.getItem("tab-scoped:cu-1234"))).toBeGreaterThan(0);
+
+      unmount();
+    });
+
+    it("should not clean up when cleanup is false", async () => {
+      window.localStorage.setItem("tab-scoped:cl-5678:draft", '"closed"');
+
+      const { unmount } = renderHook(() => useTabScopedStorage("draft", { backend, cleanup: false }), { wrapper });
+
+      await waitFor(() => expect(window.localStorage.getItem("tab-scoped:cu-1234")).not.toBeNull());
+      expect(window.localStorage.getItem("tab-scoped:cl-5678:draft")).toBe('"closed"');
+
+      unmount();
+    });
+  });
+});
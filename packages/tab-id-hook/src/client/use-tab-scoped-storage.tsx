@@ -0,0 +1,137 @@
+import { useCallback, useEffect, useMemo, useRef, useSyncExternalStore } from "react";
+
+import { TAB_SCOPED_STORAGE_NAMESPACE } from "../defaults";
+import { useTabIdSnapshot } from "./tab-id-context";
+import type { TabScopedStorageBackend } from "./tab-scoped-storage";
+import { cleanupTabScopedStorage, createLocalStorageBackend } from "./tab-scoped-storage";
+import { cleanupOnce, getValueSnapshot, holdLease, subscribeToValue, toStorageKey, updateValue } from "./tab-scoped-values";
+import type { UseTabIdOptions } from "./use-tab-id";
+import { useTabIdConfig } from "./use-tab-id";
+
+/**
+ * Configuration options for the `useTabScopedStorage` hook.
+ */
+export type UseTabScopedStorageOptions<T> = Pick<UseTabIdOptions, "sessionStorageKey"> & {
+  /**
+   * Where the values are kept.
+   * @default createLocalStorageBackend()
+   */
+  backend?: TabScopedStorageBackend;
+  /**
+   * Whether to delete the values of closed tabs (once per document, see `cleanupTabScopedStorage()`).
+   * @default true
+   */
+  cleanup?: boolean;
+  /**
+   * The value returned while there is no stored value (or it is still loading).
+   */
+  defaultValue?: T;
+  /**
+   * How long (in milliseconds) a tab can go without renewing its lease before its values are deleted by the cleanup.
+   * @default 86400000 (24 hours)
+   */
+  maxAge?: number;
+  /**
+   * The namespace of the keys, shared by every tab.
+   * @default 'tab-scoped'
+   */
+  namespace?: string;
+  /**
+   * Called when the backend fails (ie: a write exceeding the `localStorage` quota), or when an updater throws.
+   * The value held in memory is kept, and the next updates still apply.
+   * @default console.error
+   */
+  onError?: (error: unknown) => void;
+};
+
+/**
+ * Updates a tab-scoped value, with a new value or a function of the current value. `undefined` removes the value.
+ */
+export type TabScopedValueSetter<T> = (value: T | undefined | ((current: T | undefined) => T | undefined)) => void;
+
+/**
+ * The backend used when none is provided, shared by every hook so that they share their values.
+ */
+let defaultBackend: TabScopedStorageBackend | undefined;
+
+/**
+ * React hook that keeps a value scoped to the current browser tab in a persistent backend
+ * (`localStorage` by default, or IndexedDB for larger values), under the namespace of the tab's id.
+ *
+ * - Values outlive the React tree that rendered them, and are shared by every hook of the document using the same key.
+ * - Values of other tabs are never visible, even though the backend is shared by every tab.
+ * - Values of closed tabs are deleted (see `cleanupTabScopedStorage()`), so that they don't pile up forever.
+ * - Uses `useSyncExternalStore` to re-render whenever the value changes.
+ *
+ * @param key The key of the value (within the tab's namespace).
+ * @param options Configuration options for customizing behavior.
+ * @returns The value (or `defaultValue` while there is none, including during server-side rendering) and its setter.
+ */
+export function useTabScopedStorage<T>(
+  key: string,
+  options?: UseTabScopedStorageOptions<T>,
+): [T | undefined, TabScopedValueSetter<T>] {
+  const config = useTabIdConfig();
+  const {
+    backend = (defaultBackend ??= createLocalStorageBackend()),
+    cleanup = true,
+    defaultValue,
+    maxAge,
+    namespace = TAB_SCOPED_STORAGE_NAMESPACE,
+    onError = console.error,
+    sessionStorageKey = config.sessionStorageKey,
+  } = options ?? {};
+
+  const tabId = useTabIdSnapshot(sessionStorageKey);
+
+  // the latest error handler, without re-running the effects when it changes
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  const reportError = useCallback((error: unknown) => onErrorRef.current(error), []);
+  const storageKey = tabId === undefined ? undefined : toStorageKey(namespace, tabId, key);
+
+  const value = useSyncExternalStore(
+    useCallback(
+      (callback: () => void) =>
+        storageKey === undefined ? () => {} : subscribeToValue(backend, storageKey, callback, reportError),
+      [backend, reportError, storageKey],
+    ),
+    () => (storageKey === undefined ? undefined : getValueSnapshot(backend, storageKey)) as T | undefined,
+    () => undefined, // server-side snapshot: values are only stored in the browser
+  );
+
+  //
+  // Hold the tab's lease (so that its values survive the cleanup), and delete the values of closed tabs
+  //
+
+  useEffect(() => {
+    if (tabId !== undefined) {
+      return holdLease(backend, namespace, tabId, reportError);
+    }
+  }, [backend, namespace, reportError, tabId]);
+
+  useEffect(() => {
+    if (cleanup && tabId !== undefined) {
+      const cleanupClosedTabs = () => cleanupTabScopedStorage({ backend, maxAge, namespace, sessionStorageKey });
+      cleanupOnce(backend, namespace, cleanupClosedTabs, reportError);
+    }
+  }, [backend, cleanup, maxAge, namespace, reportError, sessionStorageKey, tabId]);
+
+  const setValue = useMemo<TabScopedValueSetter<T>>(
+    () => (newValue) => {
+      if (storageKey !== undefined) {
+        updateValue(
+          backend,
+          storageKey,
+          (current) =>
+            typeof newValue === "function" ? (newValue as (current: T | undefined) => T | undefined)(current as T) : newValue,
+          reportError,
+        );
+      }
+    },
+    [backend, reportError, storageKey],
+  );
+
+  return [value ?? defaultValue, setValue];
+}
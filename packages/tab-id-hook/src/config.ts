@@ -0,0 +1,81 @@
+import type { TabIdTransport } from "./client/transports";
+import type { TabIdGenerator } from "./id-generators";
+
+/**
+ * The tab ID configuration shared by the client (`<TabIdProvider>` and `useTabId()`) and the server
+ * (`getTabId()`, `mintTabId()` and everything built on them), so that both sides can't drift apart.
+ */
+export type TabIdConfig = {
+  /**
+   * The router's basename, preceding the tab ID segment in the URLs of the `path-segment` transport
+   * (server-side only: the client reads it from the router).
+   * @default '/'
+   */
+  basename?: string;
+  /**
+   * The query parameter used to hand the fork token over to a forked tab (see `forkTab()`).
+   * @default 'tfork'
+   */
+  forkSearchParamKey?: string;
+  /**
+   * The strategy used to generate (and, on the server, validate) tab IDs.
+   * @default createShortIdGenerator() (ids in the format `xx-0000`)
+   */
+  generator?: TabIdGenerator;
+  /**
+   * The HTTP header used to send the tab ID.
+   * @default 'X-Tab-Id'
+   */
+  headerName?: string;
+  /**
+   * The query parameter (and form field) used to send the tab ID.
+   * @default 'tid'
+   */
+  idSearchParamKey?: string;
+  /**
+   * The cookie holding a tab ID minted by the server.
+   * @default 'tid-issued'
+   */
+  issuedCookieName?: string;
+  /**
+   * The query parameter used to hand the parent tab ID over to a newly opened tab.
+   * @default 'ptid'
+   */
+  parentSearchParamKey?: string;
+  /**
+   * The route segment preceding the tab ID when using the `path-segment` transport (see `tabIdRoutes()`).
+   * @default 't'
+   */
+  pathPrefix?: string;
+  /**
+   * The session storage key used for persisting the tab ID (client-side only).
+   * @default 'tab-id'
+   */
+  sessionStorageKey?: string;
+  /**
+   * How the tab ID is sent to the server. On the server, the `path-segment` transport makes `getTabId()` read
+   * the route segment rather than the query parameter, and `mintTabId()` add the tab ID to the path.
+   * @default 'search-param'
+   */
+  transport?: TabIdTransport | TabIdTransport[];
+};
+
+/**
+ * Defines the tab ID configuration of an application, to share between the client and the server.
+ *
+ * @example
+ * // app/tab-id.ts
+ * export const tabIdConfig = defineTabIdConfig({ generator: createUuidV7Generator(), idSearchParamKey: 'tab' });
+ *
+ * // app/root.tsx
+ * <TabIdProvider config={tabIdConfig}>...</TabIdProvider>
+ *
+ * // app/routes/orders.tsx
+ * const tabId = getTabId(request, { config: tabIdConfig });
+ *
+ * @param config The configuration.
+ * @returns The (frozen) configuration.
+ */
+export function defineTabIdConfig(config: TabIdConfig): Readonly<TabIdConfig> {
+  return Object.freeze({ ...config });
+}
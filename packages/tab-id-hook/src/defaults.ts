@@ -7,3 +7,58 @@ export const SEARCH_PARAM_KEY = "tid";
  * The default session storage key used to persist the tab ID.
  */
 export const SESSION_STORAGE_KEY = "tab-id";
+
+/**
+ * The default HTTP header used to send the tab ID.
+ */
+export const HEADER_NAME = "X-Tab-Id";
+
+/**
+ * The default cookie used to hand a server-minted tab ID over to the client.
+ */
+export const ISSUED_COOKIE_NAME = "tid-issued";
+
+/**
+ * The default namespace of the keys used by `useTabScopedStorage()`.
+ */
+export const TAB_SCOPED_STORAGE_NAMESPACE = "tab-scoped";
+
+/**
+ * The default query parameter key used to hand the parent tab ID over to a newly opened tab.
+ */
+export const PARENT_SEARCH_PARAM_KEY = "ptid";
+
+/**
+ * The default HTTP header used to send the parent tab ID.
+ */
+export const PARENT_HEADER_NAME = "X-Parent-Tab-Id";
+
+/**
+ * The default query parameter key used to hand the fork token over to a forked tab (see `forkTab()`).
+ */
+export const FORK_SEARCH_PARAM_KEY = "tfork";
+
+/**
+ * The default URL of the route issuing fork tokens (see `forkTab()` and `createTabForkRoute()`).
+ */
+export const FORK_ENDPOINT = "/tab-fork";
+
+/**
+ * The default field used to attach the tab ID to structured log records.
+ */
+export const LOG_FIELD_NAME = "tabId";
+
+/**
+ * The default OpenTelemetry span attribute used to record the tab ID.
+ */
+export const SPAN_ATTRIBUTE_NAME = "tab.id";
+
+/**
+ * The default route segment preceding the tab ID when using the `path-segment` transport (ie: `/t/ab-1234/orders`).
+ */
+export const PATH_PREFIX = "t";
+
+/**
+ * The HTTP header marking the responses refused by a tab limiter (see `createTabLimiter()`).
+ */
+export const TAB_LIMIT_HEADER_NAME = "X-Tab-Limit-Exceeded";
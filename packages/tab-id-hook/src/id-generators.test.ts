@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import {
+  createCustomGenerator,
+  createNanoIdGenerator,
+  createShortIdGenerator,
+  createUuidV4Generator,
+  createUuidV7Generator,
+  generateId,
+} from "./id-generators";
+
+describe("id-generators", () => {
+  describe("generateId()", () => {
+    it("should generate an ID in the correct format (xx-0000)", () => {
+      expect(generateId()).toMatch(/^[a-z]{2}-\d{4}$/);
+    });
+
+    it("should generate unique IDs", () => {
+      expect(generateId()).not.toBe(generateId());
+    });
+
+    it("should generate an ID using the given generator", () => {
+      expect(generateId(createCustomGenerator(() => "custom-id"))).toBe("custom-id");
+    });
+  });
+
+  describe("createShortIdGenerator()", () => {
+    const generator = createShortIdGenerator();
+
+    it("should generate valid IDs in the format xx-0000", () => {
+      const id = generator.generate();
+      expect(id).toMatch(/^[a-z]{2}-\d{4}$/);
+      expect(generator.validate(id)).toBe(true);
+    });
+
+    it("should reject values in another format", () => {
+      expect(generator.validate("AB-1234")).toBe(false);
+      expect(generator.validate("ab-12345")).toBe(false);
+      expect(generator.validate("")).toBe(false);
+    });
+  });
+
+  describe("createUuidV4Generator()", () => {
+    const generator = createUuidV4Generator();
+
+    it("should generate valid version 4 UUIDs", () => {
+      const id = generator.generate();
+      expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+      expect(generator.validate(id)).toBe(true);
+      expect(generator.generate()).not.toBe(id);
+    });
+
+    it("should reject other UUID versions", () => {
+      expect(generator.validate(createUuidV7Generator().generate())).toBe(false);
+      expect(generator.validate("ab-1234")).toBe(false);
+    });
+  });
+
+  describe("createUuidV7Generator()", () => {
+    const generator = createUuidV7Generator();
+
+    it("should generate valid version 7 UUIDs", () => {
+      const id = generator.generate();
+      expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+      expect(generator.validate(id)).toBe(true);
+    });
+
+    it("should embed the current timestamp", () => {
+      const before = Date.now();
+      const id = generator.generate();
+      const timestamp = parseInt(id.replace(/-/g, "").slice(0, 12), 16);
+
+      expect(timestamp).toBeGreaterThanOrEqual(before);
+      expect(timestamp).toBeLessThanOrEqual(Date.now());
+    });
+
+    it("should reject other UUID versions", () => {
+      expect(generator.validate(createUuidV4Generator().generate())).toBe(false);
+    });
+  });
+
+  describe("createNanoIdGenerator()", () => {
+    it("should generate URL-safe IDs of 21 characters by default", () => {
+      const generator = createNanoIdGenerator();
+      const id = generator.generate();
+
+      expect(id).toMatch(/^[A-Za-z0-9_-]{21}$/);
+      expect(generator.validate(id)).toBe(true);
+    });
+
+    it("should use the configured alphabet and size", () => {
+      const generator = createNanoIdGenerator({ alphabet: "abc", size: 8 });
+      const id = generator.generate();
+
+      expect(id).toMatch(/^[abc]{8}$/);
+      expect(generator.validate(id)).toBe(true);
+      expect(generator.validate("abcabcab1")).toBe(false);
+      expect(generator.validate("abcabcad")).toBe(false);
+    });
+  });
+
+  describe("createCustomGenerator()", () => {
+    it("should use the given functions", () => {
+      const generator = createCustomGenerator(
+        () => "tab-1",
+        (id) => id.startsWith("tab-"),
+      );
+
+      expect(generator.generate()).toBe("tab-1");
+      expect(generator.validate("tab-2")).toBe(true);
+      expect(generator.validate("ab-1234")).toBe(false);
+    });
+
+    it("should accept any non-empty value by default", () => {
+      const generator = createCustomGenerator(() => "tab-1");
+
+      expect(generator.validate("anything")).toBe(true);
+      expect(generator.validate("")).toBe(false);
+    });
+  });
+});
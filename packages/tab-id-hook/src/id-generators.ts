@@ -0,0 +1,145 @@
+/**
+ * A strategy for generating (and recognizing) tab IDs.
+ */
+export type TabIdGenerator = {
+  /**
+   * Generates a new tab ID.
+   */
+  generate: () => string;
+  /**
+   * Returns `true` if the given value is a tab ID that could have been generated by this strategy.
+   */
+  validate: (id: string) => boolean;
+};
+
+/**
+ * Configuration options for `createNanoIdGenerator()`.
+ */
+export type NanoIdGeneratorOptions = {
+  /**
+   * The characters allowed in the generated IDs.
+   * @default 'A-Za-z0-9_-' (URL-safe)
+   */
+  alphabet?: string;
+  /**
+   * The length of the generated IDs.
+   * @default 21
+   */
+  size?: number;
+};
+
+const DIGITS = "0123456789";
+const LOWERCASE_LETTERS = "abcdefghijklmnopqrstuvwxyz";
+const URL_SAFE_ALPHABET = `${LOWERCASE_LETTERS.toUpperCase()}${LOWERCASE_LETTERS}${DIGITS}_-`;
+
+/**
+ * Creates the default strategy: short IDs in the format `xx-0000`, generated with `crypto.getRandomValues()`.
+ * These IDs are designed to be short yet sufficiently unique for identifying tabs within a single browser session.
+ *
+ * With only ~6.7 million possible values, they can be guessed (and collide across many users): use a UUID or
+ * nanoid generator (or signed tab IDs) when tab IDs key server-side state.
+ */
+export function createShortIdGenerator(): TabIdGenerator {
+  return {
+    generate: () => `${randomString(2, LOWERCASE_LETTERS)}-${randomString(4, DIGITS)}`,
+    validate: (id) => /^[a-z]{2}-\d{4}$/.test(id),
+  };
+}
+
+/**
+ * Creates a strategy that generates random (version 4) UUIDs.
+ */
+export function createUuidV4Generator(): TabIdGenerator {
+  return {
+    generate: () => {
+      const bytes = crypto.getRandomValues(new Uint8Array(16));
+      return formatUuid(bytes, 4);
+    },
+    validate: (id) => /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(id),
+  };
+}
+
+/**
+ * Creates a strategy that generates time-ordered (version 7) UUIDs.
+ */
+export function createUuidV7Generator(): TabIdGenerator {
+  return {
+    generate: () => {
+      const bytes = crypto.getRandomValues(new Uint8Array(16));
+      const timestamp = Date.now();
+
+      // the first 48 bits hold the unix timestamp in milliseconds (big-endian)
+      for (let i = 0; i < 6; i++) {
+        bytes[i] = Math.floor(timestamp / 2 ** (8 * (5 - i))) & 0xff;
+      }
+
+      return formatUuid(bytes, 7);
+    },
+    validate: (id) => /^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(id),
+  };
+}
+
+/**
+ * Creates a strategy that generates nanoid-style IDs: random strings of a configurable length and alphabet.
+ *
+ * @param options Configuration options.
+ */
+export function createNanoIdGenerator(options?: NanoIdGeneratorOptions): TabIdGenerator {
+  const { alphabet = URL_SAFE_ALPHABET, size = 21 } = options ?? {};
+
+  return {
+    generate: () => randomString(size, alphabet),
+    validate: (id) => id.length === size && [...id].every((char) => alphabet.includes(char)),
+  };
+}
+
+/**
+ * Creates a strategy from custom functions.
+ *
+ * @param generate The function that generates a new tab ID.
+ * @param validate The function that recognizes a tab ID. Defaults to accepting any non-empty value.
+ */
+export function createCustomGenerator(
+  generate: () => string,
+  validate: (id: string) => boolean = (id) => id.length > 0,
+): TabIdGenerator {
+  return { generate, validate };
+}
+
+/**
+ * The strategy used when none is configured.
+ */
+const defaultGenerator = createShortIdGenerator();
+
+/**
+ * Generates a random tab identifier.
+ *
+ * @param generator The strategy used to generate the ID. Defaults to short IDs in the format `xx-0000`.
+ * @returns The generated tab ID.
+ */
+export function generateId(generator: TabIdGenerator = defaultGenerator): string {
+  return generator.generate();
+}
+
+/**
+ * Generates a cryptographically random string of a specified length using a given set of allowed characters.
+ *
+ * @param len The length of the string to generate.
+ * @param allowedChars A string containing all characters allowed in the result.
+ * @returns The generated random string.
+ */
+function randomString(len: number, allowedChars: string): string {
+  const values = crypto.getRandomValues(new Uint32Array(len));
+  return Array.from(values, (value) => allowedChars[value % allowedChars.length]).join("");
+}
+
+/**
+ * Formats 16 random bytes as a UUID of the given version (setting the version and variant bits).
+ */
+function formatUuid(bytes: Uint8Array, version: number): string {
+  bytes[6] = (version << 4) | ((bytes[6] ?? 0) & 0x0f);
+  bytes[8] = 0x80 | ((bytes[8] ?? 0) & 0x3f);
+
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
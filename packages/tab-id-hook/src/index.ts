@@ -1,3 +1,32 @@
+export * from "./client/fork-tab";
+export * from "./client/history-adapter";
+export * from "./client/tab-form";
+export * from "./client/tab-id-input";
+export * from "./client/tab-id-store";
+export * from "./client/tab-link";
+export * from "./client/tab-scoped-storage";
+export * from "./client/use-open-tabs";
+export * from "./client/use-tab-channel";
+export * from "./client/use-tab-fetcher";
+export * from "./client/use-tab-href";
 export * from "./client/use-tab-id";
+export * from "./client/use-tab-leader";
+export * from "./client/use-tab-lineage";
+export * from "./client/use-tab-navigate";
+export * from "./client/use-tab-scoped-storage";
+export * from "./config";
 export * from "./defaults";
+export * from "./id-generators";
+export * from "./server/get-parent-tab-id";
 export * from "./server/get-tab-id";
+export * from "./server/mint-tab-id";
+export * from "./server/signed-tab-id";
+export * from "./server/tab-fork-route";
+export * from "./server/tab-id-middleware";
+export * from "./server/tab-id-scope";
+export * from "./server/tab-lifecycle-route";
+export * from "./server/tab-limiter";
+export * from "./server/tab-session-storage";
+export * from "./server/tab-store";
+export * from "./server/tab-store-backends";
+export * from "./tab-id-routes";
@@ -0,0 +1,65 @@
+import type { TabIdConfig } from "./config";
+
+/**
+ * Returns `true` if the configuration keeps the tab ID in a route segment (the `path-segment` transport).
+ */
+export function hasPathSegmentTransport(config?: Pick<TabIdConfig, "transport">): boolean {
+  return [config?.transport ?? []].flat().includes("path-segment");
+}
+
+/**
+ * Reads the tab ID from the route segment following the prefix (ie: `ab-1234` in `/t/ab-1234/orders`).
+ * The `.data` suffix of React Router data requests (ie: `/t/ab-1234.data`) is ignored.
+ *
+ * @param pathname The pathname, without the basename.
+ * @param prefix The route segment preceding the tab ID.
+ * @returns The tab ID, or `undefined` if the pathname doesn't start with the prefix.
+ */
+export function getPathTabId(pathname: string, prefix: string): string | undefined {
+  const [, first, second, ...rest] = pathname.split("/");
+
+  if (first !== prefix || second === undefined || second === "") {
+    return undefined;
+  }
+
+  return rest.length === 0 ? second.replace(/\.data$/, "") : second;
+}
+
+/**
+ * Sets (or replaces) the tab ID segment of a pathname, ie: `/orders` becomes `/t/ab-1234/orders`.
+ *
+ * @param pathname The pathname, without the basename.
+ * @param prefix The route segment preceding the tab ID.
+ * @param tabId The tab ID.
+ * @returns The pathname, with the tab ID.
+ */
+export function setPathTabId(pathname: string, prefix: string, tabId: string): string {
+  const rest = removePathTabId(pathname, prefix);
+  return `/${prefix}/${tabId}${rest === "/" ? "" : rest}`;
+}
+
+/**
+ * Removes the tab ID segment of a pathname, ie: `/t/ab-1234/orders` becomes `/orders`.
+ *
+ * @param pathname The pathname, without the basename.
+ * @param prefix The route segment preceding the tab ID.
+ * @returns The pathname, without the tab ID.
+ */
+export function removePathTabId(pathname: string, prefix: string): string {
+  const segments = pathname.split("/");
+  return segments[1] === prefix && segments.length > 2 ? `/${segments.slice(3).join("/")}` : pathname;
+}
+
+/**
+ * Splits a pathname into the router's basename and the rest of the pathname (ie: `/app/t/ab-1234` with the
+ * `/app` basename). Pathnames outside the basename are returned whole.
+ */
+export function splitBasename(pathname: string, basename = "/"): [basename: string, pathname: string] {
+  const base = basename.replace(/\/+$/, "");
+
+  if (base === "" || (pathname !== base && !pathname.startsWith(`${base}/`))) {
+    return ["", pathname];
+  }
+
+  return [base, pathname.slice(base.length) || "/"];
+}
@@ -0,0 +1,22 @@
+/**
+ * Reads a cookie from the request's `Cookie` header.
+ *
+ * @param request The request to inspect.
+ * @param name The name of the cookie.
+ * @returns The (decoded) value of the cookie, or `undefined` if it isn't set (or can't be decoded).
+ */
+export function getCookie(request: Request, name: string): string | undefined {
+  for (const cookie of request.headers.get("Cookie")?.split(";") ?? []) {
+    const [key, ...value] = cookie.trim().split("=");
+
+    if (key === name) {
+      try {
+        return decodeURIComponent(value.join("="));
+      } catch {
+        return undefined; // a malformed cookie (ie: `%E0%A4%A`) is treated as missing
+      }
+    }
+  }
+
+  return undefined;
+}
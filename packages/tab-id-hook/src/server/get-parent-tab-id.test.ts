@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { defineTabIdConfig } from "../config";
+import { PARENT_SEARCH_PARAM_KEY, SEARCH_PARAM_KEY } from "../defaults";
+import { createUuidV4Generator } from "../id-generators";
+import { getParentTabId } from "./get-parent-tab-id";
+
+describe("getParentTabId()", () => {
+  it("should return undefined if the request does not carry a parent tab ID", () => {
+    const request = new Request(`http://localhost:3000/?${SEARCH_PARAM_KEY}=ab-1234`);
+    expect(getParentTabId(request)).toBeUndefined();
+  });
+
+  it("should return the parent tab ID from the X-Parent-Tab-Id header", () => {
+    const request = new Request("http://localhost:3000/", {
+      headers: { "X-Tab-Id": "ab-1234", "X-Parent-Tab-Id": "cd-5678" },
+    });
+
+    expect(getParentTabId(request)).toBe("cd-5678");
+  });
+
+  it("should return the parent tab ID from the handoff query parameter", () => {
+    const request = new Request(`http://localhost:3000/?${PARENT_SEARCH_PARAM_KEY}=cd-5678`);
+    expect(getParentTabId(request)).toBe("cd-5678");
+  });
+
+  it("should use the query parameter of the shared configuration", () => {
+    const config = defineTabIdConfig({ parentSearchParamKey: "opener" });
+    const request = new Request("http://localhost:3000/?opener=cd-5678&ptid=ef-9012");
+
+    expect(getParentTabId(request, { config })).toBe("cd-5678");
+  });
+
+  it("should return undefined if the parent tab ID does not fit the configured generator's format", () => {
+    const request = new Request("http://localhost:3000/", { headers: { "X-Parent-Tab-Id": "cd-5678" } });
+    expect(getParentTabId(request, { generator: createUuidV4Generator() })).toBeUndefined();
+  });
+});
@@ -0,0 +1,38 @@
+import { PARENT_HEADER_NAME, PARENT_SEARCH_PARAM_KEY } from "../defaults";
+import type { GetTabIdOptions } from "./get-tab-id";
+import { getTabId } from "./get-tab-id";
+
+/**
+ * Configuration options for `getParentTabId()`.
+ */
+export type GetParentTabIdOptions = Pick<GetTabIdOptions, "config" | "generator"> & {
+  /**
+   * The header to check (sent by the `header` transport once the tab knows its parent).
+   * @default 'X-Parent-Tab-Id'
+   */
+  headerName?: string;
+  /**
+   * The query param to check (the one-time handoff parameter, see `<TabLink handoff="search-param">`).
+   * @default 'ptid'
+   */
+  paramKey?: string;
+};
+
+/**
+ * Extracts the ID of the tab that opened the requesting tab (see `useTabLineage()`) from the request:
+ * the `X-Parent-Tab-Id` header, or the one-time handoff query parameter of the first request of a new tab.
+ *
+ * @param request The request object to inspect.
+ * @param options Configuration options.
+ * @returns The parent tab ID if found (and valid), otherwise `undefined`.
+ */
+export function getParentTabId(request: Request, options?: GetParentTabIdOptions): string | undefined {
+  const {
+    config,
+    generator = config?.generator,
+    headerName = PARENT_HEADER_NAME,
+    paramKey = config?.parentSearchParamKey ?? PARENT_SEARCH_PARAM_KEY,
+  } = options ?? {};
+
+  return getTabId(request, { generator, headerName, paramKey, sources: ["header", "search-param"] });
+}
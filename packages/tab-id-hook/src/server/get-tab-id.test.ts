@@ -1,6 +1,9 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
+import { defineTabIdConfig } from "../config";
 import { SEARCH_PARAM_KEY } from "../defaults";
-import { getTabId } from "./get-tab-id";
+import { createShortIdGenerator, createUuidV4Generator } from "../id-generators";
+import { getTabId, getTabIdFromFormData } from "./get-tab-id";
+import { signTabId } from "./signed-tab-id";
 
 describe("getTabId()", () => {
   it("should return undefined if the tab ID is not present in the URL", () => {
@@ -32,4 +35,221 @@ describe("getTabId()", () => {
     const request = new Request(`http://localhost:3000/?${SEARCH_PARAM_KEY}=first&${SEARCH_PARAM_KEY}=second`);
     expect(getTabId(request)).toBe("first");
   });
+
+  it("should return the tab ID if it fits the configured generator's format", () => {
+    const request = new Request(`http://localhost:3000/?${SEARCH_PARAM_KEY}=ab-1234`);
+    expect(getTabId(request, { generator: createShortIdGenerator() })).toBe("ab-1234");
+  });
+
+  it("should return undefined if the tab ID does not fit the configured generator's format", () => {
+    const request = new Request(`http://localhost:3000/?${SEARCH_PARAM_KEY}=ab-1234`);
+    expect(getTabId(request, { generator: createUuidV4Generator() })).toBeUndefined();
+  });
+
+  it("should return the tab ID from the X-Tab-Id header", () => {
+    const request = new Request("http://localhost:3000/", { headers: { "X-Tab-Id": "ab-1234" } });
+    expect(getTabId(request)).toBe("ab-1234");
+  });
+
+  it("should return the tab ID from a custom header", () => {
+    const request = new Request("http://localhost:3000/", { headers: { "X-Custom-Tab": "ab-1234" } });
+    expect(getTabId(request, { headerName: "X-Custom-Tab" })).toBe("ab-1234");
+  });
+
+  it("should return the tab ID from the provided form data", () => {
+    const formData = new FormData();
+    formData.set(SEARCH_PARAM_KEY, "ab-1234");
+
+    const request = new Request("http://localhost:3000/", { method: "POST" });
+    expect(getTabId(request, { formData })).toBe("ab-1234");
+  });
+
+  it("should ignore files in the provided form data", () => {
+    const formData = new FormData();
+    formData.set(SEARCH_PARAM_KEY, new Blob(["ab-1234"]));
+
+    const request = new Request("http://localhost:3000/", { method: "POST" });
+    expect(getTabId(request, { formData })).toBeUndefined();
+  });
+
+  it("should return the tab ID from a cookie when the cookie source is enabled", () => {
+    const request = new Request("http://localhost:3000/", { headers: { Cookie: `foo=bar; ${SEARCH_PARAM_KEY}=ab-1234` } });
+
+    expect(getTabId(request)).toBeUndefined();
+    expect(getTabId(request, { sources: ["cookie"] })).toBe("ab-1234");
+    expect(getTabId(request, { sources: ["cookie"], cookieName: "foo" })).toBe("bar");
+  });
+
+  it("should treat a malformed cookie as missing", () => {
+    const request = new Request("http://localhost:3000/?tid=from-query", {
+      headers: { Cookie: `${SEARCH_PARAM_KEY}=%E0%A4%A` },
+    });
+
+    expect(getTabId(request, { sources: ["cookie", "search-param"] })).toBe("from-query");
+  });
+
+  it("should check the header, then the form data, then the query parameter by default", () => {
+    const formData = new FormData();
+    formData.set(SEARCH_PARAM_KEY, "from-form");
+
+    const url = `http://localhost:3000/?${SEARCH_PARAM_KEY}=from-query`;
+    const withHeader = new Request(url, { headers: { "X-Tab-Id": "from-header" } });
+    const withoutHeader = new Request(url);
+
+    expect(getTabId(withHeader, { formData })).toBe("from-header");
+    expect(getTabId(withoutHeader, { formData })).toBe("from-form");
+    expect(getTabId(withoutHeader)).toBe("from-query");
+  });
+
+  it("should check the sources in the configured order", () => {
+    const request = new Request(`http://localhost:3000/?${SEARCH_PARAM_KEY}=from-query`, {
+      headers: { "X-Tab-Id": "from-header", Cookie: `${SEARCH_PARAM_KEY}=from-cookie` },
+    });
+
+    expect(getTabId(request, { sources: ["search-param", "header"] })).toBe("from-query");
+    expect(getTabId(request, { sources: ["cookie", "search-param"] })).toBe("from-cookie");
+    expect(getTabId(request, { sources: ["form-data"] })).toBeUndefined();
+  });
+
+  it("should use the shared tab ID configuration", () => {
+    const config = defineTabIdConfig({ generator: createUuidV4Generator(), headerName: "X-Tab", idSearchParamKey: "tab" });
+    const uuid = "0b3c6f5e-8a2d-4f1e-9c7b-2d4e6f8a0b1c";
+
+    expect(getTabId(new Request(`http://localhost:3000/?tab=${uuid}`), { config })).toBe(uuid);
+    expect(getTabId(new Request("http://localhost:3000/", { headers: { "X-Tab": uuid } }), { config })).toBe(uuid);
+    expect(getTabId(new Request("http://localhost:3000/?tab=ab-1234"), { config })).toBeUndefined();
+    expect(getTabId(new Request(`http://localhost:3000/?tid=${uuid}`), { config })).toBeUndefined();
+  });
+
+  it("should prefer the options over the shared tab ID configuration", () => {
+    const config = defineTabIdConfig({ idSearchParamKey: "tab" });
+    const request = new Request("http://localhost:3000/?tid=ab-1234");
+
+    expect(getTabId(request, { config, paramKey: "tid" })).toBe("ab-1234");
+  });
+
+  describe("with the path-segment source", () => {
+    it("should return the tab ID from the route segment", () => {
+      const sources = ["path-segment"] as const;
+
+      expect(getTabId(new Request("http://localhost:3000/t/ab-1234/orders?page=2"), { sources })).toBe("ab-1234");
+      expect(getTabId(new Request("http://localhost:3000/t/ab-1234"), { sources })).toBe("ab-1234");
+      expect(getTabId(new Request("http://localhost:3000/orders"), { sources })).toBeUndefined();
+      expect(getTabId(new Request("http://localhost:3000/orders/t/ab-1234"), { sources })).toBeUndefined();
+    });
+
+    it("should return the tab ID from the route segment of data requests", () => {
+      const sources = ["path-segment"] as const;
+
+      expect(getTabId(new Request("http://localhost:3000/t/ab-1234.data"), { sources })).toBe("ab-1234");
+      expect(getTabId(new Request("http://localhost:3000/t/ab-1234/orders.data"), { sources })).toBe("ab-1234");
+    });
+
+    it("should use a custom path prefix and basename", () => {
+      const request = new Request("http://localhost:3000/app/tab/ab-1234/orders");
+
+      expect(getTabId(request, { basename: "/app/", pathPrefix: "tab", sources: ["path-segment"] })).toBe("ab-1234");
+      expect(getTabId(request, { pathPrefix: "tab", sources: ["path-segment"] })).toBeUndefined();
+    });
+
+    it("should check the route segment instead of the query parameter when the config uses the path-segment transport", () => {
+      const config = defineTabIdConfig({ basename: "/app", transport: ["path-segment", "header"] });
+
+      expect(getTabId(new Request("http://localhost:3000/app/t/ab-1234/orders"), { config })).toBe("ab-1234");
+      expect(getTabId(new Request("http://localhost:3000/app/orders?tid=ab-1234"), { config })).toBeUndefined();
+    });
+  });
+
+  describe("with a secret", () => {
+    it("should return the tab ID of a validly signed token", async () => {
+      const token = await signTabId("ab-1234", { secret: "s3cr3t" });
+      const request = new Request(`http://localhost:3000/?${SEARCH_PARAM_KEY}=${token}`);
+
+      expect(await getTabId(request, { secret: "s3cr3t" })).toBe("ab-1234");
+    });
+
+    it("should return undefined if the tab ID is not present in the URL", async () => {
+      const request = new Request("http://localhost:3000/");
+      expect(await getTabId(request, { secret: "s3cr3t", onInvalid: "throw" })).toBeUndefined();
+    });
+
+    it("should return undefined if the token was tampered with", async () => {
+      const request = new Request(`http://localhost:3000/?${SEARCH_PARAM_KEY}=ab-1234`);
+      expect(await getTabId(request, { secret: "s3cr3t" })).toBeUndefined();
+    });
+
+    it("should throw a 400 response if the token was tampered with and onInvalid is 'throw'", async () => {
+      const request = new Request(`http://localhost:3000/?${SEARCH_PARAM_KEY}=ab-1234`);
+      const response = await getTabId(request, { secret: "s3cr3t", onInvalid: "throw" }).catch((error: unknown) => error);
+
+      expect(response).toBeInstanceOf(Response);
+      expect((response as Response).status).toBe(400);
+    });
+
+    it("should verify the session binding", async () => {
+      const token = await signTabId("ab-1234", { secret: "s3cr3t", sessionId: "session-1" });
+      const request = new Request(`http://localhost:3000/?${SEARCH_PARAM_KEY}=${token}`);
+
+      expect(await getTabId(request, { secret: "s3cr3t", sessionId: "session-1" })).toBe("ab-1234");
+      expect(await getTabId(request, { secret: "s3cr3t", sessionId: "session-2" })).toBeUndefined();
+    });
+
+    it("should read the session ID from the request", async () => {
+      const token = await signTabId("ab-1234", { secret: "s3cr3t", sessionId: "session-1" });
+      const request = new Request(`http://localhost:3000/?${SEARCH_PARAM_KEY}=${token}`, {
+        headers: { Cookie: "session=session-1" },
+      });
+      const sessionId = vi.fn(async (request: Request) => request.headers.get("Cookie")?.split("=")[1] ?? "");
+
+      expect(await getTabId(request, { secret: "s3cr3t", sessionId })).toBe("ab-1234");
+      expect(sessionId).toHaveBeenCalledWith(request);
+    });
+
+    it("should not read the session ID when the request carries no token", async () => {
+      const sessionId = vi.fn(() => "session-1");
+
+      expect(await getTabId(new Request("http://localhost:3000/"), { secret: "s3cr3t", sessionId })).toBeUndefined();
+      expect(sessionId).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe("getTabIdFromFormData()", () => {
+  it("should return the tab ID from the form data", () => {
+    const formData = new FormData();
+    formData.set(SEARCH_PARAM_KEY, "ab-1234");
+
+    expect(getTabIdFromFormData(formData)).toBe("ab-1234");
+  });
+
+  it("should return undefined if the tab ID is missing or empty", () => {
+    const formData = new FormData();
+    expect(getTabIdFromFormData(formData)).toBeUndefined();
+
+    formData.set(SEARCH_PARAM_KEY, "");
+    expect(getTabIdFromFormData(formData)).toBeUndefined();
+  });
+
+  it("should use a custom field name", () => {
+    const formData = new FormData();
+    formData.set("tab", "ab-1234");
+
+    expect(getTabIdFromFormData(formData, { paramKey: "tab" })).toBe("ab-1234");
+    expect(getTabIdFromFormData(formData, { config: defineTabIdConfig({ idSearchParamKey: "tab" }) })).toBe("ab-1234");
+  });
+
+  it("should reject tab IDs that don't fit the generator's format", () => {
+    const formData = new FormData();
+    formData.set(SEARCH_PARAM_KEY, "not-a-tab-id");
+
+    expect(getTabIdFromFormData(formData, { generator: createShortIdGenerator() })).toBeUndefined();
+  });
+
+  it("should verify signed tab IDs", async () => {
+    const formData = new FormData();
+    formData.set(SEARCH_PARAM_KEY, await signTabId("ab-1234", { secret: "s3cr3t" }));
+
+    await expect(getTabIdFromFormData(formData, { secret: "s3cr3t" })).resolves.toBe("ab-1234");
+    await expect(getTabIdFromFormData(formData, { secret: "other" })).resolves.toBeUndefined();
+  });
 });
@@ -1,21 +1,267 @@
-import { SEARCH_PARAM_KEY } from "../defaults";
+import type { TabIdConfig } from "../config";
+import { HEADER_NAME, PATH_PREFIX, SEARCH_PARAM_KEY } from "../defaults";
+import type { TabIdGenerator } from "../id-generators";
+import { getPathTabId, hasPathSegmentTransport, splitBasename } from "../path-segment";
+import { getCookie } from "./cookies";
+import type { TabIdSigningOptions } from "./signed-tab-id";
+import { verifyTabId } from "./signed-tab-id";
+
+/**
+ * The places of a request where a tab ID can be found:
+ *
+ * - `header`: the `X-Tab-Id` header (see `headerName`).
+ * - `form-data`: a form field (only checked when the parsed `formData` is provided).
+ * - `search-param`: the query parameter (see `paramKey`).
+ * - `path-segment`: the route segment following the prefix (see `pathPrefix`), ie: `/t/ab-1234/orders`.
+ * - `cookie`: a cookie (see `cookieName`).
+ */
+export type TabIdSource = "header" | "form-data" | "search-param" | "path-segment" | "cookie";
 
 export type GetTabIdOptions = {
   /**
-   * The query param to check.
+   * The router's basename, preceding the tab ID segment when using the `path-segment` source.
+   * @default '/'
+   */
+  basename?: string;
+  /**
+   * The tab ID configuration shared with the client (see `defineTabIdConfig()`), providing the defaults
+   * of `basename`, `generator`, `headerName`, `paramKey` (from its `idSearchParamKey`), `pathPrefix` and `sources`
+   * (from its `transport`).
+   */
+  config?: TabIdConfig;
+  /**
+   * The cookie to check when using the `cookie` source.
+   * @default paramKey
+   */
+  cookieName?: string;
+  /**
+   * The parsed form data of the request, checked when using the `form-data` source.
+   * Request bodies can only be read once, so the form data must be parsed (and passed) by the caller.
+   */
+  formData?: FormData;
+  /**
+   * The strategy used to generate tab IDs. When set, values that don't fit its format are rejected.
+   */
+  generator?: Pick<TabIdGenerator, "validate">;
+  /**
+   * The header to check when using the `header` source.
+   * @default 'X-Tab-Id'
+   */
+  headerName?: string;
+  /**
+   * The query param (and form field) to check.
    * @default 'tid'
    */
   paramKey?: string;
+  /**
+   * The route segment preceding the tab ID when using the `path-segment` source.
+   * @default 't'
+   */
+  pathPrefix?: string;
+  /**
+   * Where to look for the tab ID, in order of priority. The first source holding a value wins.
+   * @default ['header', 'form-data', 'search-param'] (['header', 'form-data', 'path-segment'] when the config's transport includes `path-segment`)
+   */
+  sources?: readonly TabIdSource[];
 };
 
+export type GetSignedTabIdOptions = GetTabIdOptions &
+  Omit<TabIdSigningOptions, "sessionId"> & {
+    /**
+     * What to do when the request carries a token with an invalid signature:
+     * return `undefined` (`'ignore'`), or throw a `400 Bad Request` response (`'throw'`).
+     * @default 'ignore'
+     */
+    onInvalid?: "ignore" | "throw";
+    /**
+     * Binds the token to the user's session, so it is rejected in any other session: the session's ID,
+     * or a function reading it from each request (ie: from the session cookie).
+     */
+    sessionId?: string | ((request: Request) => string | Promise<string>);
+  };
+
+/**
+ * Configuration options for `getTabIdFromFormData()`.
+ */
+export type GetTabIdFromFormDataOptions = Pick<GetTabIdOptions, "config" | "generator" | "paramKey">;
+
 /**
- * Extracts the tab ID from the request URL.
+ * Configuration options for `getTabIdFromFormData()` in signed mode.
+ */
+export type GetSignedTabIdFromFormDataOptions = GetTabIdFromFormDataOptions &
+  Pick<GetSignedTabIdOptions, "onInvalid"> &
+  TabIdSigningOptions;
+
+/**
+ * The sources checked when none are configured.
+ */
+const DEFAULT_SOURCES: readonly TabIdSource[] = ["header", "form-data", "search-param"];
+
+/**
+ * The sources checked when none are configured, and the configuration uses the `path-segment` transport.
+ */
+const PATH_SEGMENT_SOURCES: readonly TabIdSource[] = ["header", "form-data", "path-segment"];
+
+/**
+ * Extracts the tab ID from the request (its headers, form data, URL or cookies).
+ *
+ * When a `secret` is configured, the value is expected to be a signed token (see `signTabId()`):
+ * its signature is verified and the (unsigned) tab ID is returned.
  *
  * @param request The request object to inspect.
  * @param options Configuration options.
- * @returns The tab ID if found, otherwise `undefined`.
+ * @returns The tab ID if found (and valid), otherwise `undefined`.
+ */
+export function getTabId(request: Request, options: GetSignedTabIdOptions): Promise<string | undefined>;
+export function getTabId(request: Request, options?: GetTabIdOptions): string | undefined;
+export function getTabId(
+  request: Request,
+  options?: GetTabIdOptions | GetSignedTabIdOptions,
+): string | undefined | Promise<string | undefined>;
+export function getTabId(
+  request: Request,
+  options?: GetTabIdOptions | GetSignedTabIdOptions,
+): string | undefined | Promise<string | undefined> {
+  const tabId = findTabId(request, options);
+
+  if (options !== undefined && "secret" in options) {
+    return resolveSessionId(request, tabId, options.sessionId).then((sessionId) =>
+      getSignedTabId(tabId, { ...options, sessionId }),
+    );
+  }
+
+  return resolveTabId(tabId, options);
+}
+
+/**
+ * Extracts the tab ID from submitted form data (ie: a form rendering `<TabIdInput />`, or a `useTabFetcher()` submission).
+ *
+ * When a `secret` is configured, the value is expected to be a signed token (see `signTabId()`):
+ * its signature is verified and the (unsigned) tab ID is returned.
+ *
+ * @param formData The parsed form data of the request.
+ * @param options Configuration options.
+ * @returns The tab ID if found (and valid), otherwise `undefined`.
+ */
+export function getTabIdFromFormData(
+  formData: FormData,
+  options: GetSignedTabIdFromFormDataOptions,
+): Promise<string | undefined>;
+export function getTabIdFromFormData(formData: FormData, options?: GetTabIdFromFormDataOptions): string | undefined;
+export function getTabIdFromFormData(
+  formData: FormData,
+  options?: GetTabIdFromFormDataOptions | GetSignedTabIdFromFormDataOptions,
+): string | undefined | Promise<string | undefined> {
+  const { config, paramKey = config?.idSearchParamKey ?? SEARCH_PARAM_KEY } = options ?? {};
+  return resolveTabId(getFormField(formData, paramKey), options);
+}
+
+/**
+ * Validates a raw tab ID: verifies its signature in signed mode, and its format when a generator is configured.
+ */
+function resolveTabId(
+  tabId: string | undefined,
+  options?: Pick<GetTabIdOptions, "config" | "generator"> | GetSignedTabIdFromFormDataOptions,
+): string | undefined | Promise<string | undefined> {
+  const { config, generator = config?.generator } = options ?? {};
+
+  if (options !== undefined && "secret" in options) {
+    return getSignedTabId(tabId, options);
+  }
+
+  if (tabId !== undefined && generator !== undefined && !generator.validate(tabId)) {
+    return undefined;
+  }
+
+  return tabId;
+}
+
+/**
+ * Looks for the (raw) tab ID in each configured source, in order of priority.
+ */
+function findTabId(request: Request, options?: GetTabIdOptions): string | undefined {
+  const {
+    config,
+    basename = config?.basename,
+    formData,
+    headerName = config?.headerName ?? HEADER_NAME,
+    paramKey = config?.idSearchParamKey ?? SEARCH_PARAM_KEY,
+    cookieName = paramKey,
+    pathPrefix = config?.pathPrefix ?? PATH_PREFIX,
+    sources = hasPathSegmentTransport(config) ? PATH_SEGMENT_SOURCES : DEFAULT_SOURCES,
+  } = options ?? {};
+
+  const readSource = (source: TabIdSource): string | undefined => {
+    switch (source) {
+      case "header":
+        return request.headers.get(headerName) ?? undefined;
+      case "form-data":
+        return formData && getFormField(formData, paramKey);
+      case "search-param":
+        return new URL(request.url).searchParams.get(paramKey) ?? undefined;
+      case "path-segment":
+        return getPathTabId(splitBasename(new URL(request.url).pathname, basename)[1], pathPrefix);
+      case "cookie":
+        return getCookie(request, cookieName);
+    }
+  };
+
+  for (const source of sources) {
+    const tabId = readSource(source);
+
+    if (tabId !== undefined && tabId !== "") {
+      return tabId;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Reads a (non-empty, non-file) form field.
  */
-export function getTabId(request: Request, options?: GetTabIdOptions): string | undefined {
-  const { paramKey = SEARCH_PARAM_KEY } = options ?? {};
-  return new URL(request.url).searchParams.get(paramKey) ?? undefined;
+function getFormField(formData: FormData, name: string): string | undefined {
+  const value = formData.get(name);
+  return typeof value === "string" && value !== "" ? value : undefined;
+}
+
+/**
+ * Resolves the session ID a token must be bound to. A function is only called when there is a token to verify.
+ */
+async function resolveSessionId(
+  request: Request,
+  token: string | undefined,
+  sessionId: GetSignedTabIdOptions["sessionId"],
+): Promise<string | undefined> {
+  if (typeof sessionId !== "function") {
+    return sessionId;
+  }
+
+  return token === undefined ? undefined : await sessionId(request);
+}
+
+/**
+ * Verifies a signed tab token and extracts its tab ID.
+ */
+async function getSignedTabId(
+  token: string | undefined,
+  options: GetSignedTabIdFromFormDataOptions,
+): Promise<string | undefined> {
+  const { generator, onInvalid = "ignore" } = options;
+
+  if (token === undefined) {
+    return undefined;
+  }
+
+  const tabId = await verifyTabId(token, options);
+
+  if (tabId === undefined || (generator !== undefined && !generator.validate(tabId))) {
+    if (onInvalid === "throw") {
+      throw new Response("Invalid tab ID", { status: 400 });
+    }
+
+    return undefined;
+  }
+
+  return tabId;
 }
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { defineTabIdConfig } from "../config";
+import { createCustomGenerator } from "../id-generators";
+import { getTabId } from "./get-tab-id";
+import { isDocumentRequest, mintTabId } from "./mint-tab-id";
+
+describe("mint-tab-id", () => {
+  describe("mintTabId()", () => {
+    it("should add a new tab ID to the requested URL", async () => {
+      const request = new Request("http://localhost:3000/orders?page=2");
+      const { tabId, token, location } = await mintTabId(request);
+
+      expect(tabId).toMatch(/^[a-z]{2}-\d{4}$/);
+      expect(token).toBe(tabId);
+      expect(location).toBe(`/orders?page=2&tid=${tabId}`);
+    });
+
+    it("should set a short-lived issued cookie", async () => {
+      const { tabId, headers } = await mintTabId(new Request("http://localhost:3000/"));
+      expect(headers.get("Set-Cookie")).toBe(`tid-issued=${tabId}; Path=/; Max-Age=60; SameSite=Lax`);
+    });
+
+    it("should use custom options", async () => {
+      const request = new Request("https://example.com/");
+      const { location, headers } = await mintTabId(request, {
+        cookieName: "minted",
+        generator: createCustomGenerator(() => "custom-id"),
+        maxAge: 10,
+        paramKey: "tab",
+      });
+
+      expect(location).toBe("/?tab=custom-id");
+      expect(headers.get("Set-Cookie")).toBe("minted=custom-id; Path=/; Max-Age=10; SameSite=Lax; Secure");
+    });
+
+    it("should use the shared tab ID configuration", async () => {
+      const config = defineTabIdConfig({
+        generator: createCustomGenerator(() => "custom-id"),
+        idSearchParamKey: "tab",
+        issuedCookieName: "minted",
+      });
+
+      const { location, headers } = await mintTabId(new Request("http://localhost:3000/"), { config });
+
+      expect(location).toBe("/?tab=custom-id");
+      expect(headers.get("Set-Cookie")).toBe("minted=custom-id; Path=/; Max-Age=60; SameSite=Lax");
+    });
+
+    it("should add the tab ID to the path when the config uses the path-segment transport", async () => {
+      const config = defineTabIdConfig({ generator: createCustomGenerator(() => "custom-id"), transport: "path-segment" });
+
+      const { location } = await mintTabId(new Request("http://localhost:3000/orders?page=2"), { config });
+      expect(location).toBe("/t/custom-id/orders?page=2");
+
+      const { location: rootLocation } = await mintTabId(new Request("http://localhost:3000/"), { config });
+      expect(rootLocation).toBe("/t/custom-id");
+    });
+
+    it("should replace the tab ID segment, after the basename", async () => {
+      const request = new Request("http://localhost:3000/app/tab/invalid/orders");
+      const { location } = await mintTabId(request, {
+        basename: "/app",
+        generator: createCustomGenerator(() => "custom-id"),
+        pathPrefix: "tab",
+      });
+
+      expect(location).toBe("/app/tab/custom-id/orders");
+    });
+
+    it("should sign the tab ID when a secret is configured", async () => {
+      const { tabId, token, location } = await mintTabId(new Request("http://localhost:3000/"), { secret: "s3cr3t" });
+
+      expect(token).not.toBe(tabId);
+      await expect(getTabId(new Request(`http://localhost:3000${location}`), { secret: "s3cr3t" })).resolves.toBe(tabId);
+    });
+  });
+
+  describe("isDocumentRequest()", () => {
+    it("should detect document requests", () => {
+      expect(isDocumentRequest(new Request("http://localhost:3000/", { headers: { "Sec-Fetch-Dest": "document" } }))).toBe(
+        true,
+      );
+      expect(isDocumentRequest(new Request("http://localhost:3000/", { headers: { Accept: "text/html" } }))).toBe(true);
+    });
+
+    it("should not detect data requests and form submissions", () => {
+      expect(isDocumentRequest(new Request("http://localhost:3000/orders.data", { headers: { Accept: "text/html" } }))).toBe(
+        false,
+      );
+      expect(isDocumentRequest(new Request("http://localhost:3000/", { headers: { "Sec-Fetch-Dest": "empty" } }))).toBe(false);
+      expect(
+        isDocumentRequest(new Request("http://localhost:3000/", { method: "POST", headers: { Accept: "text/html" } })),
+      ).toBe(false);
+    });
+  });
+});
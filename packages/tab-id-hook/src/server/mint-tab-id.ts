@@ -0,0 +1,147 @@
+import type { TabIdConfig } from "../config";
+import { ISSUED_COOKIE_NAME, PATH_PREFIX, SEARCH_PARAM_KEY } from "../defaults";
+import type { TabIdGenerator } from "../id-generators";
+import { generateId } from "../id-generators";
+import { hasPathSegmentTransport, setPathTabId, splitBasename } from "../path-segment";
+import type { TabIdSigningOptions } from "./signed-tab-id";
+import { signTabId } from "./signed-tab-id";
+
+/**
+ * Configuration options for `mintTabId()`.
+ */
+export type MintTabIdOptions = Partial<TabIdSigningOptions> & {
+  /**
+   * The router's basename, preceding the tab ID segment when adding the tab ID to the path.
+   * @default '/'
+   */
+  basename?: string;
+  /**
+   * The tab ID configuration shared with the client (see `defineTabIdConfig()`), providing the defaults
+   * of `basename`, `cookieName` (from its `issuedCookieName`), `generator`, `paramKey` (from its `idSearchParamKey`)
+   * and `pathPrefix`.
+   */
+  config?: TabIdConfig;
+  /**
+   * The (short-lived) cookie that hands the minted tab ID over to the client.
+   * Must match the `issuedCookieName` option of `useTabId()`.
+   * @default 'tid-issued'
+   */
+  cookieName?: string;
+  /**
+   * The strategy used to generate the tab ID.
+   * @default createShortIdGenerator() (ids in the format `xx-0000`)
+   */
+  generator?: TabIdGenerator;
+  /**
+   * How long (in seconds) the client has to adopt the minted tab ID.
+   * @default 60
+   */
+  maxAge?: number;
+  /**
+   * The query param to add the tab ID to.
+   * @default 'tid'
+   */
+  paramKey?: string;
+  /**
+   * The route segment preceding the tab ID, to add the tab ID to the path (ie: `/t/ab-1234/orders`) rather than
+   * the query (the `path-segment` transport). A tab ID segment already in the path is replaced.
+   * @default the config's `pathPrefix` (or 't') when its transport includes `path-segment`, otherwise none
+   */
+  pathPrefix?: string;
+};
+
+/**
+ * A tab ID minted by the server for a document request.
+ */
+export type MintedTabId = {
+  /**
+   * The tab ID, as returned by `getTabId()` for the following requests of the tab.
+   */
+  tabId: string;
+  /**
+   * The tab ID as sent to the client (the signed token in signed mode, otherwise the tab ID itself).
+   */
+  token: string;
+  /**
+   * The requested URL (path, query and hash) with the tab ID added (to the query, or to the path), to redirect to.
+   */
+  location: string;
+  /**
+   * The headers to add to the redirect, setting the issued cookie.
+   */
+  headers: Headers;
+};
+
+/**
+ * The default time (in seconds) the client has to adopt a minted tab ID.
+ */
+const DEFAULT_MAX_AGE = 60;
+
+/**
+ * Mints a tab ID for a document request that carries none, so that the first render doesn't have to wait
+ * for the client to generate one (and navigate).
+ *
+ * The tab ID is handed over to the client in a short-lived cookie: `useTabId()` only adopts a tab ID
+ * from the URL if it matches that cookie, so tab IDs copied in from pasted links are never adopted.
+ * Redirect to `location` (with `headers`): the cookie is shared by every tab of the browser, so a document rendered
+ * without the tab ID in its URL could never tell its minted tab ID apart from the one of another tab.
+ *
+ * When a `secret` is configured, the client receives a signed token (see `signTabId()`).
+ *
+ * @param request The document request.
+ * @param options Configuration options.
+ * @returns The minted tab ID.
+ */
+export async function mintTabId(request: Request, options?: MintTabIdOptions): Promise<MintedTabId> {
+  const {
+    config,
+    basename = config?.basename,
+    cookieName = config?.issuedCookieName ?? ISSUED_COOKIE_NAME,
+    generator = config?.generator,
+    maxAge = DEFAULT_MAX_AGE,
+    paramKey = config?.idSearchParamKey ?? SEARCH_PARAM_KEY,
+    pathPrefix = hasPathSegmentTransport(config) ? (config?.pathPrefix ?? PATH_PREFIX) : undefined,
+    secret,
+    sessionId,
+  } = options ?? {};
+
+  const tabId = generateId(generator);
+  const token = secret === undefined ? tabId : await signTabId(tabId, { secret, sessionId });
+
+  const url = new URL(request.url);
+
+  if (pathPrefix === undefined) {
+    url.searchParams.set(paramKey, token);
+  } else {
+    const [base, pathname] = splitBasename(url.pathname, basename);
+    url.pathname = `${base}${setPathTabId(pathname, pathPrefix, token)}`;
+  }
+
+  const cookie = [
+    `${cookieName}=${encodeURIComponent(token)}`,
+    "Path=/",
+    `Max-Age=${maxAge}`,
+    "SameSite=Lax",
+    ...(url.protocol === "https:" ? ["Secure"] : []),
+  ];
+
+  const headers = new Headers({ "Set-Cookie": cookie.join("; ") });
+
+  return { tabId, token, location: `${url.pathname}${url.search}${url.hash}`, headers };
+}
+
+/**
+ * Returns `true` if the request loads a document (a full page load), as opposed to a client-side data request.
+ *
+ * @param request The request to inspect.
+ */
+export function isDocumentRequest(request: Request): boolean {
+  const { pathname } = new URL(request.url);
+  const fetchDest = request.headers.get("Sec-Fetch-Dest");
+
+  if (request.method !== "GET" || pathname.endsWith(".data")) {
+    return false; // a form submission, or a react router data request
+  }
+
+  return fetchDest === null ? (request.headers.get("Accept")?.includes("text/html") ?? false) : fetchDest === "document";
+}
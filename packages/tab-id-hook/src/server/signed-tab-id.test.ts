@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { createUuidV4Generator } from "../id-generators";
+import { issueTabId, signTabId, verifyTabId } from "./signed-tab-id";
+
+describe("signed-tab-id", () => {
+  describe("signTabId()", () => {
+    it("should produce a token in the format {tabId}.{signature}", async () => {
+      const token = await signTabId("ab-1234", { secret: "s3cr3t" });
+      expect(token).toMatch(/^ab-1234\.[A-Za-z0-9_-]+$/);
+    });
+
+    it("should sign with the first secret", async () => {
+      const token = await signTabId("ab-1234", { secret: ["new-s3cr3t", "old-s3cr3t"] });
+
+      expect(token).toBe(await signTabId("ab-1234", { secret: "new-s3cr3t" }));
+      expect(token).not.toBe(await signTabId("ab-1234", { secret: "old-s3cr3t" }));
+    });
+
+    it("should throw if no secret is configured", async () => {
+      await expect(signTabId("ab-1234", { secret: [] })).rejects.toThrow("At least one secret is required");
+    });
+  });
+
+  describe("verifyTabId()", () => {
+    it("should return the tab ID of a valid token", async () => {
+      const token = await signTabId("ab-1234", { secret: "s3cr3t" });
+      expect(await verifyTabId(token, { secret: "s3cr3t" })).toBe("ab-1234");
+    });
+
+    it("should return undefined if the tab ID was tampered with", async () => {
+      const token = await signTabId("ab-1234", { secret: "s3cr3t" });
+      expect(await verifyTabId(token.replace("ab-1234", "ab-9999"), { secret: "s3cr3t" })).toBeUndefined();
+    });
+
+    it("should return undefined if the signature is invalid", async () => {
+      expect(await verifyTabId("ab-1234", { secret: "s3cr3t" })).toBeUndefined();
+      expect(await verifyTabId("ab-1234.", { secret: "s3cr3t" })).toBeUndefined();
+      expect(await verifyTabId("ab-1234.not*base64", { secret: "s3cr3t" })).toBeUndefined();
+      expect(await verifyTabId(await signTabId("ab-1234", { secret: "other" }), { secret: "s3cr3t" })).toBeUndefined();
+    });
+
+    it("should accept tokens signed with any of the secrets (key rotation)", async () => {
+      const token = await signTabId("ab-1234", { secret: "old-s3cr3t" });
+      expect(await verifyTabId(token, { secret: ["new-s3cr3t", "old-s3cr3t"] })).toBe("ab-1234");
+    });
+
+    it("should support tab IDs containing dots", async () => {
+      const token = await signTabId("tab.1234", { secret: "s3cr3t" });
+      expect(await verifyTabId(token, { secret: "s3cr3t" })).toBe("tab.1234");
+    });
+
+    it("should only accept tokens bound to the same session", async () => {
+      const token = await signTabId("ab-1234", { secret: "s3cr3t", sessionId: "session-1" });
+
+      expect(await verifyTabId(token, { secret: "s3cr3t", sessionId: "session-1" })).toBe("ab-1234");
+      expect(await verifyTabId(token, { secret: "s3cr3t", sessionId: "session-2" })).toBeUndefined();
+      expect(await verifyTabId(token, { secret: "s3cr3t" })).toBeUndefined();
+    });
+  });
+
+  describe("issueTabId()", () => {
+    it("should generate and sign a new tab ID", async () => {
+      const token = await issueTabId({ secret: "s3cr3t" });
+      const tabId = await verifyTabId(token, { secret: "s3cr3t" });
+
+      expect(tabId).toMatch(/^[a-z]{2}-\d{4}$/);
+    });
+
+    it("should use the configured generator", async () => {
+      const generator = createUuidV4Generator();
+      const token = await issueTabId({ secret: "s3cr3t", generator });
+      const tabId = await verifyTabId(token, { secret: "s3cr3t" });
+
+      expect(generator.validate(tabId!)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import type { TabIdGenerator } from "../id-generators";
+import { generateId } from "../id-generators";
+
+/**
+ * Configuration options for signing and verifying tab IDs.
+ */
+export type TabIdSigningOptions = {
+  /**
+   * The secret used to sign tab IDs, or a list of secrets to support key rotation.
+   * New tokens are signed with the first secret; tokens signed with any of the secrets are accepted.
+   */
+  secret: string | readonly string[];
+  /**
+   * Binds the token to the user's session (ie: the session cookie's ID), so it is rejected in any other session.
+   */
+  sessionId?: string;
+};
+
+/**
+ * Configuration options for `issueTabId()`.
+ */
+export type IssueTabIdOptions = TabIdSigningOptions & {
+  /**
+   * The strategy used to generate the tab ID.
+   * @default createShortIdGenerator() (ids in the format `xx-0000`)
+   */
+  generator?: TabIdGenerator;
+};
+
+/**
+ * Signs a tab ID, producing an opaque token in the format `{tabId}.{signature}`.
+ *
+ * @param tabId The tab ID to sign.
+ * @param options Signing options.
+ * @returns The signed token.
+ */
+export async function signTabId(tabId: string, options: TabIdSigningOptions): Promise<string> {
+  const { secret, sessionId } = options;
+  const [currentSecret] = toSecrets(secret);
+
+  if (currentSecret === undefined) {
+    throw new Error("At least one secret is required to sign a tab ID");
+  }
+
+  const key = await importKey(currentSecret);
+  const signature = await crypto.subtle.sign("HMAC", key, toSignedData(tabId, sessionId));
+
+  return `${tabId}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Verifies a signed tab token.
+ *
+ * @param token The token to verify (as produced by `signTabId()`).
+ * @param options Signing options.
+ * @returns The tab ID if the signature is valid for one of the secrets (and the session), otherwise `undefined`.
+ */
+export async function verifyTabId(token: string, options: TabIdSigningOptions): Promise<string | undefined> {
+  const { secret, sessionId } = options;
+
+  const separatorIndex = token.lastIndexOf(".");
+  const tabId = token.slice(0, separatorIndex);
+  const signature = fromBase64Url(token.slice(separatorIndex + 1));
+
+  if (separatorIndex <= 0 || signature === undefined) {
+    return undefined; // not a signed token
+  }
+
+  for (const candidate of toSecrets(secret)) {
+    const key = await importKey(candidate);
+
+    if (await crypto.subtle.verify("HMAC", key, signature, toSignedData(tabId, sessionId))) {
+      return tabId;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Generates a new tab ID and signs it.
+ *
+ * @param options Signing and generation options.
+ * @returns The signed token, ready to be handed to the client.
+ */
+export async function issueTabId(options: IssueTabIdOptions): Promise<string> {
+  const { generator, ...signingOptions } = options;
+  return await signTabId(generateId(generator), signingOptions);
+}
+
+function toSecrets(secret: string | readonly string[]): readonly string[] {
+  return typeof secret === "string" ? [secret] : secret;
+}
+
+async function importKey(secret: string): Promise<CryptoKey> {
+  const keyData = new TextEncoder().encode(secret);
+  return await crypto.subtle.importKey("raw", keyData, { name: "HMAC", hash: "SHA-256" }, false, ["sign", "verify"]);
+}
+
+/**
+ * Encodes the signed data unambiguously, so a tab ID can never be confused with a session ID.
+ */
+function toSignedData(tabId: string, sessionId?: string): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(JSON.stringify([tabId, sessionId ?? null]));
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> | undefined {
+  try {
+    const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  } catch {
+    return undefined; // not base64url
+  }
+}
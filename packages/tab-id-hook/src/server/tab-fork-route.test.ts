@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { defineTabIdConfig } from "../config";
+import { signTabId } from "./signed-tab-id";
+import { createTabForkRoute } from "./tab-fork-route";
+
+describe("tab-fork-route", () => {
+  /**
+   * Creates the request posted by `forkTab()` in the new tab.
+   */
+  const createForkRequest = (fields: Record<string, string>) =>
+    new Request("http://localhost:3000/tab-fork", { method: "POST", body: new URLSearchParams(fields) });
+
+  /**
+   * Follows the redirect of the fork route: the first request of the new tab (once it has its own tab ID).
+   */
+  const followRedirect = (response: Response, cookie = response.headers.get("Set-Cookie")?.split(";")[0]) => {
+    const url = new URL(response.headers.get("Location") ?? "", "http://localhost:3000/");
+    url.searchParams.set("tid", "bb-2222");
+    return new Request(url, { headers: cookie ? { Cookie: cookie } : {} });
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("createTabForkRoute()", () => {
+    it("should redirect the new tab with a fork token mapped to the original tab", async () => {
+      const { action, getTabFork } = createTabForkRoute();
+
+      const response = await action({ request: createForkRequest({ tid: "aa-1111", to: "/orders?page=2&tid=aa-1111" }) });
+
+      expect(response.status).toBe(303);
+      expect(response.headers.get("Location")).toMatch(/^\/orders\?page=2&tfork=[\da-f-]{36}$/);
+      expect(response.headers.get("Location")).not.toContain("aa-1111");
+      expect(response.headers.get("Set-Cookie")).toMatch(/^tfork-[\da-f-]{36}=[\da-f-]{36}; Path=\/; Max-Age=60; HttpOnly/);
+
+      expect(getTabFork(followRedirect(response), "bb-2222")).toEqual({ fromTabId: "aa-1111", isNew: true, isVerified: false });
+    });
+
+    it("should only accept a fork token once", async () => {
+      const { action, getTabFork } = createTabForkRoute();
+      const response = await action({ request: createForkRequest({ tid: "aa-1111", to: "/orders" }) });
+
+      const request = followRedirect(response);
+      expect(getTabFork(request, "bb-2222")?.isNew).toBe(true);
+      expect(getTabFork(request, "bb-2222")?.isNew).toBe(true); // ie: another loader of the same request
+
+      expect(getTabFork(followRedirect(response), "cc-3333")).toBeUndefined(); // ie: another tab
+    });
+
+    it("should keep the fork of a tab until it is committed", async () => {
+      const { action, commitTabFork, getTabFork } = createTabForkRoute({ ttl: 1000 });
+      const response = await action({ request: createForkRequest({ tid: "aa-1111", to: "/orders" }) });
+
+      getTabFork(followRedirect(response), "bb-2222");
+
+      // ie: the next requests of the new tab (without the fork token)
+      vi.advanceTimersByTime(999);
+      const nextRequest = new Request("http://localhost:3000/orders?tid=bb-2222");
+      expect(getTabFork(nextRequest, "bb-2222")).toEqual({ fromTabId: "aa-1111", isNew: false, isVerified: false });
+
+      vi.advanceTimersByTime(999); // (since its last request)
+      expect(getTabFork(new Request("http://localhost:3000/orders?tid=bb-2222"), "bb-2222")?.fromTabId).toBe("aa-1111");
+
+      commitTabFork("bb-2222");
+      expect(getTabFork(new Request("http://localhost:3000/orders?tid=bb-2222"), "bb-2222")).toBeUndefined();
+    });
+
+    it("should forget the forks that are never committed", async () => {
+      const { action, getTabFork } = createTabForkRoute({ ttl: 1000 });
+      const response = await action({ request: createForkRequest({ tid: "aa-1111", to: "/orders" }) });
+
+      getTabFork(followRedirect(response), "bb-2222");
+
+      vi.advanceTimersByTime(1000);
+      expect(getTabFork(new Request("http://localhost:3000/orders?tid=bb-2222"), "bb-2222")).toBeUndefined();
+    });
+
+    it("should only accept a fork token in the browser that forked the tab", async () => {
+      const { action, getTabFork } = createTabForkRoute();
+      const response = await action({ request: createForkRequest({ tid: "aa-1111", to: "/orders" }) });
+
+      const [name] = response.headers.get("Set-Cookie")?.split("=") ?? [];
+      expect(getTabFork(followRedirect(response, ""), "bb-2222")).toBeUndefined();
+      expect(getTabFork(followRedirect(response, `${name}=forged`), "bb-2222")).toBeUndefined();
+    });
+
+    it("should reject expired fork tokens", async () => {
+      const { action, getTabFork } = createTabForkRoute({ ttl: 1000 });
+      const response = await action({ request: createForkRequest({ tid: "aa-1111", to: "/orders" }) });
+
+      vi.advanceTimersByTime(1000);
+      expect(getTabFork(followRedirect(response), "bb-2222")).toBeUndefined();
+    });
+
+    it("should use the query parameters of the shared configuration", async () => {
+      const config = defineTabIdConfig({ forkSearchParamKey: "copy-of", idSearchParamKey: "tab" });
+      const { action } = createTabForkRoute({ config });
+
+      const response = await action({ request: createForkRequest({ tab: "aa-1111", to: "/orders?tab=aa-1111" }) });
+      expect(response.headers.get("Location")).toMatch(/^\/orders\?copy-of=[\da-f-]{36}$/);
+    });
+
+    it("should verify signed tab IDs", async () => {
+      const { action, getTabFork } = createTabForkRoute({ secret: "s3cr3t" });
+      const token = await signTabId("aa-1111", { secret: "s3cr3t" });
+
+      const response = await action({ request: createForkRequest({ tid: token, to: "/orders" }) });
+      expect(response.status).toBe(303);
+      expect(getTabFork(followRedirect(response), "bb-2222")).toEqual({ fromTabId: "aa-1111", isNew: true, isVerified: true });
+
+      expect((await action({ request: createForkRequest({ tid: "aa-1111", to: "/orders" }) })).status).toBe(400);
+    });
+
+    it("should only fork the tabs of the requester when checking their owner", async () => {
+      const isTabOwner = vi.fn(async (_request: Request, tabId: string) => tabId === "aa-1111");
+      const { action, getTabFork } = createTabForkRoute({ isTabOwner });
+
+      const response = await action({ request: createForkRequest({ tid: "aa-1111", to: "/orders" }) });
+      expect(isTabOwner).toHaveBeenCalledWith(expect.any(Request), "aa-1111");
+      expect(getTabFork(followRedirect(response), "bb-2222")?.isVerified).toBe(true);
+
+      // ie: a guessed tab ID
+      expect((await action({ request: createForkRequest({ tid: "cc-3333", to: "/orders" }) })).status).toBe(403);
+    });
+
+    it("should reject invalid forks", async () => {
+      const { action } = createTabForkRoute({ maxTokens: 1 });
+
+      expect((await action({ request: createForkRequest({ to: "/orders" }) })).status).toBe(400);
+      expect((await action({ request: createForkRequest({ tid: "aa-1111", to: "https://example.com/" }) })).status).toBe(400);
+      expect((await action({ request: new Request("http://localhost:3000/tab-fork") })).status).toBe(405);
+
+      await action({ request: createForkRequest({ tid: "aa-1111", to: "/orders" }) });
+      expect((await action({ request: createForkRequest({ tid: "aa-1111", to: "/orders" }) })).status).toBe(503);
+    });
+
+    it("should count the forks that weren't committed yet as pending", async () => {
+      const { action, commitTabFork, getTabFork } = createTabForkRoute({ maxTokens: 1 });
+
+      getTabFork(followRedirect(await action({ request: createForkRequest({ tid: "aa-1111", to: "/orders" }) })), "bb-2222");
+      expect((await action({ request: createForkRequest({ tid: "aa-1111", to: "/orders" }) })).status).toBe(503);
+
+      commitTabFork("bb-2222");
+      expect((await action({ request: createForkRequest({ tid: "aa-1111", to: "/orders" }) })).status).toBe(303);
+    });
+  });
+});
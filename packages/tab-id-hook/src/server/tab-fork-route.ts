@@ -0,0 +1,248 @@
+import { redirect } from "react-router";
+
+import { FORK_SEARCH_PARAM_KEY, SEARCH_PARAM_KEY } from "../defaults";
+import { getCookie } from "./cookies";
+import type { GetSignedTabIdOptions, GetTabIdFromFormDataOptions } from "./get-tab-id";
+import { getTabId } from "./get-tab-id";
+
+/**
+ * Configuration options for `createTabForkRoute()`.
+ */
+export type TabForkRouteOptions = (
+  | GetTabIdFromFormDataOptions
+  | Pick<GetSignedTabIdOptions, "config" | "generator" | "onInvalid" | "paramKey" | "secret" | "sessionId">
+) & {
+  /**
+   * The prefix of the (short-lived) cookies binding each fork token to the browser that forked the tab:
+   * the cookie of a token is named `{cookieName}-{token}`.
+   * @default 'tfork'
+   */
+  cookieName?: string;
+  /**
+   * The query param handing the fork token over to the new tab.
+   * @default the config's `forkSearchParamKey` (or 'tfork')
+   */
+  forkSearchParamKey?: string;
+  /**
+   * Checks that the tab being forked belongs to the requester (ie: that the user's session holds its state), for unsigned
+   * tab IDs: forks of other tabs are refused (with `403 Forbidden`).
+   * Unsigned tab IDs are easy to guess, so without a `secret` or this check, the server-side state of the original tab
+   * isn't cloned (see `TabFork.isVerified`): the new tab only gets a copy of the values of the requester's own session.
+   */
+  isTabOwner?: (request: Request, tabId: string) => boolean | Promise<boolean>;
+  /**
+   * How many forks can be pending at once, from their token to the commit of the new tab's values.
+   * Forks are refused (with `503 Service Unavailable`) beyond it.
+   * @default 1000
+   */
+  maxTokens?: number;
+  /**
+   * How long (in milliseconds) the new tab has to use its fork token, and then to commit its values
+   * (since its last request).
+   * @default 60000
+   */
+  ttl?: number;
+};
+
+/**
+ * A tab forked from another one, whose values weren't committed yet (see `TabForkRoute.getTabFork()`).
+ */
+export type TabFork = {
+  /** The ID of the tab the tab was forked from. */
+  fromTabId: string;
+  /** Whether the request used up the fork token (the first request of the new tab, seen by each of its loaders). */
+  isNew: boolean;
+  /**
+   * Whether the original tab was proven to belong to the user who forked it (with a signed tab ID or the `isTabOwner`
+   * check), so that its server-side state can be cloned (see the `cloneTabData` option of `createTabSessionStorage()`).
+   */
+  isVerified: boolean;
+};
+
+/**
+ * A resource route issuing the fork tokens of `forkTab()`, and consuming them.
+ */
+export type TabForkRoute = {
+  /**
+   * The route's action: issues a fork token for the submitted tab ID, and redirects the new tab to the submitted
+   * path with it (with a `303 See Other` response).
+   */
+  action: (args: { request: Request }) => Promise<Response>;
+  /**
+   * Returns the fork of the request's tab (see the `forkRoute` option of `createTabSessionStorage()`).
+   * A fork token is only valid once, until it expires, and in the browser that forked the tab: the request
+   * using it up binds the fork to its tab ID, until the new tab's values are committed (see `commitTabFork()`).
+   *
+   * @param request The request to inspect.
+   * @param tabId The request's tab ID.
+   * @returns The fork, or `undefined` if the tab isn't (or no longer) a pending fork.
+   */
+  getTabFork: (request: Request, tabId: string) => TabFork | undefined;
+  /**
+   * Ends the fork of a tab, once the values copied from the original tab are saved (see `commitTabSession()`).
+   */
+  commitTabFork: (tabId: string) => void;
+};
+
+/**
+ * A pending fork token.
+ */
+type ForkToken = {
+  /** The ID of the tab being forked. */
+  fromTabId: string;
+  /** Whether the tab being forked was proven to belong to the requester. */
+  isVerified: boolean;
+  /** The value of the cookie binding the token to the browser that forked the tab. */
+  nonce: string;
+  /** When the token expires (in milliseconds since the epoch). */
+  expiresAt: number;
+};
+
+/**
+ * A fork bound to the new tab's ID, until its values are committed.
+ */
+type PendingFork = {
+  /** The ID of the tab the tab was forked from. */
+  fromTabId: string;
+  /** Whether the original tab was proven to belong to the requester. */
+  isVerified: boolean;
+  /** When the fork expires (in milliseconds since the epoch), unless the new tab makes another request. */
+  expiresAt: number;
+};
+
+const DEFAULT_MAX_TOKENS = 1_000;
+const DEFAULT_TTL = 60_000;
+
+/**
+ * Creates a resource route issuing single-use fork tokens (see `forkTab()`): the tab being forked submits its tab ID
+ * to the route, which redirects the new tab to the forked page with a random token mapped to that tab ID.
+ *
+ * Tokens are bound to the browser that forked the tab (with an `HttpOnly` cookie), so a token leaked along with
+ * a URL can't be used to copy the state of another user's tab. Tokens (and the forks whose values weren't committed yet)
+ * are tracked in memory, by each server instance.
+ *
+ * @example
+ * // sessions.server.ts
+ * export const tabForkRoute = createTabForkRoute();
+ * export const tabSessionStorage = createTabSessionStorage(sessionStorage, { forkRoute: tabForkRoute });
+ *
+ * // routes/tab-fork.ts
+ * export const { action } = tabForkRoute;
+ *
+ * @param options Configuration options.
+ * @returns The resource route.
+ */
+export function createTabForkRoute(options?: TabForkRouteOptions): TabForkRoute {
+  const {
+    cookieName = FORK_SEARCH_PARAM_KEY,
+    forkSearchParamKey = options?.config?.forkSearchParamKey ?? FORK_SEARCH_PARAM_KEY,
+    isTabOwner,
+    maxTokens = DEFAULT_MAX_TOKENS,
+    ttl = DEFAULT_TTL,
+    ...getTabIdOptions
+  } = options ?? {};
+
+  const idSearchParamKey = getTabIdOptions.paramKey ?? getTabIdOptions.config?.idSearchParamKey ?? SEARCH_PARAM_KEY;
+  const isSigned = "secret" in getTabIdOptions;
+
+  const tokens = new Map<string, ForkToken>();
+  const forks = new Map<string, PendingFork>(); // by the ID of the new tab
+  const requests = new WeakMap<Request, TabFork | undefined>();
+
+  /**
+   * Forgets about the tokens that were never used (ie: blocked popups), and the forks that were never committed.
+   */
+  const sweep = (now: number) => {
+    tokens.forEach(({ expiresAt }, token) => expiresAt <= now && tokens.delete(token));
+    forks.forEach(({ expiresAt }, tabId) => expiresAt <= now && forks.delete(tabId));
+  };
+
+  return {
+    action: async ({ request }) => {
+      if (request.method !== "POST") {
+        return new Response(null, { status: 405, headers: { Allow: "POST" } });
+      }
+
+      const formData = await request.formData();
+      const fromTabId = await getTabId(request, { ...getTabIdOptions, formData, sources: ["form-data"] });
+      const to = formData.get("to");
+
+      // only redirect to the application's own pages
+      const url = typeof to === "string" && URL.canParse(to, request.url) ? new URL(to, request.url) : undefined;
+
+      if (fromTabId === undefined || url === undefined || url.origin !== new URL(request.url).origin) {
+        return new Response("Invalid tab fork", { status: 400 });
+      }
+
+      // tab IDs are easy to guess: the tab's server-side state is only cloned for its owner
+      const isOwner = isTabOwner === undefined ? undefined : await isTabOwner(request, fromTabId);
+
+      if (isOwner === false) {
+        return new Response("Forbidden tab fork", { status: 403 });
+      }
+
+      const now = Date.now();
+      sweep(now);
+
+      if (tokens.size + forks.size >= maxTokens) {
+        return new Response("Too many pending tab forks", { status: 503 });
+      }
+
+      const token = crypto.randomUUID();
+      const nonce = crypto.randomUUID();
+      tokens.set(token, { fromTabId, isVerified: isSigned || isOwner === true, nonce, expiresAt: now + ttl });
+
+      url.searchParams.delete(idSearchParamKey); // the new tab gets its own tab ID
+      url.searchParams.set(forkSearchParamKey, token);
+
+      const cookie = [
+        `${cookieName}-${token}=${nonce}`,
+        "Path=/",
+        `Max-Age=${Math.ceil(ttl / 1000)}`,
+        "HttpOnly",
+        "SameSite=Lax",
+        ...(url.protocol === "https:" ? ["Secure"] : []),
+      ];
+
+      return redirect(`${url.pathname}${url.search}${url.hash}`, { status: 303, headers: { "Set-Cookie": cookie.join("; ") } });
+    },
+
+    getTabFork: (request, tabId) => {
+      if (requests.has(request)) {
+        return requests.get(request); // ie: read by each loader of the request
+      }
+
+      const now = Date.now();
+      const token = new URL(request.url).searchParams.get(forkSearchParamKey);
+      const issued = token === null ? undefined : tokens.get(token);
+      const pending = forks.get(tabId);
+      let fork: TabFork | undefined;
+
+      if (token !== null && issued !== undefined && issued.expiresAt > now) {
+        // tokens leaked along with a URL are useless in another browser
+        if (getCookie(request, `${cookieName}-${token}`) === issued.nonce) {
+          tokens.delete(token);
+          fork = { fromTabId: issued.fromTabId, isNew: true, isVerified: issued.isVerified };
+        }
+      } else if (token !== null) {
+        tokens.delete(token); // expired
+      }
+
+      // the copied values only last once committed: until then, every request of the new tab gets them again
+      if (fork === undefined && pending !== undefined && pending.expiresAt > now) {
+        fork = { fromTabId: pending.fromTabId, isNew: false, isVerified: pending.isVerified };
+      }
+
+      if (fork !== undefined) {
+        forks.set(tabId, { fromTabId: fork.fromTabId, isVerified: fork.isVerified, expiresAt: now + ttl });
+      }
+
+      requests.set(request, fork);
+      return fork;
+    },
+
+    commitTabFork: (tabId) => {
+      forks.delete(tabId);
+    },
+  };
+}
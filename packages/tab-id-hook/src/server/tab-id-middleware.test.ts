@@ -0,0 +1,167 @@
+import { RouterContextProvider } from "react-router";
+import { describe, expect, it, vi } from "vitest";
+import { signTabId } from "./signed-tab-id";
+import type { TabIdMiddlewareOptions } from "./tab-id-middleware";
+import { getTabIdFromContext, tabIdMiddleware } from "./tab-id-middleware";
+import { currentTabId } from "./tab-id-scope";
+
+describe("tab-id-middleware", () => {
+  /**
+   * Runs the middleware for a request, returning the context and the response (or thrown value).
+   */
+  const run = async (request: Request, options?: TabIdMiddlewareOptions) => {
+    const context = new RouterContextProvider();
+    const next = vi.fn(async () => new Response("OK"));
+    const middleware = tabIdMiddleware(options);
+
+    try {
+      const response = await middleware({ request, context, params: {}, unstable_pattern: "/" }, next);
+      return { context, next, response: response as Response };
+    } catch (thrown) {
+      return { context, next, response: thrown as Response };
+    }
+  };
+
+  describe("tabIdMiddleware()", () => {
+    it("should store the tab ID in the context", async () => {
+      const { context, next } = await run(new Request("http://localhost:3000/?tid=ab-1234"));
+
+      expect(getTabIdFromContext(context)).toBe("ab-1234");
+      expect(next).toHaveBeenCalled();
+    });
+
+    it("should run the rest of the request with the tab ID in scope", async () => {
+      const context = new RouterContextProvider();
+      const next = vi.fn(async () => new Response(currentTabId()));
+      const middleware = tabIdMiddleware();
+
+      const response = (await middleware(
+        { request: new Request("http://localhost:3000/?tid=ab-1234"), context, params: {}, unstable_pattern: "/" },
+        next,
+      )) as Response;
+
+      await expect(response.text()).resolves.toBe("ab-1234");
+    });
+
+    it("should read the tab ID from submitted form data without consuming the body", async () => {
+      const request = new Request("http://localhost:3000/other", {
+        method: "POST",
+        body: new URLSearchParams({ tid: "ab-1234" }),
+      });
+      const { context } = await run(request);
+
+      expect(getTabIdFromContext(context)).toBe("ab-1234");
+      expect(request.bodyUsed).toBe(false);
+      await expect(request.formData()).resolves.toBeInstanceOf(FormData);
+    });
+
+    it("should not read the form data when the form-data source isn't checked", async () => {
+      const request = new Request("http://localhost:3000/other?tid=cd-5678", {
+        method: "POST",
+        body: new URLSearchParams({ tid: "ab-1234" }),
+      });
+      const clone = vi.spyOn(request, "clone");
+      const { context } = await run(request, { sources: ["header", "search-param"] });
+
+      expect(getTabIdFromContext(context)).toBe("cd-5678");
+      expect(clone).not.toHaveBeenCalled();
+    });
+
+    it("should only read the form data of multipart submissions when asked to", async () => {
+      const createUpload = () => {
+        const body = new FormData();
+        body.set("tid", "ab-1234");
+        body.set("file", new Blob(["content"]), "file.txt");
+        return new Request("http://localhost:3000/upload", { method: "POST", body });
+      };
+
+      const request = createUpload();
+      const clone = vi.spyOn(request, "clone");
+      const { context } = await run(request);
+
+      expect(getTabIdFromContext(context)).toBeUndefined();
+      expect(clone).not.toHaveBeenCalled();
+
+      const { context: multipart } = await run(createUpload(), { multipart: true });
+      expect(getTabIdFromContext(multipart)).toBe("ab-1234");
+    });
+
+    it("should verify signed tab IDs", async () => {
+      const token = await signTabId("ab-1234", { secret: "s3cr3t" });
+
+      const { context: valid } = await run(new Request(`http://localhost:3000/?tid=${token}`), { secret: "s3cr3t" });
+      expect(getTabIdFromContext(valid)).toBe("ab-1234");
+
+      const { context: invalid } = await run(new Request(`http://localhost:3000/?tid=${token}`), { secret: "other" });
+      expect(getTabIdFromContext(invalid)).toBeUndefined();
+    });
+
+    it("should pass requests without a tab ID by default", async () => {
+      const { context, next, response } = await run(new Request("http://localhost:3000/"));
+
+      expect(getTabIdFromContext(context)).toBeUndefined();
+      expect(next).toHaveBeenCalled();
+      expect(response.status).toBe(200);
+    });
+
+    it("should reject requests without a tab ID", async () => {
+      const { next, response } = await run(new Request("http://localhost:3000/"), { onMissing: "reject" });
+
+      expect(next).not.toHaveBeenCalled();
+      expect(response.status).toBe(400);
+    });
+
+    it("should redirect requests without a tab ID to the bootstrap route", async () => {
+      const { next, response } = await run(new Request("http://localhost:3000/orders"), {
+        onMissing: "redirect",
+        redirectTo: (request) => `/bootstrap?returnTo=${encodeURIComponent(new URL(request.url).pathname)}`,
+      });
+
+      expect(next).not.toHaveBeenCalled();
+      expect(response.status).toBe(302);
+      expect(response.headers.get("Location")).toBe("/bootstrap?returnTo=%2Forders");
+    });
+
+    it("should not redirect the bootstrap route to itself", async () => {
+      const { next } = await run(new Request("http://localhost:3000/bootstrap"), {
+        onMissing: "redirect",
+        redirectTo: "/bootstrap",
+      });
+      expect(next).toHaveBeenCalled();
+    });
+
+    it("should mint a tab ID for document requests and redirect", async () => {
+      const request = new Request("http://localhost:3000/orders", { headers: { "Sec-Fetch-Dest": "document" } });
+      const { next, response } = await run(request, { onMissing: "mint" });
+
+      expect(next).not.toHaveBeenCalled();
+      expect(response.status).toBe(302);
+      expect(response.headers.get("Location")).toMatch(/^\/orders\?tid=[a-z]{2}-\d{4}$/);
+      expect(response.headers.get("Set-Cookie")).toMatch(/^tid-issued=[a-z]{2}-\d{4};/);
+    });
+
+    it("should mint a tab ID in the path when reading it from the path", async () => {
+      const request = new Request("http://localhost:3000/orders", { headers: { "Sec-Fetch-Dest": "document" } });
+      const { response } = await run(request, { onMissing: "mint", sources: ["path-segment"] });
+
+      expect(response.headers.get("Location")).toMatch(/^\/t\/[a-z]{2}-\d{4}\/orders$/);
+    });
+
+    it("should not mint a tab ID for data requests", async () => {
+      const { context, next } = await run(new Request("http://localhost:3000/orders.data"), { onMissing: "mint" });
+
+      expect(getTabIdFromContext(context)).toBeUndefined();
+      expect(next).toHaveBeenCalled();
+    });
+
+    it("should require a bootstrap route with the redirect policy", () => {
+      expect(() => tabIdMiddleware({ onMissing: "redirect" })).toThrowError();
+    });
+  });
+
+  describe("getTabIdFromContext()", () => {
+    it("should throw if the middleware did not run", () => {
+      expect(() => getTabIdFromContext(new RouterContextProvider())).toThrowError();
+    });
+  });
+});
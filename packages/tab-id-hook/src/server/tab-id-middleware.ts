@@ -0,0 +1,146 @@
+import type { MiddlewareFunction, RouterContextProvider } from "react-router";
+import { createContext, redirect } from "react-router";
+
+import { PATH_PREFIX } from "../defaults";
+import { hasPathSegmentTransport } from "../path-segment";
+import type { GetSignedTabIdOptions, GetTabIdOptions } from "./get-tab-id";
+import { getTabId } from "./get-tab-id";
+import type { MintTabIdOptions } from "./mint-tab-id";
+import { isDocumentRequest, mintTabId } from "./mint-tab-id";
+import { runWithTabId } from "./tab-id-scope";
+
+/**
+ * What the middleware does when the request carries no (valid) tab ID:
+ *
+ * - `pass`: continue, leaving the tab ID `undefined` in the context.
+ * - `reject`: respond with `400 Bad Request`.
+ * - `redirect`: redirect to the bootstrap route (see `redirectTo`).
+ * - `mint`: mint a tab ID for document requests and redirect them (see `mintTabId()`), and pass other requests.
+ */
+export type MissingTabIdPolicy = "pass" | "reject" | "redirect" | "mint";
+
+/**
+ * Configuration options for `tabIdMiddleware()`: every `getTabId()` option, plus the missing tab ID policy.
+ */
+export type TabIdMiddlewareOptions = (GetTabIdOptions | GetSignedTabIdOptions) & {
+  /**
+   * How tab IDs are minted when using the `mint` policy (document requests are redirected to the same URL with
+   * the tab ID). The signing options, `basename`, `config`, `paramKey` and `pathPrefix` are shared with the middleware.
+   */
+  mint?: Omit<MintTabIdOptions, "basename" | "config" | "paramKey" | "pathPrefix" | "secret" | "sessionId">;
+  /**
+   * Whether to read the tab ID of multipart form submissions (ie: file uploads), whose body is then buffered
+   * by the middleware on top of the action. Only URL-encoded form submissions are read otherwise.
+   * @default false
+   */
+  multipart?: boolean;
+  /**
+   * What to do when the request carries no (valid) tab ID.
+   * @default 'pass'
+   */
+  onMissing?: MissingTabIdPolicy;
+  /**
+   * The bootstrap route to redirect to when using the `redirect` policy. Requests to the bootstrap route itself
+   * are always passed through. A function receives the request, ie: to add a `returnTo` query param.
+   */
+  redirectTo?: string | ((request: Request) => string);
+};
+
+/**
+ * The router context key holding the tab ID of the current request.
+ */
+const tabIdContext = createContext<string | undefined>();
+
+/**
+ * Creates a React Router middleware that resolves (and validates) the tab ID once per request,
+ * stores it in the router context (see `getTabIdFromContext()`), and runs the rest of the request
+ * with the tab ID in scope (see `currentTabId()`).
+ *
+ * Unless `formData` is provided, the form data of URL-encoded form submissions (and multipart ones with `multipart`)
+ * is read from a clone of the request (so actions can still read the body), and only when the `form-data` source is checked.
+ *
+ * @param options Configuration options (see `getTabId()`).
+ * @returns The middleware, to add to the `middleware` export of a route (ie: `root.tsx`).
+ */
+export function tabIdMiddleware(options?: TabIdMiddlewareOptions): MiddlewareFunction<Response> {
+  const { mint, multipart = false, onMissing = "pass", redirectTo, ...getTabIdOptions } = options ?? {};
+
+  if (onMissing === "redirect" && redirectTo === undefined) {
+    throw new Error("The redirect policy requires a redirectTo option");
+  }
+
+  // every default source list checks the form data
+  const readsFormData = getTabIdOptions.sources?.includes("form-data") ?? true;
+
+  return async ({ request, context }, next) => {
+    const formData = getTabIdOptions.formData ?? (readsFormData ? await readFormData(request, multipart) : undefined);
+    const tabId = await getTabId(request, { ...getTabIdOptions, formData });
+
+    context.set(tabIdContext, tabId);
+
+    if (tabId === undefined && onMissing === "reject") {
+      throw new Response("Tab ID missing", { status: 400 });
+    }
+
+    if (tabId === undefined && onMissing === "redirect" && redirectTo !== undefined) {
+      const location = typeof redirectTo === "string" ? redirectTo : redirectTo(request);
+
+      // never redirect the bootstrap route to itself
+      if (new URL(location, request.url).pathname !== new URL(request.url).pathname) {
+        throw redirect(location);
+      }
+    }
+
+    if (tabId === undefined && onMissing === "mint" && isDocumentRequest(request)) {
+      const { basename, config, paramKey, pathPrefix, sources } = getTabIdOptions;
+      const { secret, sessionId } = "secret" in getTabIdOptions ? getTabIdOptions : {};
+
+      // mint the tab ID where the middleware reads it (the path, or the query)
+      const readsPath = sources?.includes("path-segment") ?? hasPathSegmentTransport(config);
+      const minted = await mintTabId(request, {
+        ...mint,
+        basename,
+        config,
+        paramKey,
+        pathPrefix: readsPath ? (pathPrefix ?? config?.pathPrefix ?? PATH_PREFIX) : undefined,
+        secret,
+        sessionId: typeof sessionId === "function" ? await sessionId(request) : sessionId,
+      });
+
+      // the client only adopts the minted tab ID from the URL (see `mintTabId()`)
+      throw redirect(minted.location, { headers: minted.headers });
+    }
+
+    return await runWithTabId(tabId, next);
+  };
+}
+
+/**
+ * Reads the tab ID resolved by `tabIdMiddleware()` for the current request.
+ *
+ * @param context The router context passed to loaders and actions.
+ * @returns The tab ID, or `undefined` if the request carries no (valid) tab ID.
+ * @throws If `tabIdMiddleware()` did not run for the current request.
+ */
+export function getTabIdFromContext(context: Readonly<RouterContextProvider>): string | undefined {
+  return context.get(tabIdContext);
+}
+
+/**
+ * Reads the form data of form submissions (from a clone of the request, leaving its body unread).
+ */
+async function readFormData(request: Request, multipart: boolean): Promise<FormData | undefined> {
+  const contentType = request.headers.get("Content-Type") ?? "";
+  const isForm = /^application\/x-www-form-urlencoded/i.test(contentType);
+  const isMultipartForm = /^multipart\/form-data/i.test(contentType);
+
+  if (!isForm && !(multipart && isMultipartForm)) {
+    return undefined;
+  }
+
+  try {
+    return await request.clone().formData();
+  } catch {
+    return undefined; // malformed body, let the action deal with it
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from "vitest";
+import { signTabId } from "./signed-tab-id";
+import { currentTabId, runWithTabId, setTabIdSpanAttributes, withTabId } from "./tab-id-scope";
+
+describe("tab-id-scope", () => {
+  const request = new Request("http://localhost:3000/?tid=ab-1234");
+
+  describe("runWithTabId()", () => {
+    it("should put the tab ID of the request in scope", () => {
+      expect(runWithTabId(request, () => currentTabId())).toBe("ab-1234");
+    });
+
+    it("should keep the tab ID in scope across awaits", async () => {
+      const result = await runWithTabId(request, async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return currentTabId();
+      });
+
+      expect(result).toBe("ab-1234");
+    });
+
+    it("should isolate concurrent requests", async () => {
+      const read = async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return currentTabId();
+      };
+
+      const results = await Promise.all([
+        runWithTabId(new Request("http://localhost:3000/?tid=ab-1234"), read),
+        runWithTabId(new Request("http://localhost:3000/?tid=cd-5678"), read),
+      ]);
+
+      expect(results).toEqual(["ab-1234", "cd-5678"]);
+    });
+
+    it("should accept a tab ID resolved beforehand", () => {
+      expect(runWithTabId("cd-5678", () => currentTabId())).toBe("cd-5678");
+      expect(runWithTabId(undefined, () => currentTabId())).toBeUndefined();
+    });
+
+    it("should verify signed tab IDs", async () => {
+      const token = await signTabId("ab-1234", { secret: "s3cr3t" });
+      const signedRequest = new Request(`http://localhost:3000/?tid=${token}`);
+
+      await expect(runWithTabId(signedRequest, () => currentTabId(), { secret: "s3cr3t" })).resolves.toBe("ab-1234");
+      await expect(runWithTabId(signedRequest, () => currentTabId(), { secret: "other" })).resolves.toBeUndefined();
+    });
+  });
+
+  describe("currentTabId()", () => {
+    it("should return undefined outside of a scope", () => {
+      expect(currentTabId()).toBeUndefined();
+    });
+  });
+
+  describe("withTabId()", () => {
+    it("should attach the tab ID to a log record", () => {
+      expect(runWithTabId(request, () => withTabId({ orderId: 1 }))).toEqual({ orderId: 1, tabId: "ab-1234" });
+      expect(runWithTabId(request, () => withTabId({}, { fieldName: "tab" }))).toEqual({ tab: "ab-1234" });
+    });
+
+    it("should leave the log record as-is outside of a scope", () => {
+      const record = { orderId: 1 };
+      expect(withTabId(record)).toBe(record);
+    });
+  });
+
+  describe("setTabIdSpanAttributes()", () => {
+    it("should record the tab ID as a span attribute", () => {
+      const span = { setAttribute: vi.fn() };
+
+      expect(runWithTabId(request, () => setTabIdSpanAttributes(span))).toBe(span);
+      runWithTabId(request, () => setTabIdSpanAttributes(span, { attributeName: "app.tab" }));
+
+      expect(span.setAttribute.mock.calls).toEqual([
+        ["tab.id", "ab-1234"],
+        ["app.tab", "ab-1234"],
+      ]);
+    });
+
+    it("should not record anything outside of a scope (or without a span)", () => {
+      const span = { setAttribute: vi.fn() };
+
+      setTabIdSpanAttributes(span);
+      expect(span.setAttribute).not.toHaveBeenCalled();
+      expect(runWithTabId(request, () => setTabIdSpanAttributes(undefined))).toBeUndefined();
+    });
+  });
+});
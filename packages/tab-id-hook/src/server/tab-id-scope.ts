@@ -0,0 +1,144 @@
+import type { AsyncLocalStorage } from "node:async_hooks";
+
+import { LOG_FIELD_NAME, SPAN_ATTRIBUTE_NAME } from "../defaults";
+import type { GetSignedTabIdOptions, GetTabIdOptions } from "./get-tab-id";
+import { getTabId } from "./get-tab-id";
+
+/**
+ * Configuration options for `withTabId()`.
+ */
+export type WithTabIdOptions = {
+  /**
+   * The field of the log record holding the tab ID.
+   * @default 'tabId'
+   */
+  fieldName?: string;
+};
+
+/**
+ * Configuration options for `setTabIdSpanAttributes()`.
+ */
+export type SetTabIdSpanAttributesOptions = {
+  /**
+   * The span attribute holding the tab ID.
+   * @default 'tab.id'
+   */
+  attributeName?: string;
+};
+
+/**
+ * The part of an OpenTelemetry `Span` used to record the tab ID (so that `@opentelemetry/api` isn't required).
+ */
+export type TabIdSpan = {
+  setAttribute(key: string, value: string): unknown;
+};
+
+/**
+ * The scope of the current request, shared by every function it calls (however deep, and across `await`s).
+ */
+type TabIdScope = {
+  tabId: string | undefined;
+};
+
+/**
+ * The storage of the scopes, created on first use (`undefined` where `node:async_hooks` isn't available, ie: browsers).
+ */
+let scopes: AsyncLocalStorage<TabIdScope> | undefined;
+
+/**
+ * Runs a function with the tab ID of a request in scope, so that the code it calls (repositories, audit logging,
+ * API clients...) can read it with `currentTabId()` instead of having it passed down by hand.
+ * `tabIdMiddleware()` already runs the loaders and actions with the tab ID in scope.
+ *
+ * When a `secret` is configured, the tab ID is verified first (see `getTabId()`), and a promise is returned.
+ *
+ * @example
+ * export async function loader({ request }: Route.LoaderArgs) {
+ *   return runWithTabId(request, () => ordersRepository.findDrafts()); // reads currentTabId()
+ * }
+ *
+ * @param request The request carrying the tab ID (or the tab ID itself, ie: resolved by a middleware).
+ * @param fn The function to run.
+ * @param options Configuration options (see `getTabId()`).
+ * @returns The result of `fn`.
+ */
+export function runWithTabId<T>(request: Request, fn: () => T, options: GetSignedTabIdOptions): Promise<Awaited<T>>;
+export function runWithTabId<T>(request: Request | string | undefined, fn: () => T, options?: GetTabIdOptions): T;
+export function runWithTabId<T>(
+  request: Request | string | undefined,
+  fn: () => T,
+  options?: GetTabIdOptions | GetSignedTabIdOptions,
+): T | Promise<Awaited<T>> {
+  if (request instanceof Request && options !== undefined && "secret" in options) {
+    return getTabId(request, options).then((tabId) => runInScope(tabId, fn)) as Promise<Awaited<T>>;
+  }
+
+  const tabId = request instanceof Request ? getTabId(request, options) : request;
+  return runInScope(tabId, fn);
+}
+
+/**
+ * Returns the tab ID in scope (see `runWithTabId()` and `tabIdMiddleware()`).
+ *
+ * @returns The tab ID, or `undefined` outside of a scope (or if the request carries no tab ID).
+ */
+export function currentTabId(): string | undefined {
+  return getScopes()?.getStore()?.tabId;
+}
+
+/**
+ * Attaches the tab ID in scope to a structured log record, to correlate the logs of a tab.
+ *
+ * @example
+ * logger.info(withTabId({ orderId }), "order saved");
+ *
+ * // or, with pino, on every record
+ * const logger = pino({ mixin: () => withTabId({}) });
+ *
+ * @param record The log record.
+ * @param options Configuration options.
+ * @returns A copy of the record, with the tab ID (the record itself, outside of a scope).
+ */
+export function withTabId<T extends object>(record: T, options?: WithTabIdOptions): T & Record<string, string> {
+  const { fieldName = LOG_FIELD_NAME } = options ?? {};
+  const tabId = currentTabId();
+
+  return (tabId === undefined ? record : { ...record, [fieldName]: tabId }) as T & Record<string, string>;
+}
+
+/**
+ * Records the tab ID in scope as an attribute of an OpenTelemetry span, to correlate the traces of a tab.
+ *
+ * @example
+ * tracer.startActiveSpan("orders.save", (span) => {
+ *   setTabIdSpanAttributes(span);
+ *   ...
+ * });
+ *
+ * @param span The span (ie: `trace.getActiveSpan()`). Nothing is recorded when `undefined`.
+ * @param options Configuration options.
+ * @returns The span.
+ */
+export function setTabIdSpanAttributes<T extends TabIdSpan | undefined>(span: T, options?: SetTabIdSpanAttributesOptions): T {
+  const { attributeName = SPAN_ATTRIBUTE_NAME } = options ?? {};
+  const tabId = currentTabId();
+
+  if (tabId !== undefined) {
+    span?.setAttribute(attributeName, tabId);
+  }
+
+  return span;
+}
+
+function runInScope<T>(tabId: string | undefined, fn: () => T): T {
+  const storage = getScopes();
+  return storage === undefined ? fn() : storage.run({ tabId }, fn);
+}
+
+function getScopes(): AsyncLocalStorage<TabIdScope> | undefined {
+  if (scopes === undefined && typeof process !== "undefined" && typeof process.getBuiltinModule === "function") {
+    scopes = new (process.getBuiltinModule("node:async_hooks").AsyncLocalStorage)();
+  }
+
+  return scopes;
+}
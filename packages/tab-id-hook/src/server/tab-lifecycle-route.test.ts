@@ -0,0 +1,100 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createTabLifecycleRoute } from "./tab-lifecycle-route";
+
+describe("tab-lifecycle-route", () => {
+  const onTabOpened = vi.fn();
+  const onTabIdle = vi.fn();
+  const onTabClosed = vi.fn();
+
+  /**
+   * Creates a lifecycle event request, as sent by the client.
+   */
+  const createRequest = (event: string, tabId = "ab-1234") =>
+    new Request("http://localhost:3000/tab-lifecycle", { method: "POST", body: new URLSearchParams({ tid: tabId, event }) });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("createTabLifecycleRoute()", () => {
+    it("should report opened and closed tabs", async () => {
+      const { action } = createTabLifecycleRoute({ onTabOpened, onTabIdle, onTabClosed, closeGracePeriod: 1000 });
+
+      const response = await action({ request: createRequest("open") });
+      expect(response.status).toBe(204);
+      expect(onTabOpened).toHaveBeenCalledWith("ab-1234");
+
+      await action({ request: createRequest("heartbeat") });
+      expect(onTabOpened).toHaveBeenCalledTimes(1);
+
+      await action({ request: createRequest("close") });
+      expect(onTabClosed).not.toHaveBeenCalled(); // not until the grace period has elapsed
+
+      vi.advanceTimersByTime(1000);
+      expect(onTabClosed).toHaveBeenCalledWith("ab-1234");
+      expect(onTabIdle).not.toHaveBeenCalled();
+    });
+
+    it("should not report reloaded tabs as closed", async () => {
+      const { action } = createTabLifecycleRoute({ onTabOpened, onTabClosed, closeGracePeriod: 1000 });
+
+      await action({ request: createRequest("open") });
+      await action({ request: createRequest("close") });
+      await action({ request: createRequest("open") });
+
+      vi.advanceTimersByTime(1000);
+      expect(onTabClosed).not.toHaveBeenCalled();
+      expect(onTabOpened).toHaveBeenCalledTimes(1);
+    });
+
+    it("should report tabs that stop sending events as idle", async () => {
+      const { action } = createTabLifecycleRoute({ onTabOpened, onTabIdle, idleTimeout: 1000 });
+
+      await action({ request: createRequest("open") });
+      vi.advanceTimersByTime(999);
+      await action({ request: createRequest("heartbeat") });
+      vi.advanceTimersByTime(999);
+      expect(onTabIdle).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1);
+      expect(onTabIdle).toHaveBeenCalledWith("ab-1234");
+
+      await action({ request: createRequest("heartbeat") }); // the tab came back
+      expect(onTabOpened).toHaveBeenCalledTimes(2);
+    });
+
+    it("should report the errors of the callbacks", async () => {
+      const error = new Error("Store unavailable");
+      const onError = vi.fn();
+      const { action } = createTabLifecycleRoute({ onTabClosed: () => Promise.reject(error), onError, closeGracePeriod: 1000 });
+
+      await action({ request: createRequest("close") });
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(onError).toHaveBeenCalledWith(error, "ab-1234");
+    });
+
+    it("should refuse new tabs once the limit is reached", async () => {
+      const { action } = createTabLifecycleRoute({ onTabOpened, maxTabs: 1 });
+
+      await action({ request: createRequest("open") });
+      expect((await action({ request: createRequest("open", "cd-5678") })).status).toBe(503);
+      expect((await action({ request: createRequest("heartbeat") })).status).toBe(204); // already tracked
+      expect(onTabOpened).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reject invalid events", async () => {
+      const { action } = createTabLifecycleRoute({ onTabOpened });
+
+      expect((await action({ request: createRequest("explode") })).status).toBe(400);
+      expect((await action({ request: createRequest("open", "") })).status).toBe(400);
+      expect((await action({ request: new Request("http://localhost:3000/tab-lifecycle") })).status).toBe(405);
+      expect(onTabOpened).not.toHaveBeenCalled();
+    });
+  });
+});
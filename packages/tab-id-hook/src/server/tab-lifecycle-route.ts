@@ -0,0 +1,163 @@
+import type { GetSignedTabIdOptions, GetTabIdFromFormDataOptions } from "./get-tab-id";
+import { getTabId } from "./get-tab-id";
+
+/**
+ * The lifecycle events sent by `useTabId({ lifecycleEndpoint })`:
+ *
+ * - `open`: the tab started (or was restored from the back/forward cache).
+ * - `heartbeat`: the tab is still open.
+ * - `close`: the tab was unloaded (closed, reloaded, or navigated away).
+ */
+export type TabLifecycleEvent = "open" | "heartbeat" | "close";
+
+/**
+ * Configuration options for `createTabLifecycleRoute()`.
+ */
+export type TabLifecycleRouteOptions = (
+  | GetTabIdFromFormDataOptions
+  | Pick<GetSignedTabIdOptions, "config" | "generator" | "onInvalid" | "paramKey" | "secret" | "sessionId">
+) & {
+  /**
+   * How long (in milliseconds) to wait after a `close` event before considering the tab closed.
+   * Reloading the tab (or navigating to another document) also sends a `close` event, immediately followed by an `open`.
+   * @default 5000
+   */
+  closeGracePeriod?: number;
+  /**
+   * How long (in milliseconds) a tab can go without sending any event before it is considered idle.
+   * Should be a few times the client's `heartbeatInterval`.
+   * @default 90000
+   */
+  idleTimeout?: number;
+  /**
+   * How many tabs can be tracked at once. Events of new tabs are refused (with `503 Service Unavailable`)
+   * while the limit is reached, so that requests forging tab IDs can't grow the tracked tabs without bound.
+   * Configuring a `secret` also restricts the tracked tabs to the tab IDs signed by the application.
+   * @default 10000
+   */
+  maxTabs?: number;
+  /**
+   * Called when `onTabIdle` or `onTabClosed` fails (they run outside of any request, so their errors can't be
+   * surfaced as a response).
+   * @default console.error
+   */
+  onError?: (error: unknown, tabId: string) => void;
+  /**
+   * Called when a tab that isn't tracked yet sends an event (ie: a new tab, or an idle tab coming back).
+   */
+  onTabOpened?: (tabId: string) => void | Promise<void>;
+  /**
+   * Called when a tab stops sending events (ie: its browser was closed, or it was frozen by the browser).
+   * The tab is no longer tracked; it is reported as opened again if it comes back.
+   */
+  onTabIdle?: (tabId: string) => void | Promise<void>;
+  /**
+   * Called when a tab was closed by the user.
+   */
+  onTabClosed?: (tabId: string) => void | Promise<void>;
+};
+
+/**
+ * A resource route receiving the tab lifecycle events.
+ */
+export type TabLifecycleRoute = {
+  /**
+   * The route's action, handling the events (with a `204 No Content` response).
+   */
+  action: (args: { request: Request }) => Promise<Response>;
+};
+
+/**
+ * The tracking state of an open tab.
+ */
+type TrackedTab = {
+  /** The timer that reports the tab as idle (or closed, after a `close` event). */
+  timer: ReturnType<typeof setTimeout>;
+};
+
+const DEFAULT_CLOSE_GRACE_PERIOD = 5_000;
+const DEFAULT_IDLE_TIMEOUT = 90_000;
+const DEFAULT_MAX_TABS = 10_000;
+
+/**
+ * Creates a resource route that receives the lifecycle events of the application's tabs
+ * (see the `lifecycleEndpoint` option of `useTabId()`), so that tab-scoped server data can be released
+ * as soon as a tab is closed (or has gone idle).
+ *
+ * Tabs are tracked in memory: with several server instances, each instance only sees the events it receives.
+ *
+ * @example
+ * // routes/tab-lifecycle.ts
+ * export const { action } = createTabLifecycleRoute({ onTabClosed: (tabId) => tabStore.delete(tabId) });
+ *
+ * @param options Configuration options.
+ * @returns The resource route.
+ */
+export function createTabLifecycleRoute(options?: TabLifecycleRouteOptions): TabLifecycleRoute {
+  const {
+    closeGracePeriod = DEFAULT_CLOSE_GRACE_PERIOD,
+    idleTimeout = DEFAULT_IDLE_TIMEOUT,
+    maxTabs = DEFAULT_MAX_TABS,
+    onError = console.error,
+    onTabClosed,
+    onTabIdle,
+    onTabOpened,
+    ...getTabIdOptions
+  } = options ?? {};
+
+  const tabs = new Map<string, TrackedTab>();
+
+  /**
+   * (Re)starts the tab's timer, reporting it with `callback` once the timer fires.
+   */
+  const track = (tabId: string, delay: number, callback?: (tabId: string) => void | Promise<void>) => {
+    clearTimeout(tabs.get(tabId)?.timer);
+
+    const timer = setTimeout(async () => {
+      tabs.delete(tabId);
+
+      try {
+        await callback?.(tabId);
+      } catch (error) {
+        onError(error, tabId); // never let the rejection go unhandled (it would end the process)
+      }
+    }, delay);
+
+    timer.unref?.(); // never keep the server process alive
+    tabs.set(tabId, { timer });
+  };
+
+  return {
+    action: async ({ request }) => {
+      if (request.method !== "POST") {
+        return new Response(null, { status: 405, headers: { Allow: "POST" } });
+      }
+
+      const formData = await request.formData();
+      const tabId = await getTabId(request, { ...getTabIdOptions, formData, sources: ["form-data"] });
+      const event = formData.get("event");
+
+      if (tabId === undefined || (event !== "open" && event !== "heartbeat" && event !== "close")) {
+        return new Response("Invalid tab lifecycle event", { status: 400 });
+      }
+
+      const isNew = !tabs.has(tabId);
+
+      if (isNew && tabs.size >= maxTabs) {
+        return new Response("Too many tabs tracked", { status: 503 });
+      }
+
+      if (event === "close") {
+        track(tabId, closeGracePeriod, onTabClosed);
+      } else {
+        track(tabId, idleTimeout, onTabIdle);
+      }
+
+      if (isNew && event !== "close") {
+        await onTabOpened?.(tabId);
+      }
+
+      return new Response(null, { status: 204 });
+    },
+  };
+}
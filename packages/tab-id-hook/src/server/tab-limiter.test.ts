@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { TabLimiterOptions } from "./tab-limiter";
+import { createTabLimiter, getTabLimitExceeded } from "./tab-limiter";
+
+describe("tab-limiter", () => {
+  /**
+   * Creates a request of a user's tab.
+   */
+  const createRequest = (tabId: string, userId = "alice") =>
+    new Request(`http://localhost:3000/orders?tid=${tabId}`, { headers: { "X-User-Id": userId } });
+
+  /**
+   * Creates a limiter identifying the users by the `X-User-Id` header.
+   */
+  const createLimiter = (options?: Omit<TabLimiterOptions, "getUserId">) =>
+    createTabLimiter({ getUserId: (request) => request.headers.get("X-User-Id") ?? undefined, maxTabs: 2, ...options });
+
+  /**
+   * Returns the refusal thrown by `enforce()`.
+   */
+  const getRefusal = async (promise: Promise<unknown>) => {
+    const response = await promise.then(
+      () => expect.fail("the tab should have been refused"),
+      (error: unknown) => error as Response,
+    );
+
+    expect(response.status).toBe(429);
+    expect(JSON.parse(response.headers.get("X-Tab-Limit-Exceeded") ?? "")).toEqual(await response.clone().json());
+    return getTabLimitExceeded(await response.json());
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("createTabLimiter()", () => {
+    it("should track the tabs of each user", async () => {
+      const limiter = createLimiter();
+
+      expect(await limiter.enforce(createRequest("ab-1234"))).toBe("ab-1234");
+      expect(await limiter.enforce(createRequest("cd-5678"))).toBe("cd-5678");
+      expect(await limiter.enforce(createRequest("ef-9012", "bob"))).toBe("ef-9012");
+      expect(await limiter.enforce(createRequest("ab-1234"))).toBe("ab-1234");
+
+      expect(limiter.getTabs("alice").map(({ tabId }) => tabId)).toEqual(["ab-1234", "cd-5678"]);
+      expect(limiter.getTabs("bob").map(({ tabId }) => tabId)).toEqual(["ef-9012"]);
+    });
+
+    it("should not limit requests without a tab ID or a user", async () => {
+      const getUserId = vi.fn(() => undefined);
+      const limiter = createTabLimiter({ getUserId, maxTabs: 1 });
+
+      expect(await limiter.enforce(new Request("http://localhost:3000/orders"))).toBeUndefined();
+      expect(getUserId).not.toHaveBeenCalled();
+
+      expect(await limiter.enforce(createRequest("ab-1234"))).toBe("ab-1234");
+      expect(await limiter.enforce(createRequest("cd-5678"))).toBe("cd-5678");
+    });
+
+    it("should evict the oldest tab by default", async () => {
+      const onTabEvicted = vi.fn();
+      const limiter = createLimiter({ onTabEvicted });
+
+      await limiter.enforce(createRequest("ab-1234"));
+      await limiter.enforce(createRequest("cd-5678"));
+      await limiter.enforce(createRequest("ab-1234"));
+      await limiter.enforce(createRequest("ef-9012"));
+
+      expect(onTabEvicted).toHaveBeenCalledWith("ab-1234", "alice");
+      expect(limiter.getTabs("alice").map(({ tabId }) => tabId)).toEqual(["cd-5678", "ef-9012"]);
+
+      // the evicted tab is refused, instead of evicting another tab in turn
+      expect(await getRefusal(limiter.enforce(createRequest("ab-1234")))).toEqual({
+        type: "TabLimitExceeded",
+        reason: "evicted",
+        tabId: "ab-1234",
+        maxTabs: 2,
+      });
+    });
+
+    it("should evict the least recently active tab once idle", async () => {
+      const limiter = createLimiter({ strategy: "evict-idle", idleTimeout: 1000 });
+
+      await limiter.enforce(createRequest("ab-1234"));
+      await limiter.enforce(createRequest("cd-5678"));
+      vi.advanceTimersByTime(500);
+      await limiter.enforce(createRequest("ab-1234"));
+
+      expect(await getRefusal(limiter.enforce(createRequest("ef-9012")))).toMatchObject({ reason: "rejected" });
+
+      vi.advanceTimersByTime(500);
+      expect(await limiter.enforce(createRequest("ef-9012"))).toBe("ef-9012");
+      expect(limiter.getTabs("alice").map(({ tabId }) => tabId)).toEqual(["ab-1234", "ef-9012"]);
+    });
+
+    it("should reject new tabs until a tab is released", async () => {
+      const limiter = createLimiter({ strategy: "reject" });
+
+      await limiter.enforce(createRequest("ab-1234"));
+      await limiter.enforce(createRequest("cd-5678"));
+
+      expect(await getRefusal(limiter.enforce(createRequest("ef-9012")))).toMatchObject({ reason: "rejected" });
+
+      await limiter.release("ab-1234");
+      expect(await limiter.enforce(createRequest("ef-9012"))).toBe("ef-9012");
+    });
+
+    it("should forget expired tabs", async () => {
+      const limiter = createLimiter({ strategy: "reject", ttl: 1000 });
+
+      await limiter.enforce(createRequest("ab-1234"));
+      await limiter.enforce(createRequest("cd-5678", "bob"));
+      vi.advanceTimersByTime(1000);
+
+      expect(limiter.sweep()).toBe(2);
+      expect(limiter.getTabs("alice")).toEqual([]);
+    });
+  });
+
+  describe("getTabLimitExceeded()", () => {
+    it("should ignore other errors", () => {
+      expect(getTabLimitExceeded(new Error("Boom"))).toBeUndefined();
+      expect(getTabLimitExceeded(undefined)).toBeUndefined();
+    });
+  });
+});
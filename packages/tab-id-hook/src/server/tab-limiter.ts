@@ -0,0 +1,316 @@
+import { isRouteErrorResponse } from "react-router";
+import { TAB_LIMIT_HEADER_NAME } from "../defaults";
+import type { GetSignedTabIdOptions, GetTabIdOptions } from "./get-tab-id";
+import { getTabId } from "./get-tab-id";
+
+/**
+ * How a tab limiter makes room when a user opens a tab over the limit:
+ *
+ * - `evict-oldest`: the tab opened first is evicted.
+ * - `evict-idle`: the least recently active tab is evicted, if it has been idle for at least `idleTimeout`;
+ *   otherwise the new tab is rejected.
+ * - `reject`: the new tab is rejected until one of the user's tabs is released (or expires).
+ */
+export type TabLimitStrategy = "evict-oldest" | "evict-idle" | "reject";
+
+/**
+ * The body of the `429 Too Many Requests` response thrown by `enforce()` for a tab over the limit,
+ * also sent as JSON in the `X-Tab-Limit-Exceeded` header (see the `onTabLimitExceeded` option of `useTabId()`).
+ */
+export type TabLimitExceeded = {
+  type: "TabLimitExceeded";
+  /**
+   * Why the tab was refused: the user reached the limit (`rejected`), or the tab was evicted
+   * to make room for a newer tab (`evicted`).
+   */
+  reason: "rejected" | "evicted";
+  /**
+   * The refused tab's ID.
+   */
+  tabId: string;
+  /**
+   * The maximum number of tabs per user.
+   */
+  maxTabs: number;
+};
+
+/**
+ * A tab counting toward its user's limit.
+ */
+export type TrackedTab = {
+  tabId: string;
+  /**
+   * When the tab was first seen (in milliseconds since the epoch).
+   */
+  openedAt: number;
+  /**
+   * When the tab last sent a request (in milliseconds since the epoch).
+   */
+  lastSeenAt: number;
+};
+
+/**
+ * Configuration options for `createTabLimiter()`.
+ */
+export type TabLimiterOptions = (GetTabIdOptions | GetSignedTabIdOptions) & {
+  /**
+   * Returns the user (ie: the session or user ID) owning the request's tab.
+   * Requests without a user aren't limited.
+   */
+  getUserId: (request: Request) => string | undefined | Promise<string | undefined>;
+  /**
+   * How long (in milliseconds) a tab can go without sending a request before it can be evicted
+   * by the `evict-idle` strategy.
+   * @default 300000 (5 minutes)
+   */
+  idleTimeout?: number;
+  /**
+   * The maximum number of tabs per user.
+   * @default 10
+   */
+  maxTabs?: number;
+  /**
+   * Called when a tab is evicted, ie: to release its tab-scoped server state.
+   */
+  onTabEvicted?: (tabId: string, userId: string) => void | Promise<void>;
+  /**
+   * How to make room when a user opens a tab over the limit.
+   * @default 'evict-oldest'
+   */
+  strategy?: TabLimitStrategy;
+  /**
+   * How long (in milliseconds) a tab is tracked without sending a request. Expired tabs no longer count
+   * toward the limit (and evicted tabs are refused for as long).
+   * @default 1800000 (30 minutes)
+   */
+  ttl?: number;
+};
+
+/**
+ * A server-side policy limiting the number of tabs each user can have open at once.
+ */
+export type TabLimiter = {
+  /**
+   * Tracks the request's tab for its user, making room for it (or refusing it) when the user is over the limit.
+   * Call it before any tab-scoped work, ie: from a middleware or a loader.
+   *
+   * @returns The request's tab ID, or `undefined` if the request carries no tab ID.
+   * @throws A `429 Too Many Requests` response with a `TabLimitExceeded` body, when the tab is rejected
+   * or was evicted.
+   */
+  enforce(request: Request): Promise<string | undefined>;
+  /**
+   * Stops tracking a tab (ie: when the tab is closed), making room for another tab of its user.
+   */
+  release(tabIdOrRequest: string | Request): Promise<void>;
+  /**
+   * Returns the tabs counting toward a user's limit, from the oldest to the newest.
+   */
+  getTabs(userId: string): TrackedTab[];
+  /**
+   * Forgets every expired tab (and evicted tab). Expired tabs no longer count toward the limit, but are only
+   * removed when their user sends a request or when swept, so call this function periodically.
+   *
+   * @returns The number of forgotten tabs.
+   */
+  sweep(): number;
+};
+
+/**
+ * The tabs of a user.
+ */
+type UserTabs = {
+  /** The tabs counting toward the limit, in the order they were opened. */
+  tabs: Map<string, TrackedTab>;
+  /** The evicted tabs, with the time (in milliseconds since the epoch) until which they are refused. */
+  evicted: Map<string, number>;
+};
+
+const DEFAULT_IDLE_TIMEOUT = 5 * 60 * 1000;
+const DEFAULT_MAX_TABS = 10;
+const DEFAULT_TTL = 30 * 60 * 1000;
+
+/**
+ * Creates a server-side policy limiting the number of tabs each user can have open at once.
+ *
+ * Every new tab ID makes the server allocate fresh tab-scoped state, so a single user could otherwise create
+ * unbounded server state just by opening tabs. Put the limiter in front of expensive per-tab work.
+ *
+ * Tabs are tracked in memory: with several server instances, each instance only sees the requests it receives.
+ *
+ * @example
+ * const tabLimiter = createTabLimiter({ getUserId: async (request) => (await getSession(request)).id, maxTabs: 5 });
+ *
+ * export async function loader({ request }: Route.LoaderArgs) {
+ *   const tabId = await tabLimiter.enforce(request);
+ *   // ...
+ * }
+ *
+ * @param options Configuration options.
+ * @returns The tab limiter.
+ */
+export function createTabLimiter(options: TabLimiterOptions): TabLimiter {
+  const {
+    getUserId,
+    idleTimeout = DEFAULT_IDLE_TIMEOUT,
+    maxTabs = DEFAULT_MAX_TABS,
+    onTabEvicted,
+    strategy = "evict-oldest",
+    ttl = DEFAULT_TTL,
+    ...getTabIdOptions
+  } = options;
+
+  const users = new Map<string, UserTabs>();
+  const owners = new Map<string, string>(); // tab ID -> user ID
+
+  /**
+   * Forgets the user's expired tabs (and evicted tabs), and the user once nothing is left.
+   *
+   * @returns The number of forgotten tabs.
+   */
+  const expire = (userId: string, { tabs, evicted }: UserTabs, now: number): number => {
+    let count = 0;
+
+    for (const { tabId, lastSeenAt } of tabs.values()) {
+      if (lastSeenAt + ttl <= now) {
+        tabs.delete(tabId);
+        owners.delete(tabId);
+        count++;
+      }
+    }
+
+    for (const [tabId, refusedUntil] of evicted) {
+      if (refusedUntil <= now) {
+        evicted.delete(tabId);
+        count++;
+      }
+    }
+
+    if (tabs.size === 0 && evicted.size === 0) {
+      users.delete(userId);
+    }
+
+    return count;
+  };
+
+  /**
+   * Picks the tab to evict to make room for a new one, or `undefined` if the new tab must be rejected.
+   */
+  const pickEvicted = (tabs: Map<string, TrackedTab>, now: number): TrackedTab | undefined => {
+    switch (strategy) {
+      case "evict-oldest":
+        return tabs.values().next().value;
+
+      case "evict-idle": {
+        const [leastRecent] = [...tabs.values()].sort((a, b) => a.lastSeenAt - b.lastSeenAt);
+        return leastRecent !== undefined && leastRecent.lastSeenAt + idleTimeout <= now ? leastRecent : undefined;
+      }
+
+      case "reject":
+        return undefined;
+    }
+  };
+
+  const refuse = (tabId: string, reason: TabLimitExceeded["reason"]): Response => {
+    const body: TabLimitExceeded = { type: "TabLimitExceeded", reason, tabId, maxTabs };
+
+    return Response.json(body, { status: 429, headers: { [TAB_LIMIT_HEADER_NAME]: JSON.stringify(body) } });
+  };
+
+  return {
+    enforce: async (request) => {
+      const tabId = await getTabId(request, getTabIdOptions);
+      const userId = tabId === undefined ? undefined : await getUserId(request);
+
+      if (tabId === undefined || userId === undefined) {
+        return tabId;
+      }
+
+      const now = Date.now();
+      const known = users.get(userId);
+
+      if (known !== undefined) {
+        expire(userId, known, now);
+      }
+
+      const { tabs, evicted } = users.get(userId) ?? { tabs: new Map<string, TrackedTab>(), evicted: new Map() };
+      const tab = tabs.get(tabId);
+
+      if (tab !== undefined) {
+        tab.lastSeenAt = now;
+        return tabId;
+      }
+
+      if (evicted.has(tabId)) {
+        throw refuse(tabId, "evicted");
+      }
+
+      while (tabs.size >= maxTabs) {
+        const evictedTab = pickEvicted(tabs, now);
+
+        if (evictedTab === undefined) {
+          throw refuse(tabId, "rejected");
+        }
+
+        tabs.delete(evictedTab.tabId);
+        owners.delete(evictedTab.tabId);
+        evicted.set(evictedTab.tabId, now + ttl);
+        await onTabEvicted?.(evictedTab.tabId, userId);
+      }
+
+      tabs.set(tabId, { tabId, openedAt: now, lastSeenAt: now });
+      owners.set(tabId, userId);
+      users.set(userId, { tabs, evicted });
+      return tabId;
+    },
+
+    release: async (tabIdOrRequest) => {
+      const tabId = typeof tabIdOrRequest === "string" ? tabIdOrRequest : await getTabId(tabIdOrRequest, getTabIdOptions);
+      const userId = tabId === undefined ? undefined : owners.get(tabId);
+      const user = userId === undefined ? undefined : users.get(userId);
+
+      if (tabId !== undefined && userId !== undefined && user !== undefined) {
+        user.tabs.delete(tabId);
+        owners.delete(tabId);
+        expire(userId, user, Date.now());
+      }
+    },
+
+    getTabs: (userId) => {
+      const user = users.get(userId);
+
+      if (user === undefined) {
+        return [];
+      }
+
+      expire(userId, user, Date.now());
+      return [...user.tabs.values()].map((tab) => ({ ...tab }));
+    },
+
+    sweep: () => {
+      const now = Date.now();
+      return [...users].reduce((count, [userId, user]) => count + expire(userId, user, now), 0);
+    },
+  };
+}
+
+/**
+ * Returns the refusal of a tab limiter carried by a route error (see `useRouteError()`), ie: to explain
+ * in an error boundary why the tab was refused.
+ *
+ * @example
+ * const exceeded = getTabLimitExceeded(useRouteError());
+ *
+ * if (exceeded?.reason === 'evicted') {
+ *   return <p>This tab was closed because too many tabs are open.</p>;
+ * }
+ *
+ * @param error The route error (or the body of the refusal).
+ * @returns The refusal, or `undefined` if the error isn't a refusal of a tab limiter.
+ */
+export function getTabLimitExceeded(error: unknown): TabLimitExceeded | undefined {
+  const data: unknown = isRouteErrorResponse(error) ? error.data : error;
+  return typeof data === "object" && data !== null && (data as { type?: unknown }).type === "TabLimitExceeded"
+    ? (data as TabLimitExceeded)
+    : undefined;
+}
@@ -0,0 +1,252 @@
+import { createCookieSessionStorage, createMemorySessionStorage } from "react-router";
+import { describe, expect, it, vi } from "vitest";
+import { signTabId } from "./signed-tab-id";
+import { createTabForkRoute } from "./tab-fork-route";
+import { createTabSessionStorage } from "./tab-session-storage";
+
+describe("createTabSessionStorage()", () => {
+  /**
+   * Builds a request for the given tab, carrying the cookie returned by a previous commit (if any).
+   */
+  const createRequest = (tabId?: string, cookie?: string) => {
+    const url = tabId ? `http://localhost:3000/?tid=${tabId}` : "http://localhost:3000/";
+    return new Request(url, { headers: cookie ? { Cookie: cookie } : {} });
+  };
+
+  it("should return undefined if the request has no tab ID", async () => {
+    const { getTabSession } = createTabSessionStorage(createMemorySessionStorage());
+    expect(await getTabSession(createRequest())).toBeUndefined();
+  });
+
+  it("should scope values to the request's tab ID", async () => {
+    const { getTabSession, commitTabSession } = createTabSessionStorage<{ count: number }>(
+      createCookieSessionStorage({ cookie: { name: "__session", secrets: ["s3cr3t"] } }),
+    );
+
+    const tabA = await getTabSession(createRequest("aa-1111"));
+    tabA?.set("count", 1);
+    const cookie = await commitTabSession(tabA!);
+
+    const tabAAgain = await getTabSession(createRequest("aa-1111", cookie));
+    const tabB = await getTabSession(createRequest("bb-2222", cookie));
+
+    expect(tabAAgain?.tabId).toBe("aa-1111");
+    expect(tabAAgain?.get("count")).toBe(1);
+    expect(tabB?.has("count")).toBe(false);
+    expect(tabB?.get("count")).toBeUndefined();
+  });
+
+  it("should keep tab-scoped values apart from shared values", async () => {
+    const { getTabSession, commitTabSession } = createTabSessionStorage<
+      { theme: string },
+      { theme: string },
+      { theme: string }
+    >(createMemorySessionStorage());
+
+    const tabSession = await getTabSession(createRequest("aa-1111"));
+    tabSession?.shared.set("theme", "dark");
+    tabSession?.set("theme", "light");
+    const cookie = await commitTabSession(tabSession!);
+
+    const otherTabSession = await getTabSession(createRequest("bb-2222", cookie));
+    expect(otherTabSession?.shared.get("theme")).toBe("dark");
+    expect(otherTabSession?.get("theme")).toBeUndefined();
+    expect(tabSession?.get("theme")).toBe("light");
+  });
+
+  it("should support tab-scoped flash values", async () => {
+    const { getTabSession, commitTabSession } = createTabSessionStorage<object, { message: string }>(
+      createMemorySessionStorage(),
+    );
+
+    const tabSession = await getTabSession(createRequest("aa-1111"));
+    tabSession?.flash("message", "saved!");
+    const cookie = await commitTabSession(tabSession!);
+
+    const otherTabSession = await getTabSession(createRequest("bb-2222", cookie));
+    expect(otherTabSession?.get("message")).toBeUndefined();
+
+    const sameTabSession = await getTabSession(createRequest("aa-1111", cookie));
+    expect(sameTabSession?.get("message")).toBe("saved!");
+    expect(sameTabSession?.has("message")).toBe(false);
+  });
+
+  it("should remove only the tab's values when destroying a tab session", async () => {
+    const { getTabSession, commitTabSession, destroyTabSession } = createTabSessionStorage<
+      { count: number },
+      { message: string }
+    >(createMemorySessionStorage());
+
+    const tabA = await getTabSession(createRequest("aa-1111"));
+    tabA?.set("count", 1);
+    tabA?.flash("message", "hello");
+    const cookieA = await commitTabSession(tabA!);
+
+    const tabB = await getTabSession(createRequest("bb-2222", cookieA));
+    tabB?.set("count", 2);
+    tabB?.shared.set("user", "jane");
+    const cookieB = await commitTabSession(tabB!);
+
+    const tabAAgain = await getTabSession(createRequest("aa-1111", cookieB));
+    const cookie = await destroyTabSession(tabAAgain!);
+
+    const tabAAfter = await getTabSession(createRequest("aa-1111", cookie));
+    const tabBAfter = await getTabSession(createRequest("bb-2222", cookie));
+
+    expect(tabAAfter?.has("count")).toBe(false);
+    expect(tabAAfter?.has("message")).toBe(false);
+    expect(tabBAfter?.get("count")).toBe(2);
+    expect(tabBAfter?.shared.get("user")).toBe("jane");
+  });
+
+  it("should use a custom key prefix and query parameter", async () => {
+    const { getTabSession } = createTabSessionStorage(createMemorySessionStorage(), { keyPrefix: "t", paramKey: "tab" });
+
+    const tabSession = await getTabSession(new Request("http://localhost:3000/?tab=aa-1111"));
+    tabSession?.set("count", 1);
+
+    expect(tabSession?.tabId).toBe("aa-1111");
+    expect(tabSession?.shared.data).toEqual({ "t:aa-1111:count": 1 });
+  });
+
+  it("should verify signed tab IDs when a secret is configured", async () => {
+    const { getTabSession } = createTabSessionStorage(createMemorySessionStorage(), { secret: "s3cr3t" });
+    const token = await signTabId("aa-1111", { secret: "s3cr3t" });
+
+    expect((await getTabSession(createRequest(token)))?.tabId).toBe("aa-1111");
+    expect(await getTabSession(createRequest("aa-1111"))).toBeUndefined();
+  });
+
+  it("should copy the values of the original tab into a forked tab, once", async () => {
+    const cloneTabData = vi.fn();
+    const forkRoute = createTabForkRoute({ isTabOwner: () => true });
+    const { getTabSession, commitTabSession } = createTabSessionStorage<{ draft: string }, { message: string }>(
+      createMemorySessionStorage(),
+      { cloneTabData, forkRoute },
+    );
+
+    const original = await getTabSession(createRequest("aa-1111"));
+    original?.set("draft", "order #1");
+    original?.flash("message", "saved!");
+    const cookie = await commitTabSession(original!);
+
+    // the original tab forks itself (see `forkTab()`)
+    const forkResponse = await forkRoute.action({
+      request: new Request("http://localhost:3000/tab-fork", {
+        method: "POST",
+        body: new URLSearchParams({ tid: "aa-1111", to: "/" }),
+      }),
+    });
+    const forkToken = new URL(forkResponse.headers.get("Location")!, "http://localhost:3000/").searchParams.get("tfork");
+    const forkTokenCookie = forkResponse.headers.get("Set-Cookie")?.split(";")[0];
+
+    const forkRequest = (tabId: string, forkCookie: string) =>
+      new Request(`http://localhost:3000/?tid=${tabId}&tfork=${forkToken}`, {
+        headers: { Cookie: `${forkCookie}; ${forkTokenCookie}` },
+      });
+
+    const request = forkRequest("bb-2222", cookie);
+    const fork = await getTabSession(request);
+    expect(fork?.get("draft")).toBe("order #1");
+    expect(fork?.has("message")).toBe(false);
+    expect(cloneTabData).toHaveBeenCalledWith("aa-1111", "bb-2222");
+
+    // ie: another loader of the same request
+    expect((await getTabSession(request))?.get("draft")).toBe("order #1");
+    expect(cloneTabData).toHaveBeenCalledTimes(1);
+
+    // the fork then diverges from the original tab
+    fork?.set("draft", "order #2");
+    const forkCookie = await commitTabSession(fork!);
+
+    const forkAgain = await getTabSession(forkRequest("bb-2222", forkCookie));
+    expect(forkAgain?.get("draft")).toBe("order #2");
+    expect(cloneTabData).toHaveBeenCalledTimes(1);
+
+    const originalAgain = await getTabSession(createRequest("aa-1111", forkCookie));
+    expect(originalAgain?.get("draft")).toBe("order #1");
+  });
+
+  it("should copy the values of the original tab again until the forked tab commits them", async () => {
+    const cloneTabData = vi.fn();
+    const forkRoute = createTabForkRoute({ isTabOwner: () => true });
+    const { getTabSession, commitTabSession } = createTabSessionStorage<{ draft: string; step: number }>(
+      createMemorySessionStorage(),
+      { cloneTabData, forkRoute },
+    );
+
+    const original = await getTabSession(createRequest("aa-1111"));
+    original?.set("draft", "order #1");
+    const cookie = await commitTabSession(original!);
+
+    const forkResponse = await forkRoute.action({
+      request: new Request("http://localhost:3000/tab-fork", {
+        method: "POST",
+        body: new URLSearchParams({ tid: "aa-1111", to: "/" }),
+      }),
+    });
+    const forkUrl = new URL(forkResponse.headers.get("Location")!, "http://localhost:3000/");
+    forkUrl.searchParams.set("tid", "bb-2222");
+    const forkTokenCookie = forkResponse.headers.get("Set-Cookie")?.split(";")[0];
+
+    // the loaders of the first request of the new tab don't commit anything
+    const fork = await getTabSession(new Request(forkUrl, { headers: { Cookie: `${cookie}; ${forkTokenCookie}` } }));
+    expect(fork?.get("draft")).toBe("order #1");
+
+    // ie: the next request (the fork token was removed from the URL)
+    const next = await getTabSession(createRequest("bb-2222", cookie));
+    expect(next?.get("draft")).toBe("order #1");
+    expect(cloneTabData).toHaveBeenCalledTimes(1);
+
+    next?.set("step", 2);
+    const forkCookie = await commitTabSession(next!);
+
+    // the original tab's later changes no longer reach the fork
+    const originalAgain = await getTabSession(createRequest("aa-1111", forkCookie));
+    originalAgain?.set("draft", "order #3");
+    const lastCookie = await commitTabSession(originalAgain!);
+
+    const forkAgain = await getTabSession(createRequest("bb-2222", lastCookie));
+    expect(forkAgain?.get("draft")).toBe("order #1");
+    expect(forkAgain?.get("step")).toBe(2);
+  });
+
+  it("should only clone the server-side state of a tab proven to belong to the user", async () => {
+    const cloneTabData = vi.fn();
+    const forkRoute = createTabForkRoute(); // unsigned tab IDs, and no owner check
+    const { getTabSession, commitTabSession } = createTabSessionStorage<{ draft: string }>(createMemorySessionStorage(), {
+      cloneTabData,
+      forkRoute,
+    });
+
+    const original = await getTabSession(createRequest("aa-1111"));
+    original?.set("draft", "order #1");
+    const cookie = await commitTabSession(original!);
+
+    const forkResponse = await forkRoute.action({
+      request: new Request("http://localhost:3000/tab-fork", {
+        method: "POST",
+        body: new URLSearchParams({ tid: "aa-1111", to: "/" }),
+      }),
+    });
+    const forkUrl = new URL(forkResponse.headers.get("Location")!, "http://localhost:3000/");
+    forkUrl.searchParams.set("tid", "bb-2222");
+    const forkTokenCookie = forkResponse.headers.get("Set-Cookie")?.split(";")[0];
+
+    // the values of the user's own session are still copied
+    const fork = await getTabSession(new Request(forkUrl, { headers: { Cookie: `${cookie}; ${forkTokenCookie}` } }));
+    expect(fork?.get("draft")).toBe("order #1");
+    expect(cloneTabData).not.toHaveBeenCalled();
+  });
+
+  it("should not clone anything from an unknown fork token (ie: a tab ID)", async () => {
+    const cloneTabData = vi.fn();
+    const { getTabSession } = createTabSessionStorage(createMemorySessionStorage(), {
+      cloneTabData,
+      forkRoute: createTabForkRoute(),
+    });
+
+    await getTabSession(new Request("http://localhost:3000/?tid=bb-2222&tfork=aa-1111"));
+    expect(cloneTabData).not.toHaveBeenCalled();
+  });
+});
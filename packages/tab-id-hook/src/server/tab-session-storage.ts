@@ -0,0 +1,208 @@
+import type { Session, SessionData, SessionStorage } from "react-router";
+import type { GetSignedTabIdOptions, GetTabIdOptions } from "./get-tab-id";
+import { getTabId } from "./get-tab-id";
+import type { TabForkRoute } from "./tab-fork-route";
+
+/**
+ * Options passed through to `SessionStorage.commitSession()` (ie: cookie serialization options).
+ */
+type CommitOptions = Parameters<SessionStorage["commitSession"]>[1];
+
+/**
+ * Configuration options for `createTabSessionStorage()`.
+ */
+export type TabSessionStorageOptions = (GetTabIdOptions | GetSignedTabIdOptions) & {
+  /**
+   * Called when a forked tab (see `forkTab()`) first presents its tab ID (with its fork token), after its tab-scoped
+   * values were copied from the original tab: the place to clone the rest of the original tab's server-side state.
+   * Only called when the original tab was proven to belong to the user (see the `isTabOwner` option of `createTabForkRoute()`).
+   */
+  cloneTabData?: (fromTabId: string, toTabId: string) => void | Promise<void>;
+  /**
+   * The route issuing the fork tokens of `forkTab()` (see `createTabForkRoute()`). Without it, tabs are never forked.
+   */
+  forkRoute?: Pick<TabForkRoute, "commitTabFork" | "getTabFork">;
+  /**
+   * The prefix used to namespace tab-scoped values in the underlying session.
+   * Values are stored as `{keyPrefix}:{tabId}:{name}`.
+   * @default 'tab'
+   */
+  keyPrefix?: string;
+};
+
+/**
+ * A view of a session that is scoped to a single browser tab.
+ *
+ * Values read and written through `get()`, `set()`, `unset()` and `flash()` are only visible to the tab
+ * that wrote them, while `shared` gives access to the user-level session shared by every tab.
+ */
+export type TabSession<Data = SessionData, FlashData = Data, SharedData = SessionData, SharedFlashData = SharedData> = {
+  /**
+   * The tab ID this session is scoped to.
+   */
+  readonly tabId: string;
+
+  /**
+   * The underlying session, shared by every tab of the user.
+   */
+  readonly shared: Session<SharedData, SharedFlashData>;
+
+  /**
+   * Returns `true` if the tab has a value for the given `name`, `false` otherwise.
+   */
+  has(name: (keyof Data | keyof FlashData) & string): boolean;
+
+  /**
+   * Returns the tab's value for the given `name`.
+   */
+  get<Key extends (keyof Data | keyof FlashData) & string>(
+    name: Key,
+  ): (Key extends keyof Data ? Data[Key] : undefined) | (Key extends keyof FlashData ? FlashData[Key] : undefined) | undefined;
+
+  /**
+   * Sets a value for the given `name`, visible only to this tab.
+   */
+  set<Key extends keyof Data & string>(name: Key, value: Data[Key]): void;
+
+  /**
+   * Sets a value for the given `name` that is only valid until the next `get()` in this tab.
+   */
+  flash<Key extends keyof FlashData & string>(name: Key, value: FlashData[Key]): void;
+
+  /**
+   * Removes the tab's value for the given `name`.
+   */
+  unset(name: keyof Data & string): void;
+};
+
+/**
+ * Wraps a React Router `SessionStorage` to provide tab-scoped sessions.
+ */
+export type TabSessionStorage<Data = SessionData, FlashData = Data, SharedData = SessionData, SharedFlashData = SharedData> = {
+  /**
+   * Reads the session from the request's `Cookie` header and scopes it to the request's tab ID.
+   *
+   * @returns The tab session, or `undefined` if the request does not carry a tab ID.
+   */
+  getTabSession(request: Request): Promise<TabSession<Data, FlashData, SharedData, SharedFlashData> | undefined>;
+
+  /**
+   * Stores all data in the session (tab-scoped and shared) and returns the `Set-Cookie` header to be used in the response.
+   * The values copied into a forked tab are only saved from then on (until then, each request of the tab copies them again).
+   */
+  commitTabSession(
+    tabSession: TabSession<Data, FlashData, SharedData, SharedFlashData>,
+    options?: CommitOptions,
+  ): Promise<string>;
+
+  /**
+   * Removes every value belonging to the tab (leaving the shared and other tabs' values untouched)
+   * and returns the `Set-Cookie` header to be used in the response.
+   */
+  destroyTabSession(
+    tabSession: TabSession<Data, FlashData, SharedData, SharedFlashData>,
+    options?: CommitOptions,
+  ): Promise<string>;
+};
+
+/**
+ * Creates a tab-scoped session storage on top of any React Router `SessionStorage` (cookie, memory, file, etc.).
+ *
+ * Every value written through a tab session is automatically namespaced with the request's tab ID,
+ * so tabs can no longer overwrite each other's data.
+ *
+ * A tab forked from another one (see `forkTab()` and the `forkRoute` option) starts with a copy of the other tab's values
+ * (flash values aside), as long as it has no values of its own yet: every request of the new tab gets the copy,
+ * until its tab session is committed.
+ *
+ * @param sessionStorage The session storage holding the user's session.
+ * @param options Configuration options.
+ * @returns The tab session storage.
+ */
+export function createTabSessionStorage<
+  Data = SessionData,
+  FlashData = Data,
+  SharedData = SessionData,
+  SharedFlashData = SharedData,
+>(
+  sessionStorage: SessionStorage<SharedData, SharedFlashData>,
+  options?: TabSessionStorageOptions,
+): TabSessionStorage<Data, FlashData, SharedData, SharedFlashData> {
+  const { cloneTabData, forkRoute, keyPrefix = "tab", ...getTabIdOptions } = options ?? {};
+
+  // the requests whose tab data was cloned (a request's fork token is seen by each of its loaders)
+  const clonedRequests = new WeakSet<Request>();
+
+  // maps a tab-scoped name to its key in the shared session
+  const toKey = (tabId: string, name: string) => `${keyPrefix}:${tabId}:${name}`;
+
+  // the session is manipulated as an untyped session since tab-scoped keys are generated at runtime
+  const toUntypedSession = (session: Session<SharedData, SharedFlashData>) => session as unknown as Session;
+
+  // lists the keys of a tab's values, and whether they hold flash values
+  const getTabKeys = (session: Session, tabId: string) => {
+    const prefix = toKey(tabId, "");
+
+    return Object.keys(session.data).flatMap((key) => {
+      // flash values are stored by React Router as `__flash_{name}__`
+      const name = key.replace(/^__flash_(.*)__$/, "$1");
+      return name.startsWith(prefix) ? [{ key, name: name.slice(prefix.length), isFlash: name !== key }] : [];
+    });
+  };
+
+  return {
+    async getTabSession(request) {
+      const tabId = await getTabId(request, getTabIdOptions);
+
+      if (tabId === undefined) {
+        return undefined;
+      }
+
+      const shared = await sessionStorage.getSession(request.headers.get("Cookie"));
+      const session = toUntypedSession(shared);
+      const fork = forkRoute?.getTabFork(request, tabId);
+
+      // a forked tab starts with a copy of the original tab's values (but only once: until it has values of its own)
+      if (fork !== undefined && fork.fromTabId !== tabId && getTabKeys(session, tabId).length === 0) {
+        for (const { key, name, isFlash } of getTabKeys(session, fork.fromTabId)) {
+          if (!isFlash) {
+            session.set(toKey(tabId, name), session.get(key));
+          }
+        }
+
+        if (fork.isNew && fork.isVerified && !clonedRequests.has(request)) {
+          clonedRequests.add(request);
+          await cloneTabData?.(fork.fromTabId, tabId);
+        }
+      }
+
+      return {
+        tabId,
+        shared,
+        has: (name) => session.has(toKey(tabId, name)),
+        get: (name) => session.get(toKey(tabId, name)),
+        set: (name, value) => session.set(toKey(tabId, name), value),
+        flash: (name, value) => session.flash(toKey(tabId, name), value),
+        unset: (name) => session.unset(toKey(tabId, name)),
+      };
+    },
+
+    async commitTabSession(tabSession, options) {
+      const cookie = await sessionStorage.commitSession(tabSession.shared, options);
+      forkRoute?.commitTabFork(tabSession.tabId);
+      return cookie;
+    },
+
+    async destroyTabSession(tabSession, options) {
+      const session = toUntypedSession(tabSession.shared);
+
+      for (const { key } of getTabKeys(session, tabSession.tabId)) {
+        session.unset(key);
+      }
+
+      const cookie = await sessionStorage.commitSession(tabSession.shared, options);
+      forkRoute?.commitTabFork(tabSession.tabId);
+      return cookie;
+    },
+  };
+}
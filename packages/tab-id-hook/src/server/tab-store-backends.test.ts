@@ -0,0 +1,114 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { TabStoreBackend } from "./tab-store";
+import { createFileTabStoreBackend, createMemoryTabStoreBackend, createSqliteTabStoreBackend } from "./tab-store-backends";
+
+type Data = { count: number };
+
+/**
+ * The behavior shared by every backend.
+ */
+function describeBackend(createBackend: () => TabStoreBackend<Data>) {
+  it("should store, list and delete entries", async () => {
+    const backend = createBackend();
+
+    await expect(backend.get("ab-1234")).resolves.toBeUndefined();
+
+    await backend.set("ab-1234", { value: { count: 1 }, expiresAt: 2000, accessedAt: 1000 });
+    await backend.set("cd/5678", { value: { count: 2 }, expiresAt: 4000, accessedAt: 3000 });
+    await backend.set("ab-1234", { value: { count: 3 }, expiresAt: 6000, accessedAt: 5000 });
+
+    await expect(backend.get("ab-1234")).resolves.toEqual({ value: { count: 3 }, expiresAt: 6000, accessedAt: 5000 });
+    await expect(backend.list()).resolves.toEqual(
+      expect.arrayContaining([
+        { tabId: "ab-1234", expiresAt: 6000, accessedAt: 5000 },
+        { tabId: "cd/5678", expiresAt: 4000, accessedAt: 3000 },
+      ]),
+    );
+
+    await backend.delete("ab-1234");
+    await backend.delete("ef-9012"); // no entry
+
+    await expect(backend.get("ab-1234")).resolves.toBeUndefined();
+    await expect(backend.list()).resolves.toEqual([{ tabId: "cd/5678", expiresAt: 4000, accessedAt: 3000 }]);
+  });
+
+  it("should copy values", async () => {
+    const backend = createBackend();
+    const value = { count: 1 };
+
+    await backend.set("ab-1234", { value, expiresAt: 2000, accessedAt: 1000 });
+    value.count = 2;
+
+    await expect(backend.get("ab-1234")).resolves.toMatchObject({ value: { count: 1 } });
+  });
+
+  it("should evict the least recently used entries (if it evicts entries)", async () => {
+    const backend = createBackend();
+
+    await backend.set("ab-1234", { value: { count: 1 }, expiresAt: 2000, accessedAt: 1000 });
+    await backend.set("cd-5678", { value: { count: 1 }, expiresAt: 3000, accessedAt: 2000 });
+    await backend.set("ef-9012", { value: { count: 1 }, expiresAt: 4000, accessedAt: 3000 });
+    await backend.evict?.(2);
+
+    const tabIds = (await backend.list()).map(({ tabId }) => tabId).sort();
+    expect(tabIds).toEqual(backend.evict ? ["cd-5678", "ef-9012"] : ["ab-1234", "cd-5678", "ef-9012"]);
+  });
+}
+
+describe("tab-store-backends", () => {
+  describe("createMemoryTabStoreBackend()", () => {
+    describeBackend(() => createMemoryTabStoreBackend());
+  });
+
+  describe("createFileTabStoreBackend()", () => {
+    let directory: string;
+
+    beforeEach(async () => {
+      directory = join(await mkdtemp(join(tmpdir(), "tab-store-")), "entries");
+    });
+
+    afterEach(async () => {
+      await rm(join(directory, ".."), { recursive: true, force: true });
+    });
+
+    describeBackend(() => createFileTabStoreBackend({ directory }));
+
+    it("should keep every entry inside the directory", async () => {
+      const backend = createFileTabStoreBackend<Data>({ directory });
+      await backend.set("../../escape", { value: { count: 1 }, expiresAt: 2000, accessedAt: 1000 });
+
+      await expect(readdir(directory)).resolves.toEqual([expect.stringMatching(/^[0-9a-f]{64}\.json$/)]);
+    });
+
+    it("should list the entries of any tab ID", async () => {
+      const backend = createFileTabStoreBackend<Data>({ directory });
+      const tabIds = [".hidden", "..", "x".repeat(1000)];
+
+      for (const tabId of tabIds) {
+        await backend.set(tabId, { value: { count: 1 }, expiresAt: 2000, accessedAt: 1000 });
+      }
+
+      const listed = (await backend.list()).map(({ tabId }) => tabId);
+      expect(listed.sort()).toEqual(tabIds.sort());
+      await expect(backend.get(".hidden")).resolves.toEqual({ value: { count: 1 }, expiresAt: 2000, accessedAt: 1000 });
+    });
+
+    it("should list no entries before the directory exists", async () => {
+      await expect(createFileTabStoreBackend<Data>({ directory }).list()).resolves.toEqual([]);
+    });
+  });
+
+  // node:sqlite is only available in recent versions of node
+  describe.runIf(process.getBuiltinModule("node:sqlite"))("createSqliteTabStoreBackend()", () => {
+    const createDatabase = () => new (process.getBuiltinModule("node:sqlite").DatabaseSync)(":memory:");
+
+    describeBackend(() => createSqliteTabStoreBackend(createDatabase()));
+
+    it("should reject invalid table names", () => {
+      expect(() => createSqliteTabStoreBackend(createDatabase(), { table: "entries; DROP TABLE users" })).toThrowError();
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import type { TabStoreBackend, TabStoreEntry } from "./tab-store";
+
+/**
+ * Configuration options for `createFileTabStoreBackend()`.
+ */
+export type FileTabStoreBackendOptions = {
+  /**
+   * The directory holding the entries (one JSON file per tab). It is created if it doesn't exist.
+   */
+  directory: string;
+};
+
+/**
+ * Configuration options for `createSqliteTabStoreBackend()`.
+ */
+export type SqliteTabStoreBackendOptions = {
+  /**
+   * The table holding the entries. It is created if it doesn't exist.
+   * @default 'tab_store'
+   */
+  table?: string;
+};
+
+/**
+ * The subset of a synchronous SQLite database used by `createSqliteTabStoreBackend()`,
+ * implemented by both `node:sqlite`'s `DatabaseSync` and `better-sqlite3`.
+ */
+export type SqliteDatabase = {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...params: unknown[]): unknown;
+    get(...params: unknown[]): unknown;
+    all(...params: unknown[]): unknown[];
+  };
+};
+
+/**
+ * The content of a file of the file backend.
+ */
+type FileEntry<T> = TabStoreEntry<T> & { tabId: string };
+
+/**
+ * A row of the SQLite table.
+ */
+type SqliteRow = {
+  tab_id: string;
+  value: string;
+  expires_at: number;
+  accessed_at: number;
+};
+
+/**
+ * Creates a backend that keeps the entries in memory. Entries are lost when the server restarts,
+ * and are not shared between server instances.
+ *
+ * Values are copied (with `structuredClone()`) when read and written, like they are by the other backends.
+ * Entries are kept in the order they were last written, so that evicting the least recently used ones is cheap.
+ */
+export function createMemoryTabStoreBackend<T>(): TabStoreBackend<T> {
+  const entries = new Map<string, TabStoreEntry<T>>();
+
+  return {
+    get: async (tabId) => {
+      const entry = entries.get(tabId);
+      return entry && structuredClone(entry);
+    },
+    set: async (tabId, entry) => {
+      entries.delete(tabId); // move the entry to the end (the most recently used)
+      entries.set(tabId, structuredClone(entry));
+    },
+    delete: async (tabId) => {
+      entries.delete(tabId);
+    },
+    list: async () => Array.from(entries, ([tabId, { expiresAt, accessedAt }]) => ({ tabId, expiresAt, accessedAt })),
+    evict: async (maxEntries) => {
+      for (const tabId of entries.keys()) {
+        if (entries.size <= maxEntries) {
+          break;
+        }
+
+        entries.delete(tabId); // the least recently used first
+      }
+    },
+  };
+}
+
+/**
+ * Creates a backend that keeps the entries on the filesystem, one JSON file per tab.
+ * Values must be JSON-serializable. Suited to single-server deployments with a modest number of tabs.
+ *
+ * @param options Configuration options.
+ */
+export function createFileTabStoreBackend<T>(options: FileTabStoreBackendOptions): TabStoreBackend<T> {
+  const { directory } = options;
+
+  // loaded lazily (rather than imported) so that client bundles never pull in node built-ins
+  const fs = () => process.getBuiltinModule("node:fs/promises");
+  const path = (fileName: string) => process.getBuiltinModule("node:path").join(directory, fileName);
+
+  // files are named after a hash of the tab ID (kept in the file), so that any tab ID (ie: `../x`, `.x` or a very long one)
+  // maps to a file name of the same length, inside the directory
+  const toFileName = (tabId: string) =>
+    `${process.getBuiltinModule("node:crypto").createHash("sha256").update(tabId).digest("hex")}.json`;
+
+  const readEntry = async (fileName: string): Promise<FileEntry<T> | undefined> => {
+    try {
+      return JSON.parse(await fs().readFile(path(fileName), "utf-8")) as FileEntry<T>;
+    } catch {
+      return undefined; // deleted in the meantime (or not an entry)
+    }
+  };
+
+  let directoryCreated: Promise<unknown> | undefined;
+
+  return {
+    get: async (tabId) => {
+      const entry = await readEntry(toFileName(tabId));
+      return entry?.tabId === tabId
+        ? { value: entry.value, expiresAt: entry.expiresAt, accessedAt: entry.accessedAt }
+        : undefined;
+    },
+    set: async (tabId, entry) => {
+      directoryCreated ??= fs().mkdir(directory, { recursive: true });
+      await directoryCreated;
+
+      // write to a temporary file first, so that readers never see a partially written entry
+      const temporaryFile = path(`.${toFileName(tabId)}.${crypto.randomUUID()}.tmp`);
+      await fs().writeFile(temporaryFile, JSON.stringify({ ...entry, tabId } satisfies FileEntry<T>), "utf-8");
+      await fs().rename(temporaryFile, path(toFileName(tabId)));
+    },
+    delete: async (tabId) => {
+      await fs().rm(path(toFileName(tabId)), { force: true });
+    },
+    list: async () => {
+      const fileNames = await fs()
+        .readdir(directory)
+        .catch(() => []);
+
+      const entries = await Promise.all(
+        fileNames
+          .filter((fileName) => fileName.endsWith(".json") && !fileName.startsWith("."))
+          .map(async (fileName) => {
+            const entry = await readEntry(fileName);
+            return entry && { tabId: entry.tabId, expiresAt: entry.expiresAt, accessedAt: entry.accessedAt };
+          }),
+      );
+
+      return entries.filter((entry) => entry !== undefined);
+    },
+  };
+}
+
+/**
+ * Creates a backend that keeps the entries in a SQLite table. Values must be JSON-serializable.
+ *
+ * Accepts any synchronous SQLite database, ie: `new DatabaseSync(file)` from `node:sqlite`,
+ * or `new Database(file)` from `better-sqlite3`.
+ *
+ * @param database The database.
+ * @param options Configuration options.
+ */
+export function createSqliteTabStoreBackend<T>(
+  database: SqliteDatabase,
+  options?: SqliteTabStoreBackendOptions,
+): TabStoreBackend<T> {
+  const { table = "tab_store" } = options ?? {};
+
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(table)) {
+    throw new Error(`Invalid table name: ${table}`);
+  }
+
+  database.exec(
+    `CREATE TABLE IF NOT EXISTS ${table} (` +
+      "tab_id TEXT PRIMARY KEY, value TEXT NOT NULL, expires_at INTEGER NOT NULL, accessed_at INTEGER NOT NULL)",
+  );
+  database.exec(`CREATE INDEX IF NOT EXISTS ${table}_accessed_at ON ${table} (accessed_at)`);
+
+  const selectStatement = database.prepare(`SELECT * FROM ${table} WHERE tab_id = ?`);
+  const listStatement = database.prepare(`SELECT tab_id, expires_at, accessed_at FROM ${table}`);
+  const deleteStatement = database.prepare(`DELETE FROM ${table} WHERE tab_id = ?`);
+  const countStatement = database.prepare(`SELECT COUNT(*) AS count FROM ${table}`);
+  const evictStatement = database.prepare(
+    `DELETE FROM ${table} WHERE tab_id IN (SELECT tab_id FROM ${table} ORDER BY accessed_at LIMIT ?)`,
+  );
+  const upsertStatement = database.prepare(
+    `INSERT INTO ${table} (tab_id, value, expires_at, accessed_at) VALUES (?, ?, ?, ?) ` +
+      "ON CONFLICT (tab_id) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at, accessed_at = excluded.accessed_at",
+  );
+
+  return {
+    get: async (tabId) => {
+      const row = selectStatement.get(tabId) as SqliteRow | undefined;
+      return row && { value: JSON.parse(row.value) as T, expiresAt: row.expires_at, accessedAt: row.accessed_at };
+    },
+    set: async (tabId, { value, expiresAt, accessedAt }) => {
+      upsertStatement.run(tabId, JSON.stringify(value), expiresAt, accessedAt);
+    },
+    delete: async (tabId) => {
+      deleteStatement.run(tabId);
+    },
+    list: async () => {
+      const rows = listStatement.all() as Array<Omit<SqliteRow, "value">>;
+      return rows.map((row) => ({ tabId: row.tab_id, expiresAt: row.expires_at, accessedAt: row.accessed_at }));
+    },
+    evict: async (maxEntries) => {
+      const { count } = countStatement.get() as { count: number };
+
+      if (count > maxEntries) {
+        evictStatement.run(count - maxEntries);
+      }
+    },
+  };
+}
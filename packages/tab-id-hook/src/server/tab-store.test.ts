@@ -0,0 +1,145 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { signTabId } from "./signed-tab-id";
+import { createTabStore } from "./tab-store";
+import { createMemoryTabStoreBackend } from "./tab-store-backends";
+
+describe("tab-store", () => {
+  type Data = { count: number };
+
+  const increment = (current?: Data): Data => ({ count: (current?.count ?? 0) + 1 });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe("createTabStore()", () => {
+    it("should hold one value per tab", async () => {
+      const store = createTabStore<Data>();
+
+      await expect(store.get("ab-1234")).resolves.toBeUndefined();
+      await expect(store.update("ab-1234", increment)).resolves.toEqual({ count: 1 });
+      await expect(store.update("ab-1234", increment)).resolves.toEqual({ count: 2 });
+      await expect(store.update("cd-5678", increment)).resolves.toEqual({ count: 1 });
+
+      await expect(store.get("ab-1234")).resolves.toEqual({ count: 2 });
+
+      await store.delete("ab-1234");
+      await expect(store.get("ab-1234")).resolves.toBeUndefined();
+      await expect(store.get("cd-5678")).resolves.toEqual({ count: 1 });
+    });
+
+    it("should read the tab ID from requests", async () => {
+      const store = createTabStore<Data>();
+
+      await store.update(new Request("http://localhost:3000/?tid=ab-1234"), increment);
+      await expect(store.get("ab-1234")).resolves.toEqual({ count: 1 });
+
+      await expect(store.get(new Request("http://localhost:3000/"))).resolves.toBeUndefined();
+      await expect(store.update(new Request("http://localhost:3000/"), increment)).resolves.toBeUndefined();
+    });
+
+    it("should verify signed tab IDs", async () => {
+      const store = createTabStore<Data>({ secret: "s3cr3t" });
+      const token = await signTabId("ab-1234", { secret: "s3cr3t" });
+
+      await store.update(new Request(`http://localhost:3000/?tid=${token}`), increment);
+      await expect(store.get("ab-1234")).resolves.toEqual({ count: 1 });
+      await expect(store.get(new Request("http://localhost:3000/?tid=ab-1234"))).resolves.toBeUndefined();
+    });
+
+    it("should expire entries that are not used", async () => {
+      const store = createTabStore<Data>({ ttl: 1000 });
+      await store.update("ab-1234", increment);
+
+      vi.advanceTimersByTime(999);
+      await expect(store.get("ab-1234")).resolves.toEqual({ count: 1 }); // extends the expiry
+
+      vi.advanceTimersByTime(999);
+      await expect(store.get("ab-1234")).resolves.toEqual({ count: 1 });
+
+      vi.advanceTimersByTime(1000);
+      await expect(store.get("ab-1234")).resolves.toBeUndefined();
+    });
+
+    it("should evict the least recently used entries", async () => {
+      const store = createTabStore<Data>({ maxEntries: 2, ttl: 1000 });
+
+      await store.update("ab-1234", increment);
+      vi.advanceTimersByTime(100);
+      await store.update("cd-5678", increment);
+      vi.advanceTimersByTime(100);
+      await store.get("ab-1234");
+      vi.advanceTimersByTime(100);
+      await store.update("ef-9012", increment);
+
+      await expect(store.get("ab-1234")).resolves.toEqual({ count: 1 });
+      await expect(store.get("cd-5678")).resolves.toBeUndefined();
+      await expect(store.get("ef-9012")).resolves.toEqual({ count: 1 });
+    });
+
+    it("should evict the least recently used entries of a backend that doesn't evict them", async () => {
+      const { evict: _evict, ...backend } = createMemoryTabStoreBackend<Data>(); // a backend without evict()
+      const store = createTabStore<Data>({ backend, maxEntries: 1 });
+
+      await store.update("ab-1234", increment);
+      vi.advanceTimersByTime(1);
+      await store.update("cd-5678", increment);
+
+      await expect(backend.list()).resolves.toEqual([expect.objectContaining({ tabId: "cd-5678" })]);
+    });
+
+    it("should only slide the expiry once every tenth of the ttl when reading", async () => {
+      const backend = createMemoryTabStoreBackend<Data>();
+      const set = vi.spyOn(backend, "set");
+      const store = createTabStore<Data>({ backend, ttl: 1000 });
+
+      await store.update("ab-1234", increment);
+      vi.advanceTimersByTime(50);
+      await store.get("ab-1234");
+      expect(set).toHaveBeenCalledOnce();
+
+      vi.advanceTimersByTime(50);
+      await store.get("ab-1234");
+      expect(set).toHaveBeenCalledTimes(2);
+    });
+
+    it("should apply concurrent updates of a tab one after the other", async () => {
+      const store = createTabStore<Data>();
+
+      await Promise.all([
+        store.update("ab-1234", increment),
+        store.update("ab-1234", increment),
+        store.update("ab-1234", increment),
+      ]);
+
+      await expect(store.get("ab-1234")).resolves.toEqual({ count: 3 });
+    });
+
+    it("should keep applying the updates of a tab after one fails", async () => {
+      const store = createTabStore<Data>();
+      const fail = () => {
+        throw new Error("invalid cart");
+      };
+
+      await expect(store.update("ab-1234", fail)).rejects.toThrow("invalid cart");
+      await expect(store.update("ab-1234", increment)).resolves.toEqual({ count: 1 });
+    });
+
+    it("should sweep expired entries", async () => {
+      const backend = createMemoryTabStoreBackend<Data>();
+      const store = createTabStore<Data>({ backend, ttl: 1000 });
+
+      await store.update("ab-1234", increment);
+      vi.advanceTimersByTime(500);
+      await store.update("cd-5678", increment);
+      vi.advanceTimersByTime(500);
+
+      await expect(store.sweep()).resolves.toBe(1);
+      await expect(backend.list()).resolves.toEqual([expect.objectContaining({ tabId: "cd-5678" })]);
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import type { GetSignedTabIdOptions, GetTabIdOptions } from "./get-tab-id";
+import { getTabId } from "./get-tab-id";
+import { createMemoryTabStoreBackend } from "./tab-store-backends";
+
+/**
+ * A value held by a tab store, along with its expiry metadata.
+ */
+export type TabStoreEntry<T> = {
+  /**
+   * The stored value.
+   */
+  value: T;
+  /**
+   * When the entry expires (in milliseconds since the epoch).
+   */
+  expiresAt: number;
+  /**
+   * When the entry was last read or written (in milliseconds since the epoch), used for LRU eviction.
+   */
+  accessedAt: number;
+};
+
+/**
+ * The storage behind a tab store (ie: memory, filesystem or SQLite).
+ * Backends store entries as-is; expiry and eviction are handled by the store.
+ */
+export type TabStoreBackend<T> = {
+  /**
+   * Returns the entry of a tab, or `undefined` if there is none.
+   */
+  get(tabId: string): Promise<TabStoreEntry<T> | undefined>;
+  /**
+   * Creates or replaces the entry of a tab.
+   */
+  set(tabId: string, entry: TabStoreEntry<T>): Promise<void>;
+  /**
+   * Deletes the entry of a tab (if any).
+   */
+  delete(tabId: string): Promise<void>;
+  /**
+   * Lists the expiry metadata of every entry.
+   */
+  list(): Promise<Array<{ tabId: string } & Omit<TabStoreEntry<T>, "value">>>;
+  /**
+   * Deletes the least recently used entries, so that at most `maxEntries` remain.
+   * Optional: without it, the store lists (and sorts) every entry whenever an entry is created.
+   */
+  evict?(maxEntries: number): Promise<void>;
+};
+
+/**
+ * Configuration options for `createTabStore()`.
+ */
+export type TabStoreOptions<T> = (GetTabIdOptions | GetSignedTabIdOptions) & {
+  /**
+   * Where the entries are stored.
+   * @default createMemoryTabStoreBackend()
+   */
+  backend?: TabStoreBackend<T>;
+  /**
+   * The maximum number of entries. When exceeded, the least recently used entries are evicted.
+   * @default 10000
+   */
+  maxEntries?: number;
+  /**
+   * How long (in milliseconds) an entry lives without being read or written (sliding expiry).
+   * @default 1800000 (30 minutes)
+   */
+  ttl?: number;
+};
+
+/**
+ * A server-side store holding one value per browser tab.
+ *
+ * Every method accepts either a request (the tab ID is read with `getTabId()`) or a tab ID.
+ * Reading or writing an entry extends its lifetime (sliding expiry): reads only rewrite the entry once every tenth
+ * of the `ttl` (so expiry and LRU eviction are precise to within a tenth of the `ttl`).
+ */
+export type TabStore<T> = {
+  /**
+   * Returns the tab's value, or `undefined` if there is none (or the request carries no tab ID).
+   */
+  get(tabIdOrRequest: string | Request): Promise<T | undefined>;
+  /**
+   * Replaces the tab's value with the result of `updater` (called with the current value, if any).
+   * The updates of a tab are applied one after the other (within a server instance), so none of them is lost.
+   *
+   * @returns The new value, or `undefined` if the request carries no tab ID.
+   */
+  update(tabId: string, updater: (current: T | undefined) => T): Promise<T>;
+  update(tabIdOrRequest: string | Request, updater: (current: T | undefined) => T): Promise<T | undefined>;
+  /**
+   * Deletes the tab's value (ie: when the tab is closed).
+   */
+  delete(tabIdOrRequest: string | Request): Promise<void>;
+  /**
+   * Deletes every expired entry. Expired entries are never returned, but are only removed when read or swept,
+   * so call this function periodically (ie: from a `setInterval()` or a scheduled job).
+   *
+   * @returns The number of deleted entries.
+   */
+  sweep(): Promise<number>;
+};
+
+/**
+ * The default time (in milliseconds) an entry lives without being read or written.
+ */
+const DEFAULT_TTL = 30 * 60 * 1000;
+
+/**
+ * The default maximum number of entries.
+ */
+const DEFAULT_MAX_ENTRIES = 10_000;
+
+/**
+ * Creates a server-side store holding one value per browser tab, with sliding expiry and LRU eviction.
+ *
+ * Browsers don't tell the server when a tab is closed, so a plain `Map` keyed by tab ID grows forever;
+ * entries of a tab store expire once the tab stops using them.
+ *
+ * @param options Configuration options.
+ * @returns The tab store.
+ */
+export function createTabStore<T>(options?: TabStoreOptions<T>): TabStore<T> {
+  const {
+    backend = createMemoryTabStoreBackend<T>(),
+    maxEntries = DEFAULT_MAX_ENTRIES,
+    ttl = DEFAULT_TTL,
+    ...getTabIdOptions
+  } = options ?? {};
+
+  const resolveTabId = async (tabIdOrRequest: string | Request): Promise<string | undefined> => {
+    return typeof tabIdOrRequest === "string" ? tabIdOrRequest : await getTabId(tabIdOrRequest, getTabIdOptions);
+  };
+
+  // reads slide the expiry at most once every tenth of the ttl, rather than rewriting the entry every time
+  const touchInterval = ttl / 10;
+
+  // the updates in progress, by tab ID
+  const pendingUpdates = new Map<string, Promise<unknown>>();
+
+  const write = async (tabId: string, value: T): Promise<void> => {
+    const now = Date.now();
+    await backend.set(tabId, { value, expiresAt: now + ttl, accessedAt: now });
+  };
+
+  /**
+   * Returns the entry of a tab, unless it expired (expired entries are deleted).
+   */
+  const load = async (tabId: string): Promise<TabStoreEntry<T> | undefined> => {
+    const entry = await backend.get(tabId);
+
+    if (entry !== undefined && entry.expiresAt <= Date.now()) {
+      await backend.delete(tabId);
+      return undefined;
+    }
+
+    return entry;
+  };
+
+  const read = async (tabId: string): Promise<T | undefined> => {
+    const entry = await load(tabId);
+
+    if (entry !== undefined && Date.now() - entry.accessedAt >= touchInterval) {
+      await write(tabId, entry.value); // slide the expiry
+    }
+
+    return entry?.value;
+  };
+
+  const evict = async (): Promise<void> => {
+    if (backend.evict !== undefined) {
+      await backend.evict(maxEntries);
+      return;
+    }
+
+    const entries = await backend.list();
+
+    if (entries.length <= maxEntries) {
+      return;
+    }
+
+    const leastRecentlyUsed = entries.sort((a, b) => a.accessedAt - b.accessedAt).slice(0, entries.length - maxEntries);
+    await Promise.all(leastRecentlyUsed.map(({ tabId }) => backend.delete(tabId)));
+  };
+
+  /**
+   * Runs the update of a tab once its previous updates are done (so that concurrent updates don't overwrite each other).
+   */
+  const serialize = <R>(tabId: string, task: () => Promise<R>): Promise<R> => {
+    const result = (pendingUpdates.get(tabId) ?? Promise.resolve()).then(task);
+    const settled = result.catch(() => {}); // a failed update doesn't prevent the next ones
+
+    pendingUpdates.set(tabId, settled);
+    void settled.then(() => {
+      if (pendingUpdates.get(tabId) === settled) {
+        pendingUpdates.delete(tabId); // the last update of the tab
+      }
+    });
+
+    return result;
+  };
+
+  function update(tabId: string, updater: (current: T | undefined) => T): Promise<T>;
+  function update(tabIdOrRequest: string | Request, updater: (current: T | undefined) => T): Promise<T | undefined>;
+  async function update(tabIdOrRequest: string | Request, updater: (current: T | undefined) => T): Promise<T | undefined> {
+    const tabId = await resolveTabId(tabIdOrRequest);
+
+    if (tabId === undefined) {
+      return undefined;
+    }
+
+    return await serialize(tabId, async () => {
+      const current = await load(tabId);
+      const value = updater(current?.value);
+      await write(tabId, value);
+
+      if (current === undefined) {
+        await evict(); // only new entries can exceed the limit
+      }
+
+      return value;
+    });
+  }
+
+  return {
+    get: async (tabIdOrRequest) => {
+      const tabId = await resolveTabId(tabIdOrRequest);
+      return tabId === undefined ? undefined : await read(tabId);
+    },
+
+    update,
+
+    delete: async (tabIdOrRequest) => {
+      const tabId = await resolveTabId(tabIdOrRequest);
+
+      if (tabId !== undefined) {
+        await backend.delete(tabId);
+      }
+    },
+
+    sweep: async () => {
+      const now = Date.now();
+      const expired = (await backend.list()).filter(({ expiresAt }) => expiresAt <= now);
+
+      await Promise.all(expired.map(({ tabId }) => backend.delete(tabId)));
+      return expired.length;
+    },
+  };
+}
@@ -0,0 +1,37 @@
+import type { RouteObject } from "react-router";
+import { describe, expect, it } from "vitest";
+import { defineTabIdConfig } from "./config";
+import { tabIdRoutes } from "./tab-id-routes";
+
+describe("tab-id-routes", () => {
+  describe("tabIdRoutes()", () => {
+    it("should prefix the routes with the tab ID segment", () => {
+      const routes: RouteObject[] = [
+        { index: true },
+        { path: "orders", children: [{ path: ":orderId" }] },
+        { path: "/invoices/" },
+      ];
+
+      expect(tabIdRoutes(routes)).toEqual([
+        { index: true, path: "t/:tabId" },
+        { path: "t/:tabId/orders", children: [{ path: ":orderId" }] },
+        { path: "t/:tabId/invoices" },
+      ]);
+    });
+
+    it("should prefix the children of pathless layout routes", () => {
+      const routes: RouteObject[] = [{ id: "layout", children: [{ index: true }, { path: "orders" }] }];
+
+      expect(tabIdRoutes(routes)).toEqual([
+        { id: "layout", children: [{ index: true, path: "t/:tabId" }, { path: "t/:tabId/orders" }] },
+      ]);
+    });
+
+    it("should use a custom path prefix", () => {
+      expect(tabIdRoutes([{ path: "orders" }], { pathPrefix: "tab" })).toEqual([{ path: "tab/:tabId/orders" }]);
+      expect(tabIdRoutes([{ path: "orders" }], { config: defineTabIdConfig({ pathPrefix: "tab" }) })).toEqual([
+        { path: "tab/:tabId/orders" },
+      ]);
+    });
+  });
+});
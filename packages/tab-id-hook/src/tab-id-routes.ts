@@ -0,0 +1,55 @@
+import type { TabIdConfig } from "./config";
+import { PATH_PREFIX } from "./defaults";
+
+/**
+ * The part of a route definition `tabIdRoutes()` needs, shared by React Router's route objects
+ * (`createBrowserRouter()`) and route config entries (`app/routes.ts`).
+ */
+export type TabIdRoute<T> = {
+  path?: string;
+  index?: boolean;
+  children?: T[];
+};
+
+/**
+ * Configuration options for `tabIdRoutes()`.
+ */
+export type TabIdRoutesOptions = {
+  /**
+   * The tab ID configuration shared with the client (see `defineTabIdConfig()`), providing the default of `pathPrefix`.
+   */
+  config?: TabIdConfig;
+  /**
+   * The route segment preceding the tab ID.
+   * @default 't'
+   */
+  pathPrefix?: string;
+};
+
+/**
+ * Prefixes routes with the tab ID segment of the `path-segment` transport (ie: `orders` becomes `t/:tabId/orders`),
+ * the tab ID being available as the `tabId` route param.
+ *
+ * Pathless layout routes are kept as-is, and their children are prefixed instead.
+ *
+ * @example
+ * // app/routes.ts
+ * export default [...tabIdRoutes([index('routes/home.tsx'), route('orders', 'routes/orders.tsx')], { config: tabIdConfig })];
+ *
+ * @param routes The routes to prefix.
+ * @param options Configuration options.
+ * @returns The prefixed routes.
+ */
+export function tabIdRoutes<T extends TabIdRoute<T>>(routes: T[], options?: TabIdRoutesOptions): T[] {
+  const { config, pathPrefix = config?.pathPrefix ?? PATH_PREFIX } = options ?? {};
+  const segment = `${pathPrefix}/:tabId`;
+
+  return routes.map((route) => {
+    if (route.index === true || typeof route.path === "string") {
+      const path = route.path?.replace(/^\/+|\/+$/g, "");
+      return { ...route, path: path ? `${segment}/${path}` : segment };
+    }
+
+    return { ...route, children: route.children && tabIdRoutes(route.children, { pathPrefix }) };
+  });
+}
@@ -0,0 +1,3 @@
+export * from "./testing/seeded-generator";
+export * from "./testing/tab-environment";
+export * from "./testing/tab-request";
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { createSeededGenerator } from "./seeded-generator";
+
+describe("seeded-generator", () => {
+  describe("createSeededGenerator()", () => {
+    it("should generate the same sequence of IDs for the same seed", () => {
+      const first = createSeededGenerator(42);
+      const second = createSeededGenerator(42);
+
+      const ids = [first.generate(), first.generate(), first.generate()];
+
+      expect([second.generate(), second.generate(), second.generate()]).toEqual(ids);
+      expect(new Set(ids).size).toBe(3);
+    });
+
+    it("should generate different IDs for different seeds", () => {
+      expect(createSeededGenerator(1).generate()).not.toBe(createSeededGenerator(2).generate());
+    });
+
+    it("should generate short IDs", () => {
+      const generator = createSeededGenerator();
+      const id = generator.generate();
+
+      expect(id).toMatch(/^[a-z]{2}-\d{4}$/);
+      expect(generator.validate(id)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import type { TabIdGenerator } from "../id-generators";
+import { createShortIdGenerator } from "../id-generators";
+
+const DIGITS = "0123456789";
+const LOWERCASE_LETTERS = "abcdefghijklmnopqrstuvwxyz";
+
+/**
+ * Creates a strategy that generates a predictable sequence of short IDs (in the format `xx-0000`) from a seed,
+ * so that tests and snapshots don't depend on random tab IDs.
+ *
+ * @example
+ * const tabId = useTabId({ generator: createSeededGenerator(42) });
+ *
+ * @param seed The seed of the sequence: generators created with the same seed generate the same IDs.
+ */
+export function createSeededGenerator(seed = 1): TabIdGenerator {
+  const random = mulberry32(seed);
+  const pick = (alphabet: string, size: number) =>
+    Array.from({ length: size }, () => alphabet[Math.floor(random() * alphabet.length)]).join("");
+
+  return {
+    generate: () => `${pick(LOWERCASE_LETTERS, 2)}-${pick(DIGITS, 4)}`,
+    validate: createShortIdGenerator().validate,
+  };
+}
+
+/**
+ * A small, seedable pseudo-random number generator (mulberry32).
+ *
+ * @returns A function returning numbers between 0 (inclusive) and 1 (exclusive).
+ */
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
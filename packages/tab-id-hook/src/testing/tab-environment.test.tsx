@@ -0,0 +1,98 @@
+import { renderHook, waitFor } from "@testing-library/react";
+import React from "react";
+import { MemoryRouter } from "react-router";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { useTabId } from "../client/use-tab-id";
+import { createSeededGenerator } from "./seeded-generator";
+import type { TabEnvironment } from "./tab-environment";
+import { createTabEnvironment } from "./tab-environment";
+
+describe("tab-environment", () => {
+  const wrapper = ({ children }: { children: React.ReactNode }) => <MemoryRouter>{children}</MemoryRouter>;
+
+  let env: TabEnvironment;
+
+  beforeEach(() => {
+    env = createTabEnvironment();
+  });
+
+  afterEach(() => {
+    env.cleanup();
+  });
+
+  describe("createTabEnvironment()", () => {
+    it("should notify the hooks of the current tab when its tab ID is replaced", async () => {
+      env.current.setTabId("ab-1234");
+
+      const { result, unmount } = renderHook(() => useTabId({ navigate: false }), { wrapper });
+      expect(result.current).toBe("ab-1234");
+
+      env.current.setTabId("cd-5678");
+      await waitFor(() => expect(result.current).toBe("cd-5678"));
+
+      unmount();
+    });
+
+    it("should give each tab its own session storage", () => {
+      const other = env.openTab({ tabId: "ot-1234" });
+      env.current.setTabId("ab-1234");
+
+      expect(other.sessionStorage.getItem("tab-id")).toBe("ot-1234");
+      expect(window.sessionStorage.getItem("tab-id")).toBe("ab-1234");
+      expect(env.tabs).toEqual([env.current, other]);
+
+      other.close();
+      expect(env.tabs).toEqual([env.current]);
+    });
+
+    it("should give a duplicate of the current tab a new tab ID", async () => {
+      env.current.setTabId("ab-1234");
+      const { result, unmount } = renderHook(() => useTabId({ navigate: false }), { wrapper });
+
+      const duplicate = env.duplicateTab();
+      await waitFor(() => expect(duplicate.tabId).not.toBe("ab-1234"));
+
+      expect(result.current).toBe("ab-1234");
+
+      unmount();
+    });
+
+    it("should give the current tab a new tab ID when it is the duplicate of an older tab", async () => {
+      env.openTab({ tabId: "ab-1234", createdAt: 0 });
+      env.current.setTabId("ab-1234");
+
+      const { result, unmount } = renderHook(() => useTabId({ navigate: false }), { wrapper });
+
+      await waitFor(() => expect(result.current).not.toBe("ab-1234"));
+
+      unmount();
+    });
+
+    it("should generate predictable tab IDs", () => {
+      const generator = createSeededGenerator(7);
+      const seeded = createTabEnvironment({ generator: createSeededGenerator(7) });
+
+      expect(seeded.openTab().tabId).toBe(generator.generate());
+
+      seeded.cleanup();
+    });
+
+    it("should exchange BroadcastChannel messages between tabs", async () => {
+      const other = env.openTab();
+      const received = new Promise((resolve) => (env.current.channel("app").onmessage = ({ data }) => resolve(data)));
+
+      other.channel("app").postMessage({ from: other.tabId });
+
+      await expect(received).resolves.toEqual({ from: other.tabId });
+    });
+
+    it("should count the reloads of the current document", async () => {
+      const { unmount } = renderHook(() => useTabId({ reloadDocument: true }), { wrapper });
+
+      await waitFor(() => expect(env.reloads).toBe(1));
+      expect(window.location.pathname).toBe("/");
+
+      unmount();
+    });
+  });
+});
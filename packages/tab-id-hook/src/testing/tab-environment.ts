@@ -0,0 +1,279 @@
+import { detectDuplicateTab } from "../client/duplicate-tab";
+import { INSTANCE_ID } from "../client/instance-id";
+import { TabIdStore } from "../client/tab-id-store";
+import { SESSION_STORAGE_KEY } from "../defaults";
+import type { TabIdGenerator } from "../id-generators";
+import { generateId } from "../id-generators";
+import { createSeededGenerator } from "./seeded-generator";
+
+/**
+ * Configuration options for `createTabEnvironment()`.
+ */
+export type TabEnvironmentOptions = {
+  /**
+   * The strategy used to generate the IDs of the simulated tabs.
+   * @default createSeededGenerator()
+   */
+  generator?: TabIdGenerator;
+  /**
+   * The session storage key used for persisting the tab id (as configured in the application).
+   * @default 'tab-id'
+   */
+  sessionStorageKey?: string;
+};
+
+/**
+ * Configuration options for `TabEnvironment.openTab()`.
+ */
+export type OpenTabOptions = {
+  /**
+   * When the tab's document was created (see `performance.timeOrigin`). When two tabs share a tab id,
+   * the oldest one keeps it (see `detectDuplicates`).
+   * @default a time after the current document
+   */
+  createdAt?: number;
+  /**
+   * The tab id of the new tab.
+   * @default generated with the environment's generator
+   */
+  tabId?: string;
+};
+
+/**
+ * A browser tab, as simulated by `createTabEnvironment()`.
+ */
+export type SimulatedTab = {
+  /** The identifier of the tab's document (see the `instanceId` of the BroadcastChannel messages). */
+  readonly instanceId: string;
+  /** The tab's own session storage (`window.sessionStorage` for the current tab). */
+  readonly sessionStorage: Storage;
+  /** The tab id currently held in the tab's session storage. */
+  readonly tabId: string | undefined;
+  /**
+   * Opens a BroadcastChannel in the tab, to exchange messages with the current document.
+   * The channel is closed with the tab.
+   */
+  channel(name: string): BroadcastChannel;
+  /**
+   * Closes the tab: its channels are closed and it stops taking part in the duplicate tab handshake.
+   * The current tab can't be closed.
+   */
+  close(): void;
+  /**
+   * Replaces the tab id held in the tab's session storage (the `useTabId()` hooks of the current tab are notified).
+   */
+  setTabId(tabId: string): void;
+};
+
+/**
+ * Several browser tabs simulated around the document under test (ie: jsdom).
+ */
+export type TabEnvironment = {
+  /** The tab of the document under test, whose session storage is `window.sessionStorage`. */
+  readonly current: SimulatedTab;
+  /** How many times the current document was reloaded (see `reloadDocument`). */
+  readonly reloads: number;
+  /** The open tabs, including the current tab. */
+  readonly tabs: readonly SimulatedTab[];
+  /**
+   * Removes the environment: closes the other tabs, clears the current tab's session storage and restores
+   * `window.location`. Call it after each test.
+   */
+  cleanup(): void;
+  /**
+   * Simulates the browser's "duplicate tab" action: opens a tab with a copy of the session storage of `tab`
+   * (and so, the same tab id). The new tab runs the duplicate tab handshake like `useTabId()` does.
+   */
+  duplicateTab(tab?: SimulatedTab, options?: Pick<OpenTabOptions, "createdAt">): SimulatedTab;
+  /**
+   * Opens another tab of the application. The new tab runs the duplicate tab handshake like `useTabId()` does.
+   */
+  openTab(options?: OpenTabOptions): SimulatedTab;
+};
+
+/**
+ * Simulates several browser tabs around the document under test, to test multi-tab behaviors without
+ * clearing `sessionStorage`, dispatching `StorageEvent`s or overriding `window.location` by hand:
+ *
+ * - The current tab is the document under test: its session storage is `window.sessionStorage` (cleared).
+ * - Other tabs have their own session storage, and take part in the duplicate tab handshake.
+ * - Every tab can exchange BroadcastChannel messages with the current document.
+ * - `window.location.reload()` is counted instead of being run.
+ *
+ * @example
+ * const env = createTabEnvironment();
+ * afterEach(() => env.cleanup());
+ *
+ * it("should give a duplicated tab a new id", async () => {
+ *   env.current.setTabId("ab-1234");
+ *   render(<App />);
+ *
+ *   const duplicate = env.duplicateTab();
+ *   await waitFor(() => expect(duplicate.tabId).not.toBe("ab-1234"));
+ * });
+ *
+ * @param options Configuration options.
+ * @returns The environment.
+ */
+export function createTabEnvironment(options?: TabEnvironmentOptions): TabEnvironment {
+  const { generator = createSeededGenerator(), sessionStorageKey = SESSION_STORAGE_KEY } = options ?? {};
+
+  const tabs: SimulatedTab[] = [];
+  let reloads = 0;
+  let openedTabs = 0;
+
+  window.sessionStorage.clear();
+
+  //
+  // Count reloads instead of running them (jsdom doesn't implement navigation)
+  //
+
+  const location = window.location;
+
+  Object.defineProperty(window, "location", {
+    configurable: true,
+    // (the location's own properties can't be overridden, so the proxy stands in front of an empty object)
+    value: new Proxy({} as Location, {
+      get: (_, key) => {
+        if (key === "reload") {
+          return () => void reloads++;
+        }
+
+        const value: unknown = Reflect.get(location, key, location);
+        return typeof value === "function" ? (value as () => unknown).bind(location) : value;
+      },
+    }),
+  });
+
+  //
+  // The current tab is the document under test
+  //
+
+  const currentChannels = new Set<BroadcastChannel>();
+
+  const current: SimulatedTab = {
+    instanceId: INSTANCE_ID,
+    sessionStorage: window.sessionStorage,
+    get tabId() {
+      return window.sessionStorage.getItem(sessionStorageKey) ?? undefined;
+    },
+    channel: (name) => openChannel(currentChannels, name),
+    close: () => {
+      throw new Error("The current tab can't be closed.");
+    },
+    setTabId: (tabId) => {
+      const oldValue = window.sessionStorage.getItem(sessionStorageKey);
+      window.sessionStorage.setItem(sessionStorageKey, tabId);
+
+      // the `storage` event never fires in the document that changed the storage
+      const storageArea = window.sessionStorage;
+      window.dispatchEvent(new StorageEvent("storage", { key: sessionStorageKey, oldValue, newValue: tabId, storageArea }));
+    },
+  };
+
+  tabs.push(current);
+
+  //
+  // The other tabs
+  //
+
+  const openTab = (tabOptions: OpenTabOptions | undefined, storage: Storage): SimulatedTab => {
+    const { createdAt = performance.timeOrigin + ++openedTabs, tabId } = tabOptions ?? {};
+
+    const channels = new Set<BroadcastChannel>();
+    const instance = { instanceId: `simulated-${crypto.randomUUID()}`, createdAt };
+    const store = new TabIdStore({ generator, sessionStorageKey, storage });
+
+    storage.setItem(sessionStorageKey, tabId ?? storage.getItem(sessionStorageKey) ?? generateId(generator));
+
+    // take part in the duplicate tab handshake, like useTabId() does
+    let stopDetectingDuplicates = () => {};
+
+    const detectDuplicates = () => {
+      stopDetectingDuplicates();
+      stopDetectingDuplicates = detectDuplicateTab(store.getId(), (id) => void store.replaceId(id), instance);
+    };
+
+    const unsubscribe = store.subscribe(detectDuplicates);
+    detectDuplicates();
+
+    const tab: SimulatedTab = {
+      instanceId: instance.instanceId,
+      sessionStorage: storage,
+      get tabId() {
+        return storage.getItem(sessionStorageKey) ?? undefined;
+      },
+      channel: (name) => openChannel(channels, name),
+      close: () => {
+        unsubscribe();
+        stopDetectingDuplicates();
+        channels.forEach((channel) => channel.close());
+        tabs.splice(tabs.indexOf(tab), 1);
+      },
+      setTabId: (newTabId) => {
+        storage.setItem(sessionStorageKey, newTabId);
+        detectDuplicates(); // the store only notifies the changes it made itself
+      },
+    };
+
+    tabs.push(tab);
+    return tab;
+  };
+
+  return {
+    current,
+    get reloads() {
+      return reloads;
+    },
+    tabs,
+    cleanup: () => {
+      tabs.filter((tab) => tab !== current).forEach((tab) => tab.close());
+      currentChannels.forEach((channel) => channel.close());
+      window.sessionStorage.clear();
+      Object.defineProperty(window, "location", { configurable: true, value: location });
+    },
+    duplicateTab: (tab = current, tabOptions) => openTab(tabOptions, copyStorage(tab.sessionStorage)),
+    openTab: (tabOptions) => openTab(tabOptions, createMemoryStorage()),
+  };
+}
+
+function openChannel(channels: Set<BroadcastChannel>, name: string): BroadcastChannel {
+  const channel = new BroadcastChannel(name);
+  channels.add(channel);
+  return channel;
+}
+
+/**
+ * Creates an in-memory `Storage`, standing for the session storage of a simulated tab.
+ */
+function createMemoryStorage(entries: Iterable<[string, string]> = []): Storage {
+  const items = new Map<string, string>(entries);
+
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => void items.delete(key),
+    setItem: (key, value) => void items.set(key, String(value)),
+  };
+}
+
+/**
+ * Copies a storage, like the browser copies the session storage of a duplicated tab.
+ */
+function copyStorage(storage: Storage): Storage {
+  const entries: Array<[string, string]> = [];
+
+  for (let index = 0; index < storage.length; index++) {
+    const key = storage.key(index);
+
+    if (key !== null) {
+      entries.push([key, storage.getItem(key) ?? ""]);
+    }
+  }
+
+  return createMemoryStorage(entries);
+}
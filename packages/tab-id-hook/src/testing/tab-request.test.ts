@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { defineTabIdConfig } from "../config";
+import { getParentTabId } from "../server/get-parent-tab-id";
+import { getTabId } from "../server/get-tab-id";
+import { createTabRequest } from "./tab-request";
+
+describe("tab-request", () => {
+  describe("createTabRequest()", () => {
+    it("should send the tab ID in the query string by default", () => {
+      const request = createTabRequest("/orders?page=2", "ab-1234");
+
+      expect(request.url).toBe("http://localhost/orders?page=2&tid=ab-1234");
+      expect(getTabId(request)).toBe("ab-1234");
+    });
+
+    it("should send the tab ID in a header", () => {
+      const request = createTabRequest("http://example.com/orders", "ab-1234", { source: "header" });
+
+      expect(request.headers.get("X-Tab-Id")).toBe("ab-1234");
+      expect(getTabId(request)).toBe("ab-1234");
+    });
+
+    it("should send the tab ID in a route segment", () => {
+      const request = createTabRequest("/orders?page=2", "ab-1234", { source: "path-segment" });
+
+      expect(request.url).toBe("http://localhost/t/ab-1234/orders?page=2");
+      expect(getTabId(request, { sources: ["path-segment"] })).toBe("ab-1234");
+    });
+
+    it("should send the tab ID in a route segment after the basename of the shared configuration", () => {
+      const config = defineTabIdConfig({ basename: "/app", pathPrefix: "tab", transport: "path-segment" });
+      const request = createTabRequest("/app/orders", "ab-1234", { config });
+
+      expect(request.url).toBe("http://localhost/app/tab/ab-1234/orders");
+      expect(getTabId(request, { config })).toBe("ab-1234");
+    });
+
+    it("should send the tab ID in the submitted form data", async () => {
+      const body = new FormData();
+      body.set("intent", "save");
+
+      const request = createTabRequest("/orders", "ab-1234", { init: { body }, source: "form-data" });
+      const formData = await request.formData();
+
+      expect(request.method).toBe("POST");
+      expect(formData.get("intent")).toBe("save");
+      expect(getTabId(request, { formData })).toBe("ab-1234");
+    });
+
+    it("should send the tab ID in a cookie", () => {
+      const request = createTabRequest("/orders", "ab-1234", { init: { headers: { Cookie: "foo=bar" } }, source: "cookie" });
+
+      expect(request.headers.get("Cookie")).toBe("foo=bar; tid=ab-1234");
+      expect(getTabId(request, { sources: ["cookie"] })).toBe("ab-1234");
+    });
+
+    it("should use the shared configuration", () => {
+      const config = defineTabIdConfig({ headerName: "X-Tab", idSearchParamKey: "tab" });
+
+      expect(createTabRequest("/orders", "ab-1234", { config }).url).toBe("http://localhost/orders?tab=ab-1234");
+      expect(createTabRequest("/orders", "ab-1234", { config, source: "header" }).headers.get("X-Tab")).toBe("ab-1234");
+    });
+
+    it("should send the parent tab ID", () => {
+      const request = createTabRequest("/orders", "ab-1234", { parentTabId: "pa-1234", source: "header" });
+      expect(getParentTabId(request)).toBe("pa-1234");
+    });
+
+    it("should build a request without a tab ID", () => {
+      const request = createTabRequest("/orders", undefined);
+      expect(getTabId(request)).toBeUndefined();
+    });
+  });
+});
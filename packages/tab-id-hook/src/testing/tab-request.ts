@@ -0,0 +1,93 @@
+import { HEADER_NAME, PARENT_HEADER_NAME, PATH_PREFIX, SEARCH_PARAM_KEY } from "../defaults";
+import { hasPathSegmentTransport, setPathTabId, splitBasename } from "../path-segment";
+import type { GetTabIdOptions, TabIdSource } from "../server/get-tab-id";
+
+/**
+ * Configuration options for `createTabRequest()`.
+ */
+export type CreateTabRequestOptions = Pick<
+  GetTabIdOptions,
+  "basename" | "config" | "cookieName" | "headerName" | "paramKey" | "pathPrefix"
+> & {
+  /**
+   * The request's method, headers and body. A `FormData` body receives the tab ID with the `form-data` source.
+   */
+  init?: RequestInit;
+  /**
+   * The ID of the tab that opened the requesting tab, sent in the `X-Parent-Tab-Id` header (see `getParentTabId()`).
+   */
+  parentTabId?: string;
+  /**
+   * Where the request carries the tab ID (see `getTabId()`). The `form-data` source makes a `POST` request.
+   * @default 'search-param' ('path-segment' when the config's transport includes `path-segment`)
+   */
+  source?: TabIdSource;
+};
+
+/**
+ * Builds a request carrying a tab ID, the way the client sends it, to test loaders and actions built on `getTabId()`.
+ *
+ * @example
+ * const response = await loader({ request: createTabRequest("/orders", "ab-1234"), params: {}, context });
+ *
+ * @param url The URL of the request. Relative URLs are resolved against `http://localhost/`.
+ * @param tabId The tab ID to send (or `undefined`, to test requests without a tab ID).
+ * @param options Configuration options.
+ * @returns The request.
+ */
+export function createTabRequest(url: string | URL, tabId: string | undefined, options?: CreateTabRequestOptions): Request {
+  const {
+    config,
+    basename = config?.basename,
+    headerName = config?.headerName ?? HEADER_NAME,
+    init,
+    paramKey = config?.idSearchParamKey ?? SEARCH_PARAM_KEY,
+    cookieName = paramKey,
+    parentTabId,
+    pathPrefix = config?.pathPrefix ?? PATH_PREFIX,
+    source = hasPathSegmentTransport(config) ? "path-segment" : "search-param",
+  } = options ?? {};
+
+  const requestUrl = new URL(url, "http://localhost/");
+  const headers = new Headers(init?.headers);
+  let { body, method } = init ?? {};
+
+  if (parentTabId !== undefined) {
+    headers.set(PARENT_HEADER_NAME, parentTabId);
+  }
+
+  if (tabId !== undefined) {
+    switch (source) {
+      case "header":
+        headers.set(headerName, tabId);
+        break;
+
+      case "form-data": {
+        const formData = body instanceof FormData ? body : new FormData();
+        formData.set(paramKey, tabId);
+        body = formData;
+        method ??= "POST";
+        break;
+      }
+
+      case "search-param":
+        requestUrl.searchParams.set(paramKey, tabId);
+        break;
+
+      case "path-segment": {
+        // the tab ID segment follows the router's basename (ie: `/app/t/ab-1234/orders`)
+        const [base, pathname] = splitBasename(requestUrl.pathname, basename);
+        requestUrl.pathname = `${base}${setPathTabId(pathname, pathPrefix, tabId)}`;
+        break;
+      }
+
+      case "cookie": {
+        const cookie = `${cookieName}=${encodeURIComponent(tabId)}`;
+        headers.set("Cookie", headers.has("Cookie") ? `${headers.get("Cookie")}; ${cookie}` : cookie);
+        break;
+      }
+    }
+  }
+
+  return new Request(requestUrl, { ...init, body, headers, method });
+}
@@ -0,0 +1,6 @@
+export * from "./client/fork-tab";
+export * from "./client/history-adapter";
+export * from "./client/tab-id-store";
+export * from "./client/tab-scoped-storage";
+export * from "./defaults";
+export * from "./id-generators";
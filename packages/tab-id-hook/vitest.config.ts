@@ -10,14 +10,14 @@ export default defineConfig({
         test: {
           name: "jsdom",
           environment: "jsdom",
-          include: ["**/client/**/*.test.(ts|tsx)"],
+          include: ["**/client/**/*.test.(ts|tsx)", "**/testing/**/*.test.(ts|tsx)"],
         },
       },
       {
         test: {
           name: "node",
           environment: "node",
-          include: ["**/server/**/*.test.(ts|tsx)"],
+          include: ["**/server/**/*.test.(ts|tsx)", "src/*.test.(ts|tsx)"],
         },
       },
     ],